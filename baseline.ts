@@ -8,10 +8,11 @@
  */
 
 import { join } from "path";
+import { dataPath } from "./lib/store";
 
 const DIR = import.meta.dir;
-const WORKFLOWS_PATH = join(DIR, "workflow-defs.json");
-const ANNOTATIONS_PATH = join(DIR, "annotations.json");
+const WORKFLOWS_PATH = dataPath("workflow-defs.json");
+const ANNOTATIONS_PATH = dataPath("annotations.json");
 const BASELINE_DIR = join(DIR, "baselines");
 
 interface Annotation {
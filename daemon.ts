@@ -1,24 +1,40 @@
 /**
  * daemon.ts — Auto-sync daemon entry point.
  *
- * Extends server.ts: adds GET /api/daemon/status and a poll loop that watches
- * the companion app's git repo for Swift file changes.
+ * Mounts the shared API from lib/routes.ts plus a daemon plugin with
+ * GET /api/daemon/status and POST /api/daemon/{sync,pause,resume,reset-commit},
+ * and runs a poll loop that watches the companion app's git repo for Swift
+ * (and Kotlin/Compose) file changes. With SYNC_MODE=staged, merges are queued as changesets
+ * (GET /api/changesets) and only written once a reviewer accepts them.
+ *
+ * Watched paths and journey rules come from sync.config.json (or SYNC_CONFIG).
  *
  * Usage: bun --hot daemon.ts
- * Env:   APP_REPO_PATH, POLL_INTERVAL_SECONDS, WOVIZ_PORT, LOG_MAX_BYTES
+ * Env:   APP_REPO_PATH, POLL_INTERVAL_SECONDS, SYNC_MODE, SYNC_CONFIG, WOVIZ_PORT, WOVIZ_DATA_DIR, LOG_MAX_BYTES
  */
 
-import editor from "./editor.html";
-import { join } from "path";
+import { join, resolve } from "path";
 import { logger } from "./lib/logger";
-import { scan } from "./sync/scan";
-import { parseSwiftFile } from "./sync/parse";
-import { merge } from "./sync/merge";
+import { ConflictError, conflictResponse, dataPath, readDoc, writeDoc } from "./lib/store";
+import { publish } from "./lib/events";
+import { startServer } from "./lib/routes";
+import type { RoutePlugin } from "./lib/routes";
+import { addChangeset, listChangesets, pendingChangeCount, pendingChanges, resolveChange } from "./lib/changesets";
+import { DEFAULT_CONFIG_PATH, loadConfig } from "./sync/config";
+import { readStringTables, scan } from "./sync/scan";
+import { localize, mergeStringTables, parseStringTable } from "./sync/strings";
+import { mergeRouteMaps, parseEntryPoints, parseRoutes, parseSwiftFile } from "./sync/parse";
+import type { EntryPoint, ParsedView, RouteMap } from "./sync/parse";
+import { mergeNavGraphs, parseKotlinFile, parseNavGraph } from "./sync/parse-compose";
+import type { NavGraph } from "./sync/parse-compose";
+import type { ChangedFile, ScanResult } from "./sync/scan";
+import { merge, applyChanges } from "./sync/merge";
+import type { WorkflowDefs } from "./sync/merge";
+import { migrateWorkflowDefs } from "./sync/migrate";
 import { validate } from "./sync/validate";
 
 const DIR = import.meta.dir;
-const WORKFLOWS_PATH = join(DIR, "workflow-defs.json");
-const ANNOTATIONS_PATH = join(DIR, "annotations.json");
+const WORKFLOWS_PATH = dataPath("workflow-defs.json");
 const LAST_COMMIT_PATH = join(DIR, "sync/.last-commit");
 
 const APP_REPO_PATH = process.env.APP_REPO_PATH;
@@ -26,7 +42,13 @@ if (!APP_REPO_PATH) {
   throw new Error("APP_REPO_PATH environment variable is required. Set it to the path of your app's git repo.");
 }
 const POLL_INTERVAL_MS = (Number(process.env.POLL_INTERVAL_SECONDS) || 60) * 1000;
-const PORT = Number(process.env.WOVIZ_PORT) || 8091;
+// "auto" writes merges straight away; "staged" queues them for review in the editor
+const SYNC_MODE: "auto" | "staged" = process.env.SYNC_MODE === "staged" ? "staged" : "auto";
+// Relative SYNC_CONFIG paths are relative to this directory, not the cwd
+const CONFIG_PATH = process.env.SYNC_CONFIG ? resolve(DIR, process.env.SYNC_CONFIG) : DEFAULT_CONFIG_PATH;
+const config = await loadConfig(CONFIG_PATH);
+
+const EMPTY_DEFS: WorkflowDefs = { version: "1.0.0", journeys: [] };
 
 // ── Daemon state ──────────────────────────────────────────────────
 
@@ -39,6 +61,8 @@ interface DaemonState {
   updatesApplied: number;
   pendingReview: number;
   consecutiveErrors: number;
+  mode: "auto" | "staged";
+  pendingChanges: number;
 }
 
 const state: DaemonState = {
@@ -50,6 +74,8 @@ const state: DaemonState = {
   updatesApplied: 0,
   pendingReview: 0,
   consecutiveErrors: 0,
+  mode: SYNC_MODE,
+  pendingChanges: 0,
 };
 
 // ── Persist / load last commit SHA ────────────────────────────────
@@ -64,6 +90,91 @@ async function saveLastCommit(sha: string) {
   await Bun.write(LAST_COMMIT_PATH, sha);
 }
 
+async function clearLastCommit() {
+  const f = Bun.file(LAST_COMMIT_PATH);
+  if (await f.exists()) await f.delete();
+}
+
+// ── Write workflow-defs.json ──────────────────────────────────────
+
+/**
+ * Snapshot a baseline, write defs if the file still has `revision` (else
+ * ConflictError), push it to editors, then re-export Mermaid.
+ */
+async function writeWorkflows(defs: WorkflowDefs, revision: string) {
+  // Save baseline snapshot before writing
+  try {
+    await Bun.$`bun ${join(DIR, "baseline.ts")} save`.quiet();
+  } catch {
+    // Non-fatal — log and continue
+    await logger.warn("ERROR", { error: "baseline save failed (non-fatal)" });
+  }
+
+  const updated = {
+    ...defs,
+    generatedAt: new Date().toISOString(),
+  };
+  const newRevision = await writeDoc(WORKFLOWS_PATH, updated, revision);
+  publish({ type: "workflows", revision: newRevision, data: updated });
+
+  // Export mermaid (non-fatal if it fails)
+  try {
+    await Bun.$`bun ${join(DIR, "export-mermaid.ts")} --json`.quiet();
+  } catch {
+    await logger.warn("ERROR", { error: "mermaid export failed (non-fatal)" });
+  }
+}
+
+// ── Route tables ──────────────────────────────────────────────────
+
+// navigationDestination(for:) tables (Swift) and NavHost graphs (Kotlin) per
+// file, so navigation sites in one file resolve against a table declared in
+// another. Seeded from every watched file at HEAD on the first cycle, then
+// kept current from each scan. Swift files with entry handlers are kept too:
+// their entry points are re-parsed against the merged routes every cycle.
+const routesByFile = new Map<string, RouteMap>();
+const graphsByFile = new Map<string, NavGraph>();
+const entrySources = new Map<string, string>();
+let routesSeeded = false;
+
+const ENTRY_HANDLERS = /\b(onOpenURL|onContinueUserActivity|handlesExternalEvents|\w*Intent)\b/;
+
+function isKotlin(path: string): boolean {
+  return path.endsWith(".kt");
+}
+
+function indexRoutes(f: ChangedFile) {
+  if (isKotlin(f.path)) {
+    graphsByFile.set(f.path, parseNavGraph(f.content));
+    return;
+  }
+  routesByFile.set(f.path, parseRoutes(f.content));
+  if (ENTRY_HANDLERS.test(f.content)) entrySources.set(f.path, f.content);
+  else entrySources.delete(f.path);
+}
+
+async function routeTables(
+  scanResult: ScanResult
+): Promise<{ routes: RouteMap; graph: NavGraph; entryPoints: EntryPoint[] }> {
+  if (!routesSeeded && !scanResult.bootstrap) {
+    const all = await scan(APP_REPO_PATH!, null, config);
+    for (const f of all.newFiles) indexRoutes(f);
+  }
+  routesSeeded = true;
+
+  for (const path of [...scanResult.removedFiles, ...(scanResult.renamedFiles ?? []).map((f) => f.oldPath)]) {
+    routesByFile.delete(path);
+    graphsByFile.delete(path);
+    entrySources.delete(path);
+  }
+  for (const f of [...scanResult.newFiles, ...scanResult.modifiedFiles, ...(scanResult.renamedFiles ?? [])]) {
+    indexRoutes(f);
+  }
+  const routes = mergeRouteMaps(routesByFile.values());
+  const entryPoints = [...entrySources].flatMap(([path, content]) => parseEntryPoints(path, content, routes));
+  return { routes, graph: mergeNavGraphs(graphsByFile.values()), entryPoints };
+}
+
 // ── Poll cycle ────────────────────────────────────────────────────
 
 async function pollCycle() {
@@ -74,11 +185,13 @@ async function pollCycle() {
 
   try {
     // 1. Scan git for changes
-    const scanResult = await scan(APP_REPO_PATH, state.lastCommit);
+    const scanResult = await scan(APP_REPO_PATH, state.lastCommit, config);
+    const renamedFiles = scanResult.renamedFiles ?? [];
     const totalChanged =
       scanResult.newFiles.length +
       scanResult.removedFiles.length +
-      scanResult.modifiedFiles.length;
+      scanResult.modifiedFiles.length +
+      renamedFiles.length;
 
     if (totalChanged === 0) {
       await logger.info("UPDATE_SKIPPED", {
@@ -93,37 +206,62 @@ async function pollCycle() {
 
     await logger.info("COMMIT_DETECTED", {
       commit: scanResult.currentSHA,
+      bootstrap: scanResult.bootstrap || undefined,
       files: [
         ...scanResult.newFiles.map((f) => f.path),
         ...scanResult.removedFiles,
         ...scanResult.modifiedFiles.map((f) => f.path),
+        ...renamedFiles.map((f) => `${f.oldPath} → ${f.path}`),
       ],
       changes: totalChanged,
     });
 
-    // 2. Parse Swift files
-    const allFiles = [...scanResult.newFiles, ...scanResult.modifiedFiles];
+    // 2. Parse Swift / Kotlin files
+    const { routes, graph, entryPoints } = await routeTables(scanResult);
+    const allFiles = [...scanResult.newFiles, ...scanResult.modifiedFiles, ...renamedFiles];
+    // Screen titles may be localization keys; step labels use the app's own text
+    const strings = mergeStringTables(
+      (await readStringTables(APP_REPO_PATH!)).map((f) => parseStringTable(f.path, f.content)),
+    );
     const parsedViews = allFiles
-      .map((f) => parseSwiftFile(f.path, f.content))
-      .filter((p): p is NonNullable<typeof p> => p !== null);
-
-    // 3. Load current workflow defs
-    const workflowsFile = Bun.file(WORKFLOWS_PATH);
-    const currentDefs = (await workflowsFile.exists())
-      ? await workflowsFile.json()
-      : { version: "1.0.0", generatedAt: new Date().toISOString(), journeys: [] };
+      .flatMap((f): ParsedView[] =>
+        isKotlin(f.path) ? parseKotlinFile(f.path, f.content, graph) : parseSwiftFile(f.path, f.content, routes),
+      )
+      .map((p) => (p.title ? { ...p, title: localize(strings, p.title) } : p));
+
+    // 3. Load current workflow defs (revision guards the write in step 6)
+    const { data: storedDefs, revision } = await readDoc<WorkflowDefs>(WORKFLOWS_PATH, {
+      ...EMPTY_DEFS,
+      generatedAt: new Date().toISOString(),
+    });
+    const { json: storedCurrent } = migrateWorkflowDefs(storedDefs);
+    // Staged: merge on top of the changes still queued, or this cycle would
+    // re-add their steps and compute edges from before them
+    const currentDefs = SYNC_MODE === "staged"
+      ? applyChanges(storedCurrent, pendingChanges(await listChangesets()))
+      : storedCurrent;
 
     // 4. Merge
-    const mergeResult = merge(currentDefs, scanResult, parsedViews);
+    const mergeResult = merge(currentDefs, scanResult, parsedViews, config, entryPoints);
 
     await logger.info("SCAN_COMPLETE", {
       commit: scanResult.currentSHA,
       changes: mergeResult.changes.length,
       pendingReview: mergeResult.reviewCount,
     });
+    if (mergeResult.placements.length > 0) {
+      await logger.info("STEPS_PLACED", {
+        commit: scanResult.currentSHA,
+        placements: mergeResult.placements.map(
+          (p) => `${p.structName} → ${p.journeyId}:${p.stepId} (${p.placedBy})`,
+        ),
+      });
+    }
 
     // 5. Validate
-    const validation = validate(currentDefs, mergeResult.json);
+    const validation = validate(currentDefs, mergeResult.json, {
+      unboundedJourneys: scanResult.bootstrap,
+    });
     if (!validation.ok) {
       await logger.warn("VALIDATION_FAILED", {
         commit: scanResult.currentSHA,
@@ -134,29 +272,40 @@ async function pollCycle() {
       return;
     }
 
-    // 6. Save baseline snapshot before writing
-    try {
-      await Bun.$`bun ${join(DIR, "baseline.ts")} save`.quiet();
-    } catch {
-      // Non-fatal — log and continue
-      await logger.warn("ERROR", { error: "baseline save failed (non-fatal)" });
-    }
+    // 6a. Staged mode: queue the changes for review instead of writing
+    if (SYNC_MODE === "staged") {
+      if (mergeResult.changes.length > 0) {
+        const changesets = await addChangeset(scanResult.currentSHA, mergeResult.changes);
+        state.pendingChanges = pendingChangeCount(changesets);
+        publish({ type: "changesets", changesets });
+      }
+      state.lastCommit = scanResult.currentSHA;
+      state.consecutiveErrors = 0;
+      await saveLastCommit(scanResult.currentSHA);
 
-    // 7. Write updated workflow-defs.json
-    const updated = {
-      ...mergeResult.json,
-      generatedAt: new Date().toISOString(),
-    };
-    await Bun.write(WORKFLOWS_PATH, JSON.stringify(updated, null, 2));
+      await logger.info("CHANGESET_QUEUED", {
+        commit: scanResult.currentSHA,
+        changes: mergeResult.changes.length,
+        pendingReview: state.pendingChanges,
+        durationMs: Date.now() - cycleStart,
+      });
+      return;
+    }
 
-    // 8. Export mermaid (non-fatal if it fails)
+    // 6b. Write updated workflow-defs.json, unless an editor saved since step 3
     try {
-      await Bun.$`bun ${join(DIR, "export-mermaid.ts")} --json`.quiet();
-    } catch {
-      await logger.warn("ERROR", { error: "mermaid export failed (non-fatal)" });
+      await writeWorkflows(mergeResult.json, revision);
+    } catch (err) {
+      if (!(err instanceof ConflictError)) throw err;
+      // Leave lastCommit untouched so the next cycle re-merges onto the newer file
+      await logger.warn("WRITE_CONFLICT", {
+        commit: scanResult.currentSHA,
+        durationMs: Date.now() - cycleStart,
+      });
+      return;
     }
 
-    // 9. Update state
+    // 7. Update state
     state.lastCommit = scanResult.currentSHA;
     state.lastUpdate = new Date().toISOString();
     state.updatesApplied++;
@@ -180,98 +329,202 @@ async function pollCycle() {
   }
 }
 
+// Auto-resume after an error pause; cleared by a manual pause/resume
+let errorPauseTimer: ReturnType<typeof setTimeout> | null = null;
+
 function checkErrorThreshold() {
   if (state.consecutiveErrors >= 5) {
     state.status = "paused";
+    publishState();
     logger.warn("ERROR", { error: `Pausing for 10min after ${state.consecutiveErrors} consecutive errors` });
-    setTimeout(() => {
+    if (errorPauseTimer) clearTimeout(errorPauseTimer);
+    errorPauseTimer = setTimeout(() => {
+      errorPauseTimer = null;
       state.status = "running";
       state.consecutiveErrors = 0;
+      publishState();
       startPoll();
     }, 10 * 60 * 1000);
   }
 }
 
+/** Push the current DaemonState to open editors */
+function publishState() {
+  publish({ type: "daemon", state: { ...state } });
+}
+
 // ── Poll loop ─────────────────────────────────────────────────────
 
 let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let cycleInFlight: Promise<void> | null = null;
+
+/** Run one poll cycle, or join the one already running */
+function runCycle(): Promise<void> {
+  if (!cycleInFlight) {
+    cycleInFlight = pollCycle().finally(() => {
+      cycleInFlight = null;
+      publishState();
+    });
+  }
+  return cycleInFlight;
+}
 
 function startPoll() {
   if (pollTimer) clearTimeout(pollTimer);
   const tick = async () => {
     if (state.status === "running") {
-      await pollCycle();
+      await runCycle();
     }
     pollTimer = setTimeout(tick, POLL_INTERVAL_MS);
   };
   pollTimer = setTimeout(tick, POLL_INTERVAL_MS);
 }
 
-// ── HTTP server (extends server.ts routes) ────────────────────────
+// ── Controls ──────────────────────────────────────────────────────
 
-const server = Bun.serve({
-  port: PORT,
-  hostname: "127.0.0.1",
-  routes: {
-    "/": editor,
-  },
+async function pause() {
+  if (errorPauseTimer) clearTimeout(errorPauseTimer);
+  errorPauseTimer = null;
+  state.status = "paused";
+  await logger.info("DAEMON_PAUSE", { commit: state.lastCommit ?? undefined });
+  publishState();
+}
 
-  async fetch(req) {
-    const url = new URL(req.url);
+async function resume() {
+  if (errorPauseTimer) clearTimeout(errorPauseTimer);
+  errorPauseTimer = null;
+  state.status = "running";
+  state.consecutiveErrors = 0;
+  await logger.info("DAEMON_RESUME", { commit: state.lastCommit ?? undefined });
+  publishState();
+  startPoll();
+}
 
-    // Daemon status endpoint
-    if (url.pathname === "/api/daemon/status" && req.method === "GET") {
-      return Response.json(state);
-    }
+/** Point .last-commit at sha (verified against the app repo), or forget it when null */
+async function resetCommit(sha: string | null): Promise<string | null> {
+  if (sha === null) {
+    await clearLastCommit();
+    state.lastCommit = null;
+  } else {
+    const result = await Bun.$`git -C ${APP_REPO_PATH} rev-parse --verify --quiet ${sha + "^{commit}"}`
+      .quiet()
+      .nothrow();
+    if (result.exitCode !== 0) return `Unknown commit "${sha}" in ${APP_REPO_PATH}`;
+    const resolved = result.stdout.toString().trim();
+    await saveLastCommit(resolved);
+    state.lastCommit = resolved;
+  }
+  await logger.info("COMMIT_RESET", { commit: state.lastCommit ?? undefined });
+  publishState();
+  return null;
+}
 
-    // Workflow CRUD (from server.ts)
-    if (url.pathname === "/api/workflows") {
-      if (req.method === "GET") {
-        const file = Bun.file(WORKFLOWS_PATH);
-        if (await file.exists()) {
-          return new Response(await file.text(), {
-            headers: { "Content-Type": "application/json" },
-          });
-        }
-        return Response.json({ version: "1.0.0", journeys: [] });
-      }
-      if (req.method === "PUT") {
-        const body = await req.json();
-        await Bun.write(WORKFLOWS_PATH, JSON.stringify(body, null, 2));
-        return Response.json({ ok: true });
-      }
-    }
+// ── Review queue (staged mode) ────────────────────────────────────
 
-    // Annotations CRUD (from server.ts)
-    if (url.pathname === "/api/annotations") {
-      if (req.method === "GET") {
-        const file = Bun.file(ANNOTATIONS_PATH);
-        if (await file.exists()) {
-          return new Response(await file.text(), {
-            headers: { "Content-Type": "application/json" },
-          });
-        }
-        return Response.json({ annotations: [] });
-      }
-      if (req.method === "POST") {
-        const body = await req.json();
-        await Bun.write(ANNOTATIONS_PATH, JSON.stringify(body, null, 2));
-        return Response.json({ ok: true });
+class InvalidChangeError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(errors.join("; "));
+    this.name = "InvalidChangeError";
+  }
+}
+
+/**
+ * Accept or reject one queued change (with the ones resolveChange pairs it
+ * with); accepting applies and writes them first
+ */
+async function resolveQueuedChange(
+  changesetId: string,
+  index: number,
+  status: "accepted" | "rejected",
+): Promise<Response> {
+  try {
+    const changesets = await resolveChange(changesetId, index, status, async (changes) => {
+      if (status === "rejected") return;
+      const { data: stored, revision } = await readDoc<WorkflowDefs>(WORKFLOWS_PATH, EMPTY_DEFS);
+      const { json: current } = migrateWorkflowDefs(stored);
+      const next = applyChanges(current, changes);
+      const validation = validate(current, next);
+      if (!validation.ok) throw new InvalidChangeError(validation.errors);
+      await writeWorkflows(next, revision);
+      state.lastUpdate = new Date().toISOString();
+      state.updatesApplied += changes.length;
+      for (const change of changes) {
+        if (change.patch.op === "add-step" && change.patch.step._needsReview) state.pendingReview++;
       }
+    });
+    if (!changesets) return new Response("Not Found", { status: 404 });
+
+    state.pendingChanges = pendingChangeCount(changesets);
+    publish({ type: "changesets", changesets });
+    publishState();
+    return Response.json({ changesets });
+  } catch (err) {
+    if (err instanceof InvalidChangeError) {
+      return Response.json({ error: "validation", errors: err.errors }, { status: 422 });
     }
+    if (err instanceof ConflictError) return conflictResponse(err);
+    throw err;
+  }
+}
 
-    return new Response("Not Found", { status: 404 });
-  },
+// ── HTTP server (server.ts routes + daemon plugin) ────────────────
 
-  development: {
-    hmr: true,
-    console: true,
+const daemonPlugin: RoutePlugin = {
+  name: "daemon",
+  routes: {
+    "/api/daemon/status": {
+      GET: () => Response.json(state),
+    },
+    "/api/daemon/sync": {
+      POST: async () => {
+        if (state.status === "paused") {
+          return Response.json({ error: "Daemon is paused; resume it first" }, { status: 409 });
+        }
+        await runCycle();
+        return Response.json(state);
+      },
+    },
+    "/api/daemon/pause": {
+      POST: async () => {
+        await pause();
+        return Response.json(state);
+      },
+    },
+    "/api/daemon/resume": {
+      POST: async () => {
+        await resume();
+        return Response.json(state);
+      },
+    },
+    "/api/changesets": {
+      GET: async () => Response.json({ changesets: await listChangesets() }),
+    },
+    "/api/changesets/:id/changes/:index/accept": {
+      POST: (req) => resolveQueuedChange(req.params.id!, Number(req.params.index), "accepted"),
+    },
+    "/api/changesets/:id/changes/:index/reject": {
+      POST: (req) => resolveQueuedChange(req.params.id!, Number(req.params.index), "rejected"),
+    },
+    // Body: { commit?: string } — omit commit to forget the last synced SHA
+    "/api/daemon/reset-commit": {
+      POST: async (req) => {
+        const body = await req.json().catch(() => ({}));
+        const commit = typeof body?.commit === "string" && body.commit ? body.commit : null;
+        if (cycleInFlight) await cycleInFlight;
+        const error = await resetCommit(commit);
+        if (error) return Response.json({ error: "validation", errors: [error] }, { status: 422 });
+        return Response.json(state);
+      },
+    },
   },
-});
+};
+
+const server = startServer([daemonPlugin]);
 
 // ── Boot ──────────────────────────────────────────────────────────
 
 state.lastCommit = await loadLastCommit();
+state.pendingChanges = pendingChangeCount(await listChangesets());
 await logger.info("DAEMON_START", {
   commit: state.lastCommit ?? undefined,
 });
@@ -279,9 +532,10 @@ await logger.info("DAEMON_START", {
 startPoll();
 
 console.log(`Workflow Editor + Daemon running at http://localhost:${server.port}`);
-console.log(`Watching: ${APP_REPO_PATH}`);
+console.log(`Watching: ${APP_REPO_PATH} (${config.watch.length} globs from ${CONFIG_PATH})`);
 console.log(`Poll interval: ${POLL_INTERVAL_MS / 1000}s`);
-console.log(`Last commit: ${state.lastCommit ?? "(none — full scan on next poll)"}`);
+console.log(`Sync mode: ${SYNC_MODE}`);
+console.log(`Last commit: ${state.lastCommit ?? "(none — bootstrap scan of all watched files on next poll)"}`);
 
 // Graceful shutdown
 process.on("SIGINT", async () => {
@@ -7,12 +7,25 @@ interface Step {
   label: string;
   screen: string;
   swiftFile: string;
+  platform?: "ios" | "android";
   type: "action" | "display" | "decision" | "input" | "system";
+  typeConfidence?: number;
+  typeEvidence?: string[];
   next: string[];
-  edgeLabels?: string[];
+  /** By target step; a list when several branches lead to the same step */
+  edgeLabels?: Record<string, string | string[]>;
+  entryPoints?: EntryPoint[];
   phase?: string;
 }
 
+interface EntryPoint {
+  kind: "openURL" | "externalEvents" | "userActivity" | "appIntent";
+  detail?: string;
+  filePath: string;
+  /** Unset on entries added by hand, which the sync keeps */
+  synced?: true;
+}
+
 interface Journey {
   id: string;
   name: string;
@@ -21,12 +34,47 @@ interface Journey {
 }
 
 interface Annotation {
+  id: string;
   stepId: string;
   journeyId: string;
   type: "note" | "change-request" | "bug" | "question";
   text: string;
   priority: "suggestion" | "required" | "blocker";
   createdAt: string;
+  updatedAt?: string;
+  revision: string;
+}
+
+type AnnotationInput = Omit<Annotation, "id" | "createdAt" | "updatedAt" | "revision">;
+
+// Mirrors DaemonState in daemon.ts (only served when running the daemon)
+interface DaemonState {
+  status: "running" | "paused" | "error";
+  lastCommit: string | null;
+  lastCheck: string | null;
+  lastUpdate: string | null;
+  pollInterval: number;
+  updatesApplied: number;
+  pendingReview: number;
+  consecutiveErrors: number;
+  mode: "auto" | "staged";
+  pendingChanges: number;
+}
+
+// Mirrors Changeset in lib/changesets.ts (staged sync mode)
+interface PendingChange {
+  action: string;
+  journeyId: string;
+  stepId: string;
+  detail: string;
+  status: "pending" | "accepted" | "rejected" | "superseded";
+}
+
+interface Changeset {
+  id: string;
+  commit: string;
+  createdAt: string;
+  changes: PendingChange[];
 }
 
 // ── Constants ────────────────────────────────────────────────────────
@@ -46,6 +94,21 @@ const TYPE_LABELS: Record<string, string> = {
   system: "System",
 };
 
+const PLATFORM_LABELS: Record<string, string> = {
+  ios: "iOS",
+  android: "Android",
+};
+
+// Below this the daemon flags a new step for review (sync/merge.ts REVIEW_CONFIDENCE)
+const REVIEW_CONFIDENCE = 0.7;
+
+const ENTRY_KIND_LABELS: Record<string, string> = {
+  openURL: "URL",
+  externalEvents: "External event",
+  userActivity: "User activity",
+  appIntent: "App Intent",
+};
+
 const NODE_W = 180;
 const NODE_H = 68;
 const GAP_X = 80;
@@ -188,6 +251,31 @@ function computePhaseBounds(steps: Step[]): PhaseBound[] {
   });
 }
 
+// ── Cross-journey refs ──────────────────────────────────────────────
+// next[] names a step of another journey as "journeyId:stepId"
+function splitStepRef(ref: string, journeyId: string): { journeyId: string; stepId: string } {
+  const colon = ref.indexOf(":");
+  if (colon === -1) return { journeyId, stepId: ref };
+  return { journeyId: ref.slice(0, colon), stepId: ref.slice(colon + 1) };
+}
+
+function stepRefText(ref: string, journeyId: string, journeys: Journey[]): string {
+  const target = splitStepRef(ref, journeyId);
+  const targetJourney = journeys.find((j) => j.id === target.journeyId);
+  const targetStep = targetJourney?.steps.find((s) => s.id === target.stepId);
+  return `${targetJourney?.name ?? target.journeyId} › ${targetStep?.label ?? target.stepId}`;
+}
+
+/** Labels of the branches from step to ref, unlabelled ones left out */
+function branchLabels(step: Step, ref: string): string[] {
+  return [step.edgeLabels?.[ref] ?? []].flat().filter(Boolean);
+}
+
+/** One connector stands for every branch into a step, so it carries all their labels */
+function edgeLabelText(step: Step, ref: string): string | undefined {
+  return branchLabels(step, ref).join(" / ") || undefined;
+}
+
 // ── Edge label proximity helper ─────────────────────────────────────
 function isNearNode(
   point: { x: number; y: number },
@@ -210,6 +298,7 @@ function isNearNode(
 function StepNode({
   step,
   index,
+  isStart,
   isSelected,
   annotationCount,
   onClick,
@@ -218,6 +307,7 @@ function StepNode({
 }: {
   step: Step;
   index: number;
+  isStart: boolean;
   isSelected: boolean;
   annotationCount: number;
   onClick: () => void;
@@ -231,7 +321,7 @@ function StepNode({
         "step-node",
         `type-${step.type}`,
         isSelected ? "selected" : "",
-        index === 0 ? "step-node--start" : "",
+        isStart ? "step-node--start" : "",
         step.next.length === 0 ? "step-node--end" : "",
       ].filter(Boolean).join(" ")}
       data-type={step.type}
@@ -246,13 +336,18 @@ function StepNode({
           style={{ background: TYPE_COLORS[step.type] }}
         />
         <span className="step-type-label">{TYPE_LABELS[step.type]}</span>
+        {step.platform && (
+          <span className={`step-platform step-platform--${step.platform}`}>
+            {PLATFORM_LABELS[step.platform]}
+          </span>
+        )}
       </div>
       <div className="step-node-label">{step.label}</div>
       <div className="step-node-screen">{step.screen}</div>
       {annotationCount > 0 && (
         <span className="step-annotation-badge">{annotationCount}</span>
       )}
-      {index === 0 && <span className="step-badge step-badge--start">START</span>}
+      {isStart && <span className="step-badge step-badge--start">START</span>}
       {step.next.length === 0 && <span className="step-badge step-badge--end">END</span>}
     </div>
   );
@@ -260,21 +355,27 @@ function StepNode({
 
 function FlowCanvas({
   journey,
+  journeys,
   annotations,
   selectedStep,
   onSelectStep,
+  onJump,
   onStepMouseEnter,
   onStepMouseLeave,
 }: {
   journey: Journey;
+  journeys: Journey[];
   annotations: Annotation[];
   selectedStep: Step | null;
   onSelectStep: (step: Step) => void;
+  onJump: (journeyId: string, stepId: string) => void;
   onStepMouseEnter: (step: Step, e: React.MouseEvent<HTMLDivElement>) => void;
   onStepMouseLeave: () => void;
 }) {
   const stepIndex = new Map(journey.steps.map((s, i) => [s.id, i]));
   const size = canvasSize(journey.steps.length);
+  // Steps an outside entry point lands on start the journey; without any, the first step does
+  const hasEntryPoints = journey.steps.some((s) => (s.entryPoints?.length ?? 0) > 0);
 
   // Compute phase bounding boxes
   const phaseBounds = computePhaseBounds(journey.steps);
@@ -299,7 +400,7 @@ function FlowCanvas({
         connectors.push({
           key: `${step.id}-${nextId}`,
           d: connectorPath(fromIdx, toIdx),
-          label: step.edgeLabels?.[edgeIdx],
+          label: edgeLabelText(step, nextId),
           mid: connectorMidpoint(fromIdx, toIdx, fanOffset),
           sourceType: step.type,
           edgeIndex: edgeIdx,
@@ -309,6 +410,32 @@ function FlowCanvas({
     });
   });
 
+  // Links into other journeys: a short stub below the step, ending in a button that jumps there
+  const jumpOuts: {
+    key: string;
+    ref: string;
+    x: number;
+    /** Bottom of the step node, where the stub starts */
+    top: number;
+    y: number;
+    label?: string;
+    sourceStepId: string;
+  }[] = [];
+  journey.steps.forEach((step, fromIdx) => {
+    const pos = stepPosition(fromIdx);
+    step.next.filter((ref) => ref.includes(":")).forEach((ref, slot) => {
+      jumpOuts.push({
+        key: `${step.id}-${ref}`,
+        ref,
+        x: pos.x + NODE_W / 2,
+        top: pos.y + NODE_H,
+        y: pos.y + NODE_H + 12 + slot * 22,
+        label: edgeLabelText(step, ref),
+        sourceStepId: step.id,
+      });
+    });
+  });
+
   // Compute active connectors for selected step
   const activeConnectorKeys = new Set<string>();
   if (selectedStep) {
@@ -423,6 +550,16 @@ function FlowCanvas({
             />
           );
         })}
+        {jumpOuts.map((j) => (
+          <path
+            key={j.key}
+            d={`M${j.x},${j.top} V${j.y}`}
+            className={[
+              "connector--jump-out",
+              selectedStep ? (selectedStep.id === j.sourceStepId ? "connector-active" : "connector-inactive") : "",
+            ].filter(Boolean).join(" ")}
+          />
+        ))}
         {connectors.filter((c) => c.label).map((c) => {
           const isInactive = selectedStep && !activeConnectorKeys.has(c.key);
           const labelYOffset = isNearNode(c.mid, journey.steps.length) ? -20 : 0;
@@ -449,6 +586,7 @@ function FlowCanvas({
           key={step.id}
           step={step}
           index={i}
+          isStart={hasEntryPoints ? (step.entryPoints?.length ?? 0) > 0 : i === 0}
           isSelected={selectedStep?.id === step.id}
           annotationCount={
             annotations.filter(
@@ -460,22 +598,42 @@ function FlowCanvas({
           onMouseLeave={onStepMouseLeave}
         />
       ))}
+
+      {jumpOuts.map((j) => {
+        const target = splitStepRef(j.ref, journey.id);
+        const text = stepRefText(j.ref, journey.id, journeys);
+        return (
+          <button
+            key={`jump-${j.key}`}
+            className={`jump-out${selectedStep && selectedStep.id !== j.sourceStepId ? " jump-out--inactive" : ""}`}
+            style={{ left: j.x, top: j.y }}
+            title={`Go to ${text}`}
+            onClick={() => onJump(target.journeyId, target.stepId)}
+          >
+            {j.label ? `${j.label} ↗ ${text}` : `↗ ${text}`}
+          </button>
+        );
+      })}
     </div>
   );
 }
 
 function AnnotationPanel({
   journey,
+  journeys,
   step,
   annotations,
+  onJump,
   onSave,
   onDelete,
   onClose,
 }: {
   journey: Journey;
+  journeys: Journey[];
   step: Step;
   annotations: Annotation[];
-  onSave: (ann: Omit<Annotation, "createdAt">) => void;
+  onJump: (journeyId: string, stepId: string) => void;
+  onSave: (ann: AnnotationInput) => void;
   onDelete: (ann: Annotation) => void;
   onClose: () => void;
 }) {
@@ -527,10 +685,28 @@ function AnnotationPanel({
         </div>
         {step.swiftFile && (
           <div className="panel-field">
-            <label>Swift File</label>
+            <label>{step.platform === "android" ? "Kotlin File" : "Swift File"}</label>
             <div className="panel-field-value">{step.swiftFile}</div>
           </div>
         )}
+        {step.platform && (
+          <div className="panel-field">
+            <label>Platform</label>
+            <div className="panel-field-value">{PLATFORM_LABELS[step.platform]}</div>
+          </div>
+        )}
+        {step.entryPoints && step.entryPoints.length > 0 && (
+          <div className="panel-field">
+            <label>Entry Points</label>
+            {step.entryPoints.map((entry, i) => (
+              <div key={i} className="panel-field-value" title={entry.filePath}>
+                {ENTRY_KIND_LABELS[entry.kind] ?? entry.kind}
+                {entry.detail && ` — ${entry.detail}`}
+                {!entry.synced && " (added by hand)"}
+              </div>
+            ))}
+          </div>
+        )}
         <div className="panel-field">
           <label>Type</label>
           <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
@@ -539,7 +715,20 @@ function AnnotationPanel({
               style={{ background: TYPE_COLORS[step.type] }}
             />
             <span style={{ fontSize: 13 }}>{TYPE_LABELS[step.type]}</span>
+            {step.typeConfidence !== undefined && (
+              <span
+                className={`type-confidence${step.typeConfidence < REVIEW_CONFIDENCE ? " type-confidence--low" : ""}`}
+                title="Inferred type confidence"
+              >
+                {Math.round(step.typeConfidence * 100)}%
+              </span>
+            )}
           </div>
+          {step.typeEvidence && step.typeEvidence.length > 0 && (
+            <ul className="type-evidence">
+              {step.typeEvidence.map((e, i) => <li key={i}>{e}</li>)}
+            </ul>
+          )}
         </div>
         {step.phase && (
           <div className="panel-field">
@@ -551,12 +740,24 @@ function AnnotationPanel({
           <div className="panel-field">
             <label>Connects to</label>
             <ul className="panel-connections-list">
-              {step.next.map((nextId, i) => (
+              {step.next.map((nextId) => (
                 <li key={nextId}>
-                  <span>{nextId}</span>
-                  {step.edgeLabels?.[i] && (
-                    <span className="panel-edge-label">{step.edgeLabels[i]}</span>
+                  {nextId.includes(":") ? (
+                    <button
+                      className="panel-jump-link"
+                      onClick={() => {
+                        const target = splitStepRef(nextId, journey.id);
+                        onJump(target.journeyId, target.stepId);
+                      }}
+                    >
+                      ↗ {stepRefText(nextId, journey.id, journeys)}
+                    </button>
+                  ) : (
+                    <span>{nextId}</span>
                   )}
+                  {branchLabels(step, nextId).map((label, i) => (
+                    <span key={i} className="panel-edge-label">{label}</span>
+                  ))}
                 </li>
               ))}
             </ul>
@@ -624,8 +825,8 @@ function AnnotationPanel({
           <div className="panel-section-title">
             Annotations ({stepAnnotations.length})
           </div>
-          {stepAnnotations.map((ann, i) => (
-            <div key={i} className="annotation-item">
+          {stepAnnotations.map((ann) => (
+            <div key={ann.id} className="annotation-item">
               <div className="annotation-item-header">
                 <span className={`annotation-type-pill type-${ann.type}`}>
                   {ann.type.replace("-", " ")}
@@ -651,6 +852,170 @@ function AnnotationPanel({
   );
 }
 
+function formatTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleTimeString() : "—";
+}
+
+function DaemonPanel({
+  daemon,
+  onChange,
+  onError,
+}: {
+  daemon: DaemonState;
+  onChange: (state: DaemonState) => void;
+  onError: (message: string) => void;
+}) {
+  const [busy, setBusy] = useState(false);
+
+  const control = async (action: "sync" | "pause" | "resume" | "reset-commit") => {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/daemon/${action}`, { method: "POST" });
+      const body = await res.json().catch(() => ({}));
+      // A non-JSON reply (proxy error page, daemon gone) has no status to show
+      if (res.ok && body.status) onChange(body);
+      else onError(body.errors?.join("; ") ?? body.error ?? `Daemon ${action} failed`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const paused = daemon.status === "paused";
+
+  return (
+    <div className="daemon-panel">
+      <div className="daemon-panel-header">
+        <span className={`daemon-status daemon-status--${daemon.status}`}>
+          Auto-sync {daemon.status}
+        </span>
+      </div>
+      <dl className="daemon-panel-stats">
+        <dt>Commit</dt>
+        <dd className="daemon-panel-mono">{daemon.lastCommit?.slice(0, 7) ?? "none"}</dd>
+        <dt>Checked</dt>
+        <dd>{formatTime(daemon.lastCheck)}</dd>
+        <dt>Updated</dt>
+        <dd>{formatTime(daemon.lastUpdate)}</dd>
+        <dt>Applied</dt>
+        <dd>{daemon.updatesApplied}</dd>
+        <dt>To review</dt>
+        <dd>{daemon.pendingReview}</dd>
+        {daemon.mode === "staged" && (
+          <>
+            <dt>Proposed</dt>
+            <dd>{daemon.pendingChanges}</dd>
+          </>
+        )}
+        {daemon.consecutiveErrors > 0 && (
+          <>
+            <dt>Errors</dt>
+            <dd className="daemon-panel-errors">{daemon.consecutiveErrors}</dd>
+          </>
+        )}
+      </dl>
+      <div className="daemon-panel-actions">
+        <button
+          className="daemon-btn"
+          disabled={busy || paused}
+          onClick={() => control("sync")}
+        >
+          Sync now
+        </button>
+        <button
+          className="daemon-btn"
+          disabled={busy}
+          onClick={() => control(paused ? "resume" : "pause")}
+        >
+          {paused ? "Resume" : "Pause"}
+        </button>
+        <button
+          className="daemon-btn daemon-btn--danger"
+          disabled={busy}
+          title="Forget the last synced commit"
+          onClick={() => {
+            if (confirm("Forget the last synced commit? The next sync starts from scratch.")) {
+              control("reset-commit");
+            }
+          }}
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ChangesetPanel({
+  changesets,
+  onChange,
+  onError,
+}: {
+  changesets: Changeset[];
+  onChange: (changesets: Changeset[]) => void;
+  onError: (message: string) => void;
+}) {
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const resolve = async (changesetId: string, index: number, verdict: "accept" | "reject") => {
+    setBusyKey(`${changesetId}:${index}`);
+    try {
+      const res = await fetch(`/api/changesets/${changesetId}/changes/${index}/${verdict}`, {
+        method: "POST",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (res.ok) onChange(body.changesets);
+      else if (res.status === 409) onError("workflow-defs.json changed while applying; try again.");
+      else onError(body.errors?.join("; ") ?? `Could not ${verdict} change`);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const pending = changesets.flatMap((cs) =>
+    cs.changes
+      .map((change, index) => ({ changeset: cs, change, index }))
+      .filter(({ change }) => change.status === "pending"),
+  );
+
+  return (
+    <div className="changeset-panel">
+      <div className="changeset-panel-title">Proposed changes ({pending.length})</div>
+      {pending.length === 0 && <div className="changeset-empty">Nothing to review</div>}
+      {pending.map(({ changeset, change, index }) => {
+        const key = `${changeset.id}:${index}`;
+        return (
+          <div key={key} className="change-item">
+            <div className="change-item-header">
+              <span className={`change-action change-action--${change.action}`}>{change.action}</span>
+              <span className="change-item-target">
+                {change.journeyId} / {change.stepId}
+              </span>
+            </div>
+            <div className="change-item-detail">{change.detail}</div>
+            <div className="change-item-meta">{changeset.commit.slice(0, 7)}</div>
+            <div className="change-item-actions">
+              <button
+                className="daemon-btn"
+                disabled={busyKey === key}
+                onClick={() => resolve(changeset.id, index, "accept")}
+              >
+                Accept
+              </button>
+              <button
+                className="daemon-btn daemon-btn--danger"
+                disabled={busyKey === key}
+                onClick={() => resolve(changeset.id, index, "reject")}
+              >
+                Reject
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 // ── Main App ────────────────────────────────────────────────────────
 
 function App() {
@@ -668,6 +1033,14 @@ function App() {
   const handModeRef = useRef(false);
   const [tooltipStep, setTooltipStep] = useState<{ step: Step; x: number; y: number } | null>(null);
   const tooltipTimeout = useRef<number | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [daemonState, setDaemonState] = useState<DaemonState | null>(null);
+  const [changesets, setChangesets] = useState<Changeset[]>([]);
+  // Latest selection, read by the live-update handler without re-subscribing
+  const selectionRef = useRef<{ journeyId: string | null; stepId: string | null }>({
+    journeyId: null,
+    stepId: null,
+  });
 
   const ZOOM_MIN = 0.3;
   const ZOOM_MAX = 2.5;
@@ -718,6 +1091,64 @@ function App() {
       setAnnotations(ann.annotations || []);
       if (j.length > 0) setSelectedJourney(j[0]);
     });
+    // 404 outside daemon mode — the status line just stays hidden
+    fetch("/api/daemon/status")
+      .then((r) => (r.ok ? r.json() : null))
+      .then((s) => setDaemonState(s))
+      .catch(() => {});
+    fetch("/api/changesets")
+      .then((r) => (r.ok ? r.json() : { changesets: [] }))
+      .then((data) => setChangesets(data.changesets))
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    selectionRef.current = {
+      journeyId: selectedJourney?.id ?? null,
+      stepId: selectedStep?.id ?? null,
+    };
+  }, [selectedJourney, selectedStep]);
+
+  // Live updates: apply server-pushed changes, keeping selection and zoom
+  useEffect(() => {
+    const source = new EventSource("/api/events");
+
+    source.addEventListener("workflows", (e) => {
+      const { data } = JSON.parse((e as MessageEvent).data);
+      const next: Journey[] = data.journeys || [];
+      const { journeyId, stepId } = selectionRef.current;
+      const journey = next.find((j) => j.id === journeyId) ?? next[0] ?? null;
+      setJourneys(next);
+      setSelectedJourney(journey);
+      setSelectedStep(journey?.steps.find((s) => s.id === stepId) ?? null);
+    });
+
+    source.addEventListener("annotation-created", (e) => {
+      const { annotation } = JSON.parse((e as MessageEvent).data);
+      setAnnotations((prev) =>
+        prev.some((a) => a.id === annotation.id) ? prev : [...prev, annotation],
+      );
+    });
+
+    source.addEventListener("annotation-updated", (e) => {
+      const { annotation } = JSON.parse((e as MessageEvent).data);
+      setAnnotations((prev) => prev.map((a) => (a.id === annotation.id ? annotation : a)));
+    });
+
+    source.addEventListener("annotation-deleted", (e) => {
+      const { id } = JSON.parse((e as MessageEvent).data);
+      setAnnotations((prev) => prev.filter((a) => a.id !== id));
+    });
+
+    source.addEventListener("daemon", (e) => {
+      setDaemonState(JSON.parse((e as MessageEvent).data).state);
+    });
+
+    source.addEventListener("changesets", (e) => {
+      setChangesets(JSON.parse((e as MessageEvent).data).changesets);
+    });
+
+    return () => source.close();
   }, []);
 
   // Wheel zoom: Ctrl/Cmd + scroll
@@ -841,15 +1272,16 @@ function App() {
     };
   }, []);
 
-  // Auto-center on journey change
+  // Auto-center on journey change (on the selected step after a cross-journey jump)
   useEffect(() => {
     if (!selectedJourney || !canvasRef.current) return;
+    const stepIdx = selectedStep ? selectedJourney.steps.findIndex((s) => s.id === selectedStep.id) : -1;
     requestAnimationFrame(() => {
       if (canvasRef.current) {
-        scrollToCenter(canvasRef.current, 0, zoom);
+        scrollToCenter(canvasRef.current, Math.max(stepIdx, 0), zoom);
       }
     });
-  }, [selectedJourney]);
+  }, [selectedJourney?.id]);
 
   // Pan: middle-click drag or Space+click drag
   useEffect(() => {
@@ -899,32 +1331,46 @@ function App() {
     };
   }, []);
 
-  const saveAnnotations = useCallback(
-    async (updated: Annotation[]) => {
-      setAnnotations(updated);
-      await fetch("/api/annotations", {
+  const handleAddAnnotation = useCallback(
+    async (ann: AnnotationInput) => {
+      const res = await fetch("/api/annotations", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ annotations: updated }),
+        body: JSON.stringify(ann),
       });
+      if (res.status === 422) {
+        const { errors }: { errors: string[] } = await res.json();
+        setNotice(`Annotation not saved: ${errors.join("; ")}`);
+        return;
+      }
+      if (!res.ok) return;
+      const created: Annotation = await res.json();
+      // The live feed may have delivered it already
+      setAnnotations((prev) =>
+        prev.some((a) => a.id === created.id) ? prev : [...prev, created],
+      );
     },
     [],
   );
 
-  const handleAddAnnotation = useCallback(
-    (ann: Omit<Annotation, "createdAt">) => {
-      const full: Annotation = { ...ann, createdAt: new Date().toISOString() };
-      saveAnnotations([...annotations, full]);
-    },
-    [annotations, saveAnnotations],
-  );
-
   const handleDeleteAnnotation = useCallback(
-    (ann: Annotation) => {
-      const updated = annotations.filter((a) => a !== ann);
-      saveAnnotations(updated);
+    async (ann: Annotation) => {
+      const res = await fetch(`/api/annotations/${encodeURIComponent(ann.id)}`, {
+        method: "DELETE",
+        headers: { "If-Match": `"${ann.revision}"` },
+      });
+      if (res.status === 409) {
+        // Someone edited it since we loaded it — show their version instead
+        const { current }: { current: Annotation } = await res.json();
+        setAnnotations((prev) => prev.map((a) => (a.id === current.id ? current : a)));
+        setNotice("This annotation was edited by someone else. Review the latest version before deleting it.");
+        return;
+      }
+      // 404 means someone else already deleted it — drop it locally either way
+      if (!res.ok && res.status !== 404) return;
+      setAnnotations((prev) => prev.filter((a) => a.id !== ann.id));
     },
-    [annotations, saveAnnotations],
+    [],
   );
 
   const journeyAnnotationCount = useCallback(
@@ -951,6 +1397,17 @@ function App() {
     setTooltipStep(null);
   }, []);
 
+  // Follow a cross-journey link: open the other journey with its step selected
+  const jumpToStep = useCallback(
+    (journeyId: string, stepId: string) => {
+      const journey = journeys.find((j) => j.id === journeyId);
+      if (!journey) return;
+      setSelectedJourney(journey);
+      setSelectedStep(journey.steps.find((s) => s.id === stepId) ?? null);
+    },
+    [journeys],
+  );
+
   const panelOpen = selectedStep !== null && selectedJourney !== null;
 
   return (
@@ -989,6 +1446,12 @@ function App() {
             );
           })}
         </div>
+        {daemonState && (
+          <DaemonPanel daemon={daemonState} onChange={setDaemonState} onError={setNotice} />
+        )}
+        {daemonState?.mode === "staged" && (
+          <ChangesetPanel changesets={changesets} onChange={setChangesets} onError={setNotice} />
+        )}
         <div className="legend">
           {Object.entries(TYPE_COLORS).map(([type, color]) => (
             <span key={type} className="legend-item">
@@ -1017,11 +1480,13 @@ function App() {
             >
               <FlowCanvas
                 journey={selectedJourney}
+                journeys={journeys}
                 annotations={annotations}
                 selectedStep={selectedStep}
                 onSelectStep={(step) => {
                   if (!handModeRef.current) setSelectedStep(step);
                 }}
+                onJump={jumpToStep}
                 onStepMouseEnter={handleStepMouseEnter}
                 onStepMouseLeave={handleStepMouseLeave}
               />
@@ -1052,14 +1517,26 @@ function App() {
       {panelOpen && selectedJourney && selectedStep && (
         <AnnotationPanel
           journey={selectedJourney}
+          journeys={journeys}
           step={selectedStep}
           annotations={annotations}
+          onJump={jumpToStep}
           onSave={handleAddAnnotation}
           onDelete={handleDeleteAnnotation}
           onClose={() => setSelectedStep(null)}
         />
       )}
 
+      {/* Rejected write notice (stale revision or failed validation) */}
+      {notice && (
+        <div className="notice-banner">
+          <span>{notice}</span>
+          <button className="notice-banner-close" onClick={() => setNotice(null)}>
+            ✕
+          </button>
+        </div>
+      )}
+
       {/* Tooltip (position: fixed, renders above everything) */}
       {tooltipStep && (
         <div
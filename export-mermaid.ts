@@ -7,35 +7,12 @@
  *   bun export-mermaid.ts --json       # Output JSON { journeyId: mermaid }
  */
 
-import { join } from "path";
-
-const DIR = import.meta.dir;
-const WORKFLOWS_PATH = join(DIR, "workflow-defs.json");
-const ANNOTATIONS_PATH = join(DIR, "annotations.json");
-
-interface Step {
-  id: string;
-  label: string;
-  screen: string;
-  swiftFile: string | null;
-  type: "action" | "display" | "decision" | "input" | "system";
-  next: string[];
-  edgeLabels?: string[];
-}
-
-interface Journey {
-  id: string;
-  name: string;
-  description: string;
-  group: string;
-  steps: Step[];
-}
+import type { Journey, WorkflowDefs } from "./sync/merge";
+import { migrateWorkflowDefs } from "./sync/migrate";
+import { dataPath } from "./lib/store";
 
-interface WorkflowDefs {
-  version: string;
-  generatedAt: string;
-  journeys: Journey[];
-}
+const WORKFLOWS_PATH = dataPath("workflow-defs.json");
+const ANNOTATIONS_PATH = dataPath("annotations.json");
 
 interface Annotation {
   stepId: string;
@@ -87,9 +64,23 @@ function styleClass(type: string): string {
   }
 }
 
+// Node for a step of another journey ("journeyId:stepId" in next[]): a flag
+// shape named after that journey, reached by a dotted edge
+function externalNode(ref: string, journeys: Journey[]): { id: string; shape: string } {
+  const colon = ref.indexOf(":");
+  const journeyId = ref.slice(0, colon);
+  const stepId = ref.slice(colon + 1);
+  const journey = journeys.find((j) => j.id === journeyId);
+  const step = journey?.steps.find((s) => s.id === stepId);
+  const id = `${journeyId}__${stepId}`;
+  const text = `${journey?.name ?? journeyId}: ${step?.label ?? stepId}`.replace(/"/g, "'");
+  return { id, shape: `${id}>"${text}"]` };
+}
+
 function journeyToMermaid(
   journey: Journey,
-  annotations: Annotation[]
+  annotations: Annotation[],
+  journeys: Journey[] = [journey]
 ): string {
   const lines: string[] = [];
   lines.push(`flowchart LR`);
@@ -111,18 +102,31 @@ function journeyToMermaid(
   for (const step of journey.steps) {
     lines.push(`    ${nodeShape(step.id, step.label, step.type)}`);
   }
+  const external = new Map<string, { id: string; shape: string }>();
+  for (const step of journey.steps) {
+    for (const nextId of step.next) {
+      if (nextId.includes(":") && !external.has(nextId)) external.set(nextId, externalNode(nextId, journeys));
+    }
+  }
+  for (const node of external.values()) {
+    lines.push(`    ${node.shape}`);
+  }
 
   lines.push("");
 
-  // Edges (with optional labels)
+  // Edges (with optional labels), one per branch; dotted into other journeys
   for (const step of journey.steps) {
-    step.next.forEach((nextId, i) => {
-      const label = step.edgeLabels?.[i];
-      if (label) {
-        const escaped = label.replace(/"/g, "'");
-        lines.push(`    ${step.id} -->|"${escaped}"| ${nextId}`);
-      } else {
-        lines.push(`    ${step.id} --> ${nextId}`);
+    step.next.forEach((nextId) => {
+      const target = external.get(nextId)?.id ?? nextId;
+      const arrow = external.has(nextId) ? "-.->" : "-->";
+      const labels = [step.edgeLabels?.[nextId] ?? ""].flat();
+      for (const label of labels) {
+        if (label) {
+          const escaped = label.replace(/"/g, "'");
+          lines.push(`    ${step.id} ${arrow}|"${escaped}"| ${target}`);
+        } else {
+          lines.push(`    ${step.id} ${arrow} ${target}`);
+        }
       }
     });
   }
@@ -143,6 +147,9 @@ function journeyToMermaid(
   lines.push(
     `    classDef flaggedNode stroke:#ff3b30,stroke-width:3px`
   );
+  lines.push(
+    `    classDef externalNode fill:#fff,color:#3a3a3c,stroke:#8e8e93,stroke-dasharray:3`
+  );
 
   // Apply type classes
   for (const step of journey.steps) {
@@ -152,6 +159,10 @@ function journeyToMermaid(
     }
   }
 
+  for (const node of external.values()) {
+    lines.push(`    class ${node.id} externalNode`);
+  }
+
   // Apply annotation styles (override type styles with border indicators)
   for (const stepId of bugSteps) {
     lines.push(`    class ${stepId} flaggedNode`);
@@ -176,7 +187,8 @@ async function main() {
     process.exit(1);
   }
 
-  const workflows: WorkflowDefs = await workflowsFile.json();
+  // Older files have positional edgeLabels; migrate them as the daemon and editor do
+  const workflows: WorkflowDefs = migrateWorkflowDefs(await workflowsFile.json()).json;
   const annotationsData: AnnotationsData = (await annotationsFile.exists())
     ? await annotationsFile.json()
     : { annotations: [] };
@@ -194,7 +206,7 @@ async function main() {
       );
       process.exit(1);
     }
-    const mermaid = journeyToMermaid(journey, annotationsData.annotations);
+    const mermaid = journeyToMermaid(journey, annotationsData.annotations, workflows.journeys);
     console.log(mermaid);
     return;
   }
@@ -204,7 +216,8 @@ async function main() {
     for (const journey of workflows.journeys) {
       result[journey.id] = journeyToMermaid(
         journey,
-        annotationsData.annotations
+        annotationsData.annotations,
+        workflows.journeys
       );
     }
     console.log(JSON.stringify(result, null, 2));
@@ -214,7 +227,7 @@ async function main() {
   // Default: print all journeys
   for (const journey of workflows.journeys) {
     console.log(`\n=== ${journey.name} ===\n`);
-    console.log(journeyToMermaid(journey, annotationsData.annotations));
+    console.log(journeyToMermaid(journey, annotationsData.annotations, workflows.journeys));
   }
 }
 
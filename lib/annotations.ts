@@ -0,0 +1,181 @@
+/**
+ * lib/annotations.ts — annotations.json store with server-assigned IDs.
+ *
+ * Every mutation re-reads the file and writes it back inside a per-process
+ * queue, so two editors only ever touch the annotations they name instead of
+ * overwriting each other's whole list. Each annotation's revision is a hash of
+ * its contents, served with it; PATCH/DELETE callers may pass it back to detect
+ * concurrent edits.
+ */
+
+import { ConflictError, dataPath, readDoc, revisionOf, withLock, writeDocUnlocked } from "./store";
+
+const annotationsPath = () => dataPath("annotations.json");
+
+export interface Annotation {
+  id: string;
+  stepId: string;
+  journeyId: string;
+  type: "note" | "change-request" | "bug" | "question";
+  text: string;
+  priority: "suggestion" | "required" | "blocker";
+  createdAt: string;
+  updatedAt?: string;
+  /** Hash of the fields above, not stored; send it back as If-Match */
+  revision: string;
+}
+
+export type AnnotationInput = Pick<Annotation, "stepId" | "journeyId" | "type" | "text" | "priority">;
+export type AnnotationPatch = Partial<Pick<Annotation, "type" | "text" | "priority">>;
+
+export const ANNOTATION_TYPES: readonly Annotation["type"][] = ["note", "change-request", "bug", "question"];
+export const ANNOTATION_PRIORITIES: readonly Annotation["priority"][] = ["suggestion", "required", "blocker"];
+
+/** The fields written to annotations.json */
+type StoredAnnotation = Omit<Annotation, "revision">;
+
+function annotationRevision(annotation: StoredAnnotation): string {
+  const { id, stepId, journeyId, type, text, priority, createdAt, updatedAt } = annotation;
+  return revisionOf(JSON.stringify([id, stepId, journeyId, type, text, priority, createdAt, updatedAt ?? null]));
+}
+
+function withRevision(annotation: StoredAnnotation): Annotation {
+  return { ...annotation, revision: annotationRevision(annotation) };
+}
+
+// ── Body validation ───────────────────────────────────────────────
+
+/** Errors for a POST body; empty when it is a valid AnnotationInput */
+export function validateAnnotationInput(body: unknown): string[] {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return ["Body must be a JSON object"];
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const field of ["stepId", "journeyId"]) {
+    if (typeof input[field] !== "string" || !input[field]) errors.push(`${field}: required string`);
+  }
+  if (typeof input.text !== "string" || !input.text.trim()) errors.push("text: required non-empty string");
+  if (!ANNOTATION_TYPES.includes(input.type as Annotation["type"])) {
+    errors.push(`type: must be one of ${ANNOTATION_TYPES.join(", ")}`);
+  }
+  if (!ANNOTATION_PRIORITIES.includes(input.priority as Annotation["priority"])) {
+    errors.push(`priority: must be one of ${ANNOTATION_PRIORITIES.join(", ")}`);
+  }
+  return errors;
+}
+
+/** Errors for a PATCH body; only type, text and priority may change */
+export function validateAnnotationPatch(body: unknown): string[] {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return ["Body must be a JSON object"];
+  }
+  const patch = body as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const field of Object.keys(patch)) {
+    if (!["type", "text", "priority"].includes(field)) errors.push(`${field}: cannot be changed`);
+  }
+  if ("text" in patch && (typeof patch.text !== "string" || !patch.text.trim())) {
+    errors.push("text: must be a non-empty string");
+  }
+  if ("type" in patch && !ANNOTATION_TYPES.includes(patch.type as Annotation["type"])) {
+    errors.push(`type: must be one of ${ANNOTATION_TYPES.join(", ")}`);
+  }
+  if ("priority" in patch && !ANNOTATION_PRIORITIES.includes(patch.priority as Annotation["priority"])) {
+    errors.push(`priority: must be one of ${ANNOTATION_PRIORITIES.join(", ")}`);
+  }
+  return errors;
+}
+
+// ── File access ───────────────────────────────────────────────────
+
+async function load(): Promise<{ annotations: StoredAnnotation[]; revision: string; backfilled: boolean }> {
+  const doc = await readDoc<{ annotations?: (Omit<StoredAnnotation, "id"> & { id?: string })[] }>(annotationsPath(), {});
+  let backfilled = false;
+  const annotations: StoredAnnotation[] = (doc.data.annotations ?? []).map((a) => {
+    if (a.id) return a as StoredAnnotation;
+    // Annotations written before IDs existed get one on first read
+    backfilled = true;
+    return { id: crypto.randomUUID(), ...a };
+  });
+  return { annotations, revision: doc.revision, backfilled };
+}
+
+function save(annotations: StoredAnnotation[]): Promise<string> {
+  return writeDocUnlocked(annotationsPath(), { annotations });
+}
+
+/** Throws ConflictError if the caller's revision is stale */
+function checkRevision(annotation: StoredAnnotation, expectedRevision: string | null) {
+  const current = withRevision(annotation);
+  if (expectedRevision !== null && expectedRevision !== current.revision) {
+    throw new ConflictError(current.revision, current);
+  }
+}
+
+// ── Public API ───────────────────────────────────────────────────
+
+export function listAnnotations(): Promise<{ annotations: Annotation[]; revision: string }> {
+  return withLock(annotationsPath(), async () => {
+    const { annotations, revision, backfilled } = await load();
+    return {
+      annotations: annotations.map(withRevision),
+      revision: backfilled ? await save(annotations) : revision,
+    };
+  });
+}
+
+export function createAnnotation(input: AnnotationInput): Promise<Annotation> {
+  return withLock(annotationsPath(), async () => {
+    const { annotations } = await load();
+    const annotation: StoredAnnotation = {
+      id: crypto.randomUUID(),
+      stepId: input.stepId,
+      journeyId: input.journeyId,
+      type: input.type,
+      text: input.text,
+      priority: input.priority,
+      createdAt: new Date().toISOString(),
+    };
+    annotations.push(annotation);
+    await save(annotations);
+    return withRevision(annotation);
+  });
+}
+
+/** Returns the updated annotation, or null if no annotation has this ID */
+export function updateAnnotation(
+  id: string,
+  patch: AnnotationPatch,
+  expectedRevision: string | null = null,
+): Promise<Annotation | null> {
+  return withLock(annotationsPath(), async () => {
+    const { annotations } = await load();
+    const index = annotations.findIndex((a) => a.id === id);
+    if (index === -1) return null;
+    checkRevision(annotations[index]!, expectedRevision);
+
+    const updated: StoredAnnotation = {
+      ...annotations[index]!,
+      ...(patch.type !== undefined && { type: patch.type }),
+      ...(patch.text !== undefined && { text: patch.text }),
+      ...(patch.priority !== undefined && { priority: patch.priority }),
+      updatedAt: new Date().toISOString(),
+    };
+    annotations[index] = updated;
+    await save(annotations);
+    return withRevision(updated);
+  });
+}
+
+/** Returns false if no annotation has this ID */
+export function deleteAnnotation(id: string, expectedRevision: string | null = null): Promise<boolean> {
+  return withLock(annotationsPath(), async () => {
+    const { annotations } = await load();
+    const existing = annotations.find((a) => a.id === id);
+    if (!existing) return false;
+    checkRevision(existing, expectedRevision);
+    await save(annotations.filter((a) => a.id !== id));
+    return true;
+  });
+}
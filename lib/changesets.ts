@@ -0,0 +1,112 @@
+/**
+ * lib/changesets.ts — Approval queue for staged sync (sync/pending.json).
+ *
+ * In staged mode the daemon stores each cycle's ChangeRecords here instead of
+ * writing workflow-defs.json. Each cycle is merged on top of the changes still
+ * pending, and queuing it folds it into them (see rebaseChanges), so a later
+ * commit's edges aren't lost to or undone by an older change. Reviewers
+ * resolve changes one at a time: accepting one also accepts the queued adds
+ * of the steps it touches or links to, and rejecting an add rejects the
+ * changes that need it. A changeset is dropped once none of its changes are
+ * pending.
+ */
+
+import { changeDependencies, dependentChanges, rebaseChanges } from "../sync/merge";
+import type { ChangeRecord } from "../sync/merge";
+import { dataPath, readDoc, withLock, writeDocUnlocked } from "./store";
+
+const pendingPath = () => dataPath("sync", "pending.json");
+
+/** superseded: a newer cycle's change replaced it before anyone resolved it */
+export type ChangeStatus = "pending" | "accepted" | "rejected" | "superseded";
+
+export interface PendingChange extends ChangeRecord {
+  status: ChangeStatus;
+}
+
+export interface Changeset {
+  id: string;
+  commit: string;
+  createdAt: string;
+  changes: PendingChange[];
+}
+
+// ── File access ───────────────────────────────────────────────────
+
+async function load(): Promise<Changeset[]> {
+  const doc = await readDoc<{ changesets?: Changeset[] }>(pendingPath(), {});
+  return doc.data.changesets ?? [];
+}
+
+async function save(changesets: Changeset[]) {
+  const open = changesets.filter((cs) => cs.changes.some((c) => c.status === "pending"));
+  await writeDocUnlocked(pendingPath(), { changesets: open });
+  return open;
+}
+
+// ── Public API ───────────────────────────────────────────────────
+
+export function listChangesets(): Promise<Changeset[]> {
+  return withLock(pendingPath(), load);
+}
+
+export function pendingChangeCount(changesets: Changeset[]): number {
+  return changesets.reduce(
+    (n, cs) => n + cs.changes.filter((c) => c.status === "pending").length,
+    0,
+  );
+}
+
+/** The changes still waiting for review, oldest first */
+export function pendingChanges(changesets: Changeset[]): PendingChange[] {
+  return changesets.flatMap((cs) => cs.changes.filter((c) => c.status === "pending"));
+}
+
+/**
+ * Queue a cycle's changes, merged on top of pendingChanges(), folding them
+ * into the pending ones; returns the updated queue
+ */
+export function addChangeset(commit: string, changes: ChangeRecord[]): Promise<Changeset[]> {
+  return withLock(pendingPath(), async () => {
+    const changesets = await load();
+    const rebased = rebaseChanges(pendingChanges(changesets), changes);
+    for (const change of rebased.superseded) (change as PendingChange).status = "superseded";
+    if (rebased.changes.length > 0) {
+      changesets.push({
+        id: crypto.randomUUID(),
+        commit,
+        createdAt: new Date().toISOString(),
+        changes: rebased.changes.map((c) => ({ ...c, status: "pending" })),
+      });
+    }
+    return save(changesets);
+  });
+}
+
+/**
+ * Resolve one pending change, with the pending changes it goes with: when
+ * accepting, the adds it depends on (first, in queue order); when rejecting,
+ * the changes that depend on it. `apply` gets them all and runs inside the
+ * queue lock before the statuses are recorded, so a failed write leaves them
+ * pending. Returns null if the change doesn't exist or was already resolved.
+ */
+export function resolveChange(
+  changesetId: string,
+  index: number,
+  status: "accepted" | "rejected",
+  apply: (changes: PendingChange[]) => Promise<void> = async () => {},
+): Promise<Changeset[] | null> {
+  return withLock(pendingPath(), async () => {
+    const changesets = await load();
+    const change = changesets.find((cs) => cs.id === changesetId)?.changes[index];
+    if (!change || change.status !== "pending") return null;
+
+    const pending = pendingChanges(changesets);
+    const resolved = status === "accepted"
+      ? [...changeDependencies(change, pending), change]
+      : [change, ...dependentChanges(change, pending)];
+    await apply(resolved);
+    for (const c of resolved) c.status = status;
+    return save(changesets);
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * lib/events.ts — In-process event bus, streamed to editors as Server-Sent Events.
+ *
+ * Writers call publish() after a change lands on disk; every open editor tab
+ * holding GET /api/events receives it as `event: <type>` with a JSON payload.
+ */
+
+import type { Annotation } from "./annotations";
+import type { Changeset } from "./changesets";
+
+export type ServerEvent =
+  | { type: "workflows"; revision: string; data: unknown }
+  | { type: "annotation-created"; annotation: Annotation }
+  | { type: "annotation-updated"; annotation: Annotation }
+  | { type: "annotation-deleted"; id: string }
+  | { type: "daemon"; state: unknown }
+  | { type: "changesets"; changesets: Changeset[] };
+
+const HEARTBEAT_MS = 15_000;
+
+type Subscriber = (chunk: string) => void;
+const subscribers = new Set<Subscriber>();
+
+function encode(event: ServerEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+export function publish(event: ServerEvent) {
+  const chunk = encode(event);
+  for (const send of subscribers) send(chunk);
+}
+
+/** Long-lived text/event-stream response; unsubscribes when the client disconnects */
+export function eventStream(req: Request): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send: Subscriber = (chunk) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      // Comment lines keep proxies and the idle timer from closing the stream
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+      cleanup = () => {
+        clearInterval(heartbeat);
+        subscribers.delete(send);
+      };
+
+      subscribers.add(send);
+      send(": connected\n\n");
+      req.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
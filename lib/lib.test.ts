@@ -0,0 +1,398 @@
+/**
+ * lib/lib.test.ts — Tests for store, annotations, changesets, events and the HTTP routes.
+ *
+ * The stores read WOVIZ_DATA_DIR on every call, so pointing it at a temp dir
+ * keeps the tests away from the repo's annotations.json and workflow-defs.json.
+ */
+
+import { test, expect, describe, beforeAll, afterAll } from "bun:test";
+import { join } from "path";
+import { tmpdir } from "node:os";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { ConflictError, etag, readDoc, withLock, writeDoc } from "./store";
+import { createAnnotation, deleteAnnotation, listAnnotations, updateAnnotation } from "./annotations";
+import { addChangeset, listChangesets, pendingChangeCount, pendingChanges, resolveChange } from "./changesets";
+import { eventStream, publish } from "./events";
+import { buildRoutes } from "./routes";
+import type { ChangeRecord, Step } from "../sync/merge";
+
+const DATA_DIR = mkdtempSync(join(tmpdir(), "woviz-lib-test-"));
+process.env.WOVIZ_DATA_DIR = DATA_DIR;
+
+afterAll(() => {
+  rmSync(DATA_DIR, { recursive: true, force: true });
+});
+
+function writeAnnotationsFile(annotations: object[]) {
+  writeFileSync(join(DATA_DIR, "annotations.json"), JSON.stringify({ annotations }, null, 2));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ══════════════════════════════════════════════════════════════════════════
+// store.ts
+// ══════════════════════════════════════════════════════════════════════════
+
+describe("store.ts — withLock", () => {
+  test("runs operations on the same path one at a time, in order", async () => {
+    const log: string[] = [];
+    const op = (name: string, ms: number) => async () => {
+      log.push(`${name} start`);
+      await sleep(ms);
+      log.push(`${name} end`);
+      return name;
+    };
+    const results = await Promise.all([
+      withLock("lock-test", op("a", 20)),
+      withLock("lock-test", op("b", 0)),
+      withLock("lock-test", op("c", 5)),
+    ]);
+    expect(results).toEqual(["a", "b", "c"]);
+    expect(log).toEqual(["a start", "a end", "b start", "b end", "c start", "c end"]);
+  });
+
+  test("a failed operation doesn't block the ones queued after it", async () => {
+    const failed = withLock("lock-test-fail", async () => {
+      throw new Error("boom");
+    });
+    const next = withLock("lock-test-fail", async () => "ran");
+    await expect(failed).rejects.toThrow("boom");
+    expect(await next).toBe("ran");
+  });
+
+  test("operations on different paths don't wait for each other", async () => {
+    const log: string[] = [];
+    await Promise.all([
+      withLock("lock-test-x", async () => { await sleep(20); log.push("x"); }),
+      withLock("lock-test-y", async () => { log.push("y"); }),
+    ]);
+    expect(log).toEqual(["y", "x"]);
+  });
+});
+
+describe("store.ts — revisions", () => {
+  const DOC_PATH = join(DATA_DIR, "store.json");
+
+  test("a write with a stale revision is rejected with the current version", async () => {
+    const first = await writeDoc(DOC_PATH, { n: 1 });
+    const second = await writeDoc(DOC_PATH, { n: 2 }, first);
+    expect(second).not.toBe(first);
+
+    const stale = writeDoc(DOC_PATH, { n: 3 }, first);
+    await expect(stale).rejects.toBeInstanceOf(ConflictError);
+    await stale.catch((err: ConflictError) => {
+      expect(err.revision).toBe(second);
+      expect(err.current).toEqual({ n: 2 });
+    });
+    expect((await readDoc<unknown>(DOC_PATH, null)).data).toEqual({ n: 2 });
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════════════
+// annotations.ts
+// ══════════════════════════════════════════════════════════════════════════
+
+describe("annotations.ts", () => {
+  const note = { stepId: "s1", journeyId: "j1", type: "note", text: "Hi", priority: "suggestion", createdAt: "2026-01-01T00:00:00.000Z" };
+
+  test("annotations written before IDs existed get one, saved on first read", async () => {
+    writeAnnotationsFile([note, { ...note, id: "kept", text: "Has one" }]);
+    const { annotations } = await listAnnotations();
+    expect(annotations).toHaveLength(2);
+    expect(annotations[0]!.id).toBeString();
+    expect(annotations[1]!.id).toBe("kept");
+
+    // The same ID comes back on the next read
+    const again = await listAnnotations();
+    expect(again.annotations[0]!.id).toBe(annotations[0]!.id);
+  });
+
+  test("each annotation has its own revision", async () => {
+    writeAnnotationsFile([]);
+    const a = await createAnnotation({ stepId: "s1", journeyId: "j1", type: "note", text: "A", priority: "suggestion" });
+    const b = await createAnnotation({ stepId: "s2", journeyId: "j1", type: "bug", text: "B", priority: "required" });
+
+    // Editing A leaves B's revision valid
+    const updated = await updateAnnotation(a.id, { text: "A2" }, a.revision);
+    expect(updated).toMatchObject({ id: a.id, text: "A2" });
+    expect(updated!.revision).not.toBe(a.revision);
+    expect(await updateAnnotation(b.id, { priority: "blocker" }, b.revision)).toMatchObject({ priority: "blocker" });
+
+    // A's old revision is now stale
+    await expect(updateAnnotation(a.id, { text: "A3" }, a.revision)).rejects.toBeInstanceOf(ConflictError);
+    expect(await updateAnnotation("missing", { text: "x" })).toBeNull();
+  });
+
+  test("the revisions in the list are the ones writes check, and aren't stored", async () => {
+    writeAnnotationsFile([]);
+    const created = await createAnnotation({ stepId: "s1", journeyId: "j1", type: "note", text: "A", priority: "suggestion" });
+    const { annotations: [listed] } = await listAnnotations();
+    expect(listed!.revision).toBe(created.revision);
+    expect((await readDoc<{ annotations: object[] }>(join(DATA_DIR, "annotations.json"), { annotations: [] })).data.annotations[0])
+      .not.toHaveProperty("revision");
+
+    // Two writes racing from the same revision: the second is a conflict, even within one millisecond
+    const [first, second] = await Promise.allSettled([
+      updateAnnotation(created.id, { text: "B" }, listed!.revision),
+      deleteAnnotation(created.id, listed!.revision),
+    ]);
+    expect(first.status).toBe("fulfilled");
+    expect(second.status).toBe("rejected");
+    expect((second as PromiseRejectedResult).reason).toBeInstanceOf(ConflictError);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════════════
+// changesets.ts
+// ══════════════════════════════════════════════════════════════════════════
+
+describe("changesets.ts", () => {
+  const changes: ChangeRecord[] = [
+    { action: "add", journeyId: "j", stepId: "a", detail: "Added A", patch: { op: "set-fields", fields: {} } },
+    { action: "deprecate", journeyId: "j", stepId: "b", detail: "Deprecated B", patch: { op: "set-fields", fields: { deprecated: true } } },
+  ];
+
+  test("changes go from pending to accepted or rejected, once", async () => {
+    rmSync(join(DATA_DIR, "sync", "pending.json"), { force: true });
+    const [changeset] = await addChangeset("abc1234", changes);
+    expect(changeset!.changes.map((c) => c.status)).toEqual(["pending", "pending"]);
+    expect(existsSync(join(DATA_DIR, "sync", "pending.json"))).toBe(true);
+
+    const afterAccept = await resolveChange(changeset!.id, 0, "accepted");
+    expect(afterAccept![0]!.changes.map((c) => c.status)).toEqual(["accepted", "pending"]);
+    expect(pendingChangeCount(afterAccept!)).toBe(1);
+
+    // Already resolved, or no such change
+    expect(await resolveChange(changeset!.id, 0, "rejected")).toBeNull();
+    expect(await resolveChange(changeset!.id, 5, "accepted")).toBeNull();
+    expect(await resolveChange("missing", 1, "accepted")).toBeNull();
+
+    // The changeset is dropped once nothing in it is pending
+    expect(await resolveChange(changeset!.id, 1, "rejected")).toEqual([]);
+    expect(await listChangesets()).toEqual([]);
+  });
+
+  test("a change whose apply step fails stays pending", async () => {
+    rmSync(join(DATA_DIR, "sync", "pending.json"), { force: true });
+    const [changeset] = await addChangeset("abc1234", changes);
+    const failing = resolveChange(changeset!.id, 0, "accepted", async () => {
+      throw new ConflictError("rev", null);
+    });
+    await expect(failing).rejects.toBeInstanceOf(ConflictError);
+
+    const [stored] = await listChangesets();
+    expect(stored!.changes[0]!.status).toBe("pending");
+  });
+
+  test("a newer cycle's change to the same fields supersedes the pending one", async () => {
+    rmSync(join(DATA_DIR, "sync", "pending.json"), { force: true });
+    const edges = (next: string[]): ChangeRecord => ({
+      action: "update-edges", journeyId: "j", stepId: "a", detail: `next ${next}`,
+      patch: { op: "set-fields", fields: { next, _synced: { next } } },
+    });
+    await addChangeset("1111111", [edges(["b"]), changes[1]!]);
+    const changesets = await addChangeset("2222222", [edges(["c"])]);
+
+    expect(changesets.map((cs) => cs.commit)).toEqual(["1111111", "2222222"]);
+    expect(changesets[0]!.changes.map((c) => c.status)).toEqual(["superseded", "pending"]);
+    expect(pendingChanges(changesets).map((c) => c.detail)).toEqual(["Deprecated B", "next c"]);
+  });
+
+  test("a change to a step whose add is pending goes into the add", async () => {
+    rmSync(join(DATA_DIR, "sync", "pending.json"), { force: true });
+    const step: Step = { id: "a", label: "A", screen: "AView", swiftFile: "A.swift", type: "display", phase: "Unassigned", next: [] };
+    await addChangeset("1111111", [{
+      action: "add", journeyId: "j", stepId: "a", detail: "Added AView from A.swift (journey by rule \"j\")", patch: { op: "add-step", step },
+    }]);
+    const changesets = await addChangeset("2222222", [{
+      action: "entry-points", journeyId: "j", stepId: "a", detail: "Entry points: openURL",
+      patch: { op: "set-fields", fields: { entryPoints: [{ kind: "openURL", filePath: "App.swift" }] } },
+    }]);
+
+    expect(changesets).toHaveLength(1);
+    expect(pendingChanges(changesets)[0]!.patch).toEqual({
+      op: "add-step",
+      step: { ...step, entryPoints: [{ kind: "openURL", filePath: "App.swift" }] },
+    });
+    // The detail says what the add now does
+    expect(pendingChanges(changesets)[0]!.detail).toBe('Added AView from A.swift as "A" (journey by rule "j"); entry points: openURL');
+  });
+
+  test("a change that loses fields to a newer one is described by what it has left", async () => {
+    rmSync(join(DATA_DIR, "sync", "pending.json"), { force: true });
+    await addChangeset("1111111", [{
+      action: "rename", journeyId: "j", stepId: "a", detail: "Moved A.swift → B.swift (screen renamed to BView)",
+      patch: { op: "set-fields", fields: { swiftFile: "B.swift", screen: "BView" } },
+    }]);
+    const changesets = await addChangeset("2222222", [{
+      action: "rename", journeyId: "j", stepId: "a", detail: "Moved B.swift → C.swift",
+      patch: { op: "set-fields", fields: { swiftFile: "C.swift" } },
+    }]);
+    expect(pendingChanges(changesets).map((c) => c.detail)).toEqual(["Screen renamed to BView", "Moved B.swift → C.swift"]);
+  });
+
+  describe("changes that need a pending add", () => {
+    const step = (id: string, next: string[] = []): Step =>
+      ({ id, label: id, screen: `${id}View`, swiftFile: `${id}.swift`, type: "display", phase: "Unassigned", next });
+    const add = (id: string, next: string[] = []): ChangeRecord =>
+      ({ action: "add", journeyId: "j", stepId: id, detail: `Added ${id}`, patch: { op: "add-step", step: step(id, next) } });
+    // An edge from existing step x to new step b, and one from journey k to b
+    const edge: ChangeRecord = {
+      action: "update-edges", journeyId: "j", stepId: "x", detail: "next [b]",
+      patch: { op: "set-fields", fields: { next: ["b"], _synced: { next: ["b"] } } },
+    };
+    const crossEdge: ChangeRecord = {
+      action: "update-edges", journeyId: "k", stepId: "y", detail: "next [j:b]",
+      patch: { op: "set-fields", fields: { next: ["j:b"], _synced: { next: ["j:b"] } } },
+    };
+    const entry: ChangeRecord = {
+      action: "entry-points", journeyId: "j", stepId: "c", detail: "Entry points: openURL",
+      patch: { op: "set-fields", fields: { entryPoints: [{ kind: "openURL", filePath: "App.swift", synced: true }] } },
+    };
+
+    test("accepting one also accepts the adds it needs, applying them first", async () => {
+      rmSync(join(DATA_DIR, "sync", "pending.json"), { force: true });
+      // c links to b, so accepting c's entry points needs both adds
+      const [changeset] = await addChangeset("1111111", [add("a"), add("b"), add("c", ["b"]), entry]);
+      let applied: string[] = [];
+      const changesets = await resolveChange(changeset!.id, 3, "accepted", async (resolved) => {
+        applied = resolved.map((c) => `${c.action} ${c.stepId}`);
+      });
+      expect(applied).toEqual(["add b", "add c", "entry-points c"]);
+      expect(changesets![0]!.changes.map((c) => c.status)).toEqual(["pending", "accepted", "accepted", "accepted"]);
+    });
+
+    test("rejecting an add rejects the changes that need it", async () => {
+      rmSync(join(DATA_DIR, "sync", "pending.json"), { force: true });
+      const [changeset] = await addChangeset("1111111", [add("a"), add("b"), edge, crossEdge, add("c", ["b"]), entry]);
+      const changesets = await resolveChange(changeset!.id, 1, "rejected");
+      expect(changesets![0]!.changes.map((c) => `${c.stepId} ${c.status}`)).toEqual([
+        "a pending", "b rejected", "x rejected", "y rejected", "c rejected", "c rejected",
+      ]);
+    });
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════════════
+// events.ts
+// ══════════════════════════════════════════════════════════════════════════
+
+describe("events.ts", () => {
+  test("published events reach open streams as SSE", async () => {
+    const abort = new AbortController();
+    const res = eventStream(new Request("http://localhost/api/events", { signal: abort.signal }));
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    expect(decoder.decode((await reader.read()).value)).toBe(": connected\n\n");
+
+    publish({ type: "annotation-deleted", id: "a1" });
+    expect(decoder.decode((await reader.read()).value)).toBe(
+      `event: annotation-deleted\ndata: ${JSON.stringify({ type: "annotation-deleted", id: "a1" })}\n\n`,
+    );
+
+    abort.abort();
+    expect((await reader.read()).done).toBe(true);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════════════
+// routes.ts
+// ══════════════════════════════════════════════════════════════════════════
+
+describe("routes.ts — buildRoutes", () => {
+  const ok = () => Response.json({ ok: true });
+
+  test("mounts plugin routes next to the core API", () => {
+    const routes = buildRoutes([{ name: "daemon", routes: { "/api/daemon/status": { GET: ok } } }]);
+    expect(routes["/api/daemon/status"]?.GET).toBe(ok);
+    expect(routes["/api/workflows"]?.PUT).toBeFunction();
+  });
+
+  test("rejects a path that is already registered", () => {
+    expect(() => buildRoutes([{ name: "rogue", routes: { "/api/workflows": { GET: ok } } }]))
+      .toThrow('Route /api/workflows from plugin "rogue" is already registered');
+    expect(() => buildRoutes([
+      { name: "first", routes: { "/api/x": { GET: ok } } },
+      { name: "second", routes: { "/api/x": { POST: ok } } },
+    ])).toThrow('Route /api/x from plugin "second" is already registered');
+  });
+});
+
+describe("routes.ts — HTTP API", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  const url = (path: string) => new URL(path, server.url).href;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      routes: buildRoutes(),
+      fetch: () => new Response("Not Found", { status: 404 }),
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("PUT /api/workflows without If-Match is 428", async () => {
+    const res = await fetch(url("/api/workflows"), { method: "PUT", body: JSON.stringify({ journeys: [] }) });
+    expect(res.status).toBe(428);
+  });
+
+  test("PUT /api/workflows against a stale revision is 409 with the current one", async () => {
+    const current = await fetch(url("/api/workflows"));
+    const res = await fetch(url("/api/workflows"), {
+      method: "PUT",
+      headers: { "If-Match": '"stale"' },
+      body: JSON.stringify({ journeys: [] }),
+    });
+    expect(res.status).toBe(409);
+    expect(res.headers.get("ETag")).toBe(current.headers.get("ETag"));
+    expect((await res.json()).error).toBe("conflict");
+  });
+
+  test("PUT /api/workflows with an invalid body is 422", async () => {
+    const current = await fetch(url("/api/workflows"));
+    const res = await fetch(url("/api/workflows"), {
+      method: "PUT",
+      headers: { "If-Match": current.headers.get("ETag")! },
+      body: JSON.stringify({ journeys: "nope" }),
+    });
+    expect(res.status).toBe(422);
+    expect(await res.json()).toEqual({ error: "validation", errors: ["Missing or invalid journeys array"] });
+  });
+
+  test("annotation routes: 422 for bad bodies, 404 for unknown IDs, 409 for stale revisions", async () => {
+    writeAnnotationsFile([]);
+    const bad = await fetch(url("/api/annotations"), { method: "POST", body: JSON.stringify({ text: "" }) });
+    expect(bad.status).toBe(422);
+
+    const created = await fetch(url("/api/annotations"), {
+      method: "POST",
+      body: JSON.stringify({ stepId: "s1", journeyId: "j1", type: "note", text: "Hi", priority: "suggestion" }),
+    });
+    expect(created.status).toBe(201);
+    const { id } = await created.json();
+
+    expect((await fetch(url("/api/annotations/missing"), { method: "PATCH", body: JSON.stringify({ text: "x" }) })).status).toBe(404);
+    expect((await fetch(url("/api/annotations/missing"), { method: "DELETE" })).status).toBe(404);
+
+    // The revision in the list is what PATCH and DELETE take as If-Match
+    const { annotations: [listed] } = await (await fetch(url("/api/annotations"))).json();
+    expect(etag(listed.revision)).toBe(created.headers.get("ETag")!);
+
+    const stale = await fetch(url(`/api/annotations/${id}`), {
+      method: "PATCH",
+      headers: { "If-Match": '"2000-01-01T00:00:00.000Z"' },
+      body: JSON.stringify({ text: "x" }),
+    });
+    expect(stale.status).toBe(409);
+    expect((await stale.json()).current.id).toBe(id);
+
+    const removed = await fetch(url(`/api/annotations/${id}`), { method: "DELETE", headers: { "If-Match": etag(listed.revision) } });
+    expect(removed.status).toBe(200);
+  });
+});
@@ -23,12 +23,18 @@ export type EventName =
   | "POLL_TICK"
   | "COMMIT_DETECTED"
   | "SCAN_COMPLETE"
+  | "STEPS_PLACED"
   | "MERGE_APPLIED"
+  | "CHANGESET_QUEUED"
   | "UPDATE_SKIPPED"
   | "VALIDATION_FAILED"
+  | "WRITE_CONFLICT"
   | "ERROR"
   | "DAEMON_START"
-  | "DAEMON_STOP";
+  | "DAEMON_STOP"
+  | "DAEMON_PAUSE"
+  | "DAEMON_RESUME"
+  | "COMMIT_RESET";
 
 export interface LogEntry {
   ts: string;
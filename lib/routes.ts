@@ -0,0 +1,179 @@
+/**
+ * lib/routes.ts — HTTP API shared by server.ts and daemon.ts.
+ *
+ * Both entry points call startServer(); extra endpoints (e.g. the daemon's
+ * /api/daemon/*) are mounted as plugins, so anything added here is served in
+ * both modes. Routes use Bun.serve's native route table for path params.
+ */
+
+import type { BunRequest, Server } from "bun";
+import editor from "../editor.html";
+import {
+  listAnnotations,
+  createAnnotation,
+  updateAnnotation,
+  deleteAnnotation,
+  validateAnnotationInput,
+  validateAnnotationPatch,
+} from "./annotations";
+import type { AnnotationInput, AnnotationPatch } from "./annotations";
+import { ConflictError, conflictResponse, dataPath, etag, ifMatch, readDoc, writeDoc } from "./store";
+import { eventStream, publish } from "./events";
+import { migrateWorkflowDefs } from "../sync/migrate";
+import type { WorkflowDefs } from "../sync/merge";
+import { validateStructure } from "../sync/validate";
+
+const workflowsPath = () => dataPath("workflow-defs.json");
+const PORT = Number(process.env.WOVIZ_PORT) || 8091;
+
+// ── Types ─────────────────────────────────────────────────────────
+
+export type HTTPMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type RouteHandler = (
+  req: BunRequest,
+  server: Server<undefined>,
+) => Response | Promise<Response>;
+
+export type RouteTable = Record<string, Partial<Record<HTTPMethod, RouteHandler>>>;
+
+export interface RoutePlugin {
+  name: string;
+  routes: RouteTable;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────
+
+/** Turn a ConflictError thrown by a store into a 409 with the current version */
+function handleConflicts(handler: RouteHandler): RouteHandler {
+  return async (req, server) => {
+    try {
+      return await handler(req, server);
+    } catch (err) {
+      if (err instanceof ConflictError) return conflictResponse(err);
+      throw err;
+    }
+  };
+}
+
+function notFound(): Response {
+  return new Response("Not Found", { status: 404 });
+}
+
+/** Parsed JSON body, or undefined if it isn't valid JSON (validators reject that) */
+async function readBody(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return undefined;
+  }
+}
+
+function invalidBody(errors: string[]): Response {
+  return Response.json({ error: "validation", errors }, { status: 422 });
+}
+
+// ── Core API ──────────────────────────────────────────────────────
+
+export const apiRoutes: RouteTable = {
+  // Live change feed for open editors
+  "/api/events": {
+    GET: (req, server) => {
+      server.timeout(req, 0);
+      return eventStream(req);
+    },
+  },
+
+  "/api/workflows": {
+    GET: async () => {
+      const doc = await readDoc(workflowsPath(), { version: "1.0.0", journeys: [] });
+      // Older files still have positional edgeLabels; the editor only reads the keyed form
+      return Response.json(migrateWorkflowDefs(doc.data as WorkflowDefs).json, { headers: { ETag: etag(doc.revision) } });
+    },
+    PUT: handleConflicts(async (req) => {
+      const expected = ifMatch(req);
+      if (expected === null) {
+        return Response.json({ error: "If-Match header required" }, { status: 428 });
+      }
+      const body = await readBody(req);
+      const { ok, errors } = validateStructure(body);
+      if (!ok) return invalidBody(errors);
+      const revision = await writeDoc(workflowsPath(), body, expected);
+      publish({ type: "workflows", revision, data: body });
+      return Response.json({ ok: true, revision }, { headers: { ETag: etag(revision) } });
+    }),
+  },
+
+  "/api/annotations": {
+    GET: async () => {
+      // No list ETag: each annotation carries the revision PATCH/DELETE take as If-Match
+      const { annotations } = await listAnnotations();
+      return Response.json({ annotations });
+    },
+    POST: async (req) => {
+      const body = await readBody(req);
+      const errors = validateAnnotationInput(body);
+      if (errors.length > 0) return invalidBody(errors);
+      const created = await createAnnotation(body as AnnotationInput);
+      publish({ type: "annotation-created", annotation: created });
+      return Response.json(created, {
+        status: 201,
+        headers: { ETag: etag(created.revision) },
+      });
+    },
+  },
+
+  "/api/annotations/:id": {
+    PATCH: handleConflicts(async (req) => {
+      const body = await readBody(req);
+      const errors = validateAnnotationPatch(body);
+      if (errors.length > 0) return invalidBody(errors);
+      const updated = await updateAnnotation(req.params.id!, body as AnnotationPatch, ifMatch(req));
+      if (!updated) return notFound();
+      publish({ type: "annotation-updated", annotation: updated });
+      return Response.json(updated, { headers: { ETag: etag(updated.revision) } });
+    }),
+    DELETE: handleConflicts(async (req) => {
+      const id = req.params.id!;
+      if (!(await deleteAnnotation(id, ifMatch(req)))) return notFound();
+      publish({ type: "annotation-deleted", id });
+      return Response.json({ ok: true });
+    }),
+  },
+};
+
+// ── Server ────────────────────────────────────────────────────────
+
+/** Merge plugin routes into the core table; a path may only be claimed once */
+export function buildRoutes(plugins: RoutePlugin[] = []): RouteTable {
+  const routes: RouteTable = { ...apiRoutes };
+  for (const plugin of plugins) {
+    for (const [path, methods] of Object.entries(plugin.routes)) {
+      if (routes[path]) {
+        throw new Error(`Route ${path} from plugin "${plugin.name}" is already registered`);
+      }
+      routes[path] = methods;
+    }
+  }
+  return routes;
+}
+
+export function startServer(plugins: RoutePlugin[] = []) {
+  return Bun.serve({
+    port: PORT,
+    hostname: "127.0.0.1",
+    routes: {
+      "/": editor,
+      ...buildRoutes(plugins),
+    },
+
+    fetch() {
+      return notFound();
+    },
+
+    development: {
+      hmr: true,
+      console: true,
+    },
+  });
+}
@@ -0,0 +1,111 @@
+/**
+ * lib/store.ts — Revisioned JSON documents on disk.
+ *
+ * A document's revision is a hash of its file contents. Writers pass the
+ * revision they last read; if the file changed in between (another editor,
+ * or the daemon's poll cycle), the write is rejected with a ConflictError
+ * instead of clobbering the newer version.
+ */
+
+import { join, resolve } from "path";
+
+const ROOT = join(import.meta.dir, "..");
+
+export interface Doc<T> {
+  data: T;
+  revision: string;
+}
+
+export class ConflictError extends Error {
+  constructor(
+    public readonly revision: string,
+    public readonly current: unknown,
+  ) {
+    super(`Revision conflict (current revision ${revision})`);
+    this.name = "ConflictError";
+  }
+}
+
+export function revisionOf(text: string): string {
+  return Bun.hash(text).toString(16);
+}
+
+/**
+ * Path of a data file (workflow-defs.json, annotations.json, sync/pending.json).
+ * They live in the repo root unless WOVIZ_DATA_DIR names another directory;
+ * read on every call, so tests can point it at a temp dir.
+ */
+export function dataPath(...segments: string[]): string {
+  const dir = process.env.WOVIZ_DATA_DIR ? resolve(ROOT, process.env.WOVIZ_DATA_DIR) : ROOT;
+  return join(dir, ...segments);
+}
+
+// ── Per-file write queue ──────────────────────────────────────────
+
+const queues = new Map<string, Promise<unknown>>();
+
+/** Run fn after every previously queued operation on the same path has finished */
+export function withLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+  const prev = queues.get(path) ?? Promise.resolve();
+  const run = prev.then(fn, fn);
+  queues.set(path, run.catch(() => {}));
+  return run;
+}
+
+// ── Read / write ──────────────────────────────────────────────────
+
+export async function readDoc<T>(path: string, fallback: T): Promise<Doc<T>> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) return { data: fallback, revision: revisionOf("") };
+  const text = await file.text();
+  return { data: JSON.parse(text), revision: revisionOf(text) };
+}
+
+/** Must be called inside withLock(path) so the check and the write are atomic */
+export async function writeDocUnlocked<T>(
+  path: string,
+  data: T,
+  expectedRevision: string | null = null,
+): Promise<string> {
+  if (expectedRevision !== null) {
+    const current = await readDoc<unknown>(path, null);
+    if (current.revision !== expectedRevision) {
+      throw new ConflictError(current.revision, current.data);
+    }
+  }
+  const text = JSON.stringify(data, null, 2);
+  await Bun.write(path, text);
+  return revisionOf(text);
+}
+
+/**
+ * Write data to path, returning the new revision. When expectedRevision is
+ * given and the file no longer has that revision, throws ConflictError.
+ */
+export function writeDoc<T>(
+  path: string,
+  data: T,
+  expectedRevision: string | null = null,
+): Promise<string> {
+  return withLock(path, () => writeDocUnlocked(path, data, expectedRevision));
+}
+
+// ── HTTP helpers ──────────────────────────────────────────────────
+
+export function etag(revision: string): string {
+  return `"${revision}"`;
+}
+
+/** Revision from an If-Match header, or null if the client sent none */
+export function ifMatch(req: Request): string | null {
+  const header = req.headers.get("If-Match");
+  if (!header || header.trim() === "*") return null;
+  return header.trim().replace(/^W\//, "").replace(/^"|"$/g, "");
+}
+
+export function conflictResponse(err: ConflictError): Response {
+  return Response.json(
+    { error: "conflict", revision: err.revision, current: err.current },
+    { status: 409, headers: { ETag: etag(err.revision) } },
+  );
+}
@@ -0,0 +1,57 @@
+#!/usr/bin/env bun
+/**
+ * migrate-workflows.ts — Rewrite workflow-defs.json in the current shape.
+ *
+ * Converts positional edgeLabels (aligned with next[] by index) to labels
+ * keyed by target step. The daemon and the editor's API migrate on load, so
+ * this only makes the change permanent in the file.
+ *
+ * Usage:
+ *   bun migrate-workflows.ts              # Migrate workflow-defs.json in place
+ *   bun migrate-workflows.ts <path>       # Migrate another workflow defs file
+ *   bun migrate-workflows.ts --dry-run    # Report what would change, write nothing
+ */
+
+import { join } from "path";
+import { readDoc, writeDoc } from "./lib/store";
+import type { WorkflowDefs } from "./sync/merge";
+import { migrateWorkflowDefs } from "./sync/migrate";
+import { validateStructure } from "./sync/validate";
+
+const DIR = import.meta.dir;
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const path = args.find((a) => !a.startsWith("--")) ?? join(DIR, "workflow-defs.json");
+
+  if (!(await Bun.file(path).exists())) {
+    console.error(`${path} not found`);
+    process.exit(1);
+  }
+
+  const { data, revision } = await readDoc<WorkflowDefs | null>(path, null);
+  const { json, migrated } = migrateWorkflowDefs(data!);
+
+  if (migrated === 0) {
+    console.log("Already up to date.");
+    return;
+  }
+
+  const { ok, errors } = validateStructure(json);
+  if (!ok) {
+    console.error("Migrated file does not validate:");
+    for (const error of errors) console.error(`  ${error}`);
+    process.exit(1);
+  }
+
+  if (dryRun) {
+    console.log(`Would migrate edgeLabels on ${migrated} step(s).`);
+    return;
+  }
+
+  await writeDoc(path, json, revision);
+  console.log(`Migrated edgeLabels on ${migrated} step(s) in ${path}.`);
+}
+
+main();
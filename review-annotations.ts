@@ -12,28 +12,14 @@
  *   bun review-annotations.ts --check-files # verify Swift files exist on disk
  */
 
-import { resolve, join } from "path";
+import { resolve } from "path";
+import { branchLabels } from "./sync/merge";
+import type { Journey, Step } from "./sync/merge";
+import { migrateWorkflowDefs } from "./sync/migrate";
+import { dataPath } from "./lib/store";
 
 // -- Types ------------------------------------------------------------------
 
-interface Step {
-  id: string;
-  label: string;
-  screen: string;
-  swiftFile: string | null;
-  type: "action" | "display" | "decision" | "input" | "system";
-  next: string[];
-  edgeLabels?: string[];
-}
-
-interface Journey {
-  id: string;
-  name: string;
-  description: string;
-  group: string;
-  steps: Step[];
-}
-
 interface Annotation {
   stepId: string;
   journeyId: string;
@@ -87,17 +73,18 @@ const TYPE_RANK: Record<string, number> = {
 // -- Data Loading -----------------------------------------------------------
 
 async function loadAnnotations(): Promise<Annotation[]> {
-  const path = join(import.meta.dir, "annotations.json");
+  const path = dataPath("annotations.json");
   const file = Bun.file(path);
   const data = await file.json();
   return data.annotations ?? [];
 }
 
 async function loadWorkflows(): Promise<Journey[]> {
-  const path = join(import.meta.dir, "workflow-defs.json");
+  const path = dataPath("workflow-defs.json");
   const file = Bun.file(path);
-  const data = await file.json();
-  return data.journeys ?? [];
+  // Older files have positional edgeLabels; migrate them as the daemon and editor do
+  const { json } = migrateWorkflowDefs(await file.json());
+  return json.journeys ?? [];
 }
 
 // -- Step Index -------------------------------------------------------------
@@ -127,7 +114,9 @@ function resolveAnnotations(
     const match = stepIndex.get(key);
 
     const step = match?.step;
-    const branches = step?.edgeLabels?.map((lbl, i) => `${lbl} -> ${step.next[i]}`);
+    const labels = step?.edgeLabels;
+    const branches = labels && step.next.flatMap((id) =>
+      branchLabels(labels, id).filter(Boolean).map((label) => `${label} -> ${id}`));
 
     return {
       index: 0, // assigned after sorting
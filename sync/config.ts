@@ -0,0 +1,170 @@
+/**
+ * sync/config.ts — Per-project sync settings (sync.config.json).
+ *
+ * Which Swift files the daemon watches and which journey a new file lands in
+ * depend on the app's directory layout, so they live in a config file rather
+ * than in scan.ts/merge.ts. Globs are relative to the app repo root; `*`
+ * stays within one directory, `**` crosses directories.
+ *
+ * Journey rules match a new view by file path, struct name and / or the views
+ * presenting it, and are tried highest priority first.
+ */
+
+import { join } from "path";
+
+export interface JourneyRule {
+  /** Names the rule in placement reports; defaults to its position, e.g. "journeys[2]" */
+  name?: string;
+  /** Glob matched against the file path */
+  match?: string;
+  /** Glob matched against the view's struct name, e.g. "*Paywall*" */
+  struct?: string;
+  /** Glob matched against the struct name of a view presenting it (parsed in the same scan) */
+  presentedBy?: string;
+  journey: string;
+  /** Higher runs first; equal priorities keep file order. Default 0 */
+  priority?: number;
+}
+
+/** A rule needs at least one of these, and matches when all it has do */
+const RULE_MATCHERS = ["match", "struct", "presentedBy"] as const;
+
+export interface SyncConfig {
+  /** Swift files to track */
+  watch: string[];
+  /** Files excluded even when a watch glob matches */
+  ignore: string[];
+  /** Journey rules for new views, tried by priority; the first match wins */
+  journeys: JourneyRule[];
+}
+
+export const DEFAULT_CONFIG_PATH = join(import.meta.dir, "..", "sync.config.json");
+
+/** Used when no config file exists (the original ExampleApp layout) */
+export const DEFAULT_CONFIG: SyncConfig = {
+  watch: [
+    "ExampleApp/Sources/UI/Views/*.swift",
+    "ExampleApp/Sources/UI/Onboarding/*.swift",
+    "ExampleApp/Sources/UI/Components/*.swift",
+    "ExampleApp/ContentView.swift",
+    "ExampleApp/ExampleAppApp.swift",
+    "ExampleAppShare/*.swift",
+    "ExampleAppAction/*.swift",
+  ],
+  ignore: [],
+  journeys: [
+    { name: "onboarding", match: "ExampleApp/Sources/UI/Onboarding/**", journey: "first-open" },
+    { name: "share-extension", match: "ExampleAppShare/**", journey: "capture-note" },
+    { name: "action-extension", match: "ExampleAppAction/**", journey: "capture-note" },
+  ],
+};
+
+// ── Validation ────────────────────────────────────────────────────
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string" && v.length > 0);
+}
+
+/** Errors for a parsed config file; empty when it is a valid (partial) SyncConfig */
+export function validateConfig(raw: unknown): string[] {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return ["Config must be a JSON object"];
+  }
+  const config = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const field of ["watch", "ignore"]) {
+    if (field in config && !isStringArray(config[field])) {
+      errors.push(`${field}: must be an array of glob strings`);
+    }
+  }
+  if ("journeys" in config) {
+    if (!Array.isArray(config.journeys)) {
+      errors.push("journeys: must be an array of { match | struct | presentedBy, journey } rules");
+    } else {
+      config.journeys.forEach((rule, i) => {
+        const r = (rule ?? {}) as Record<string, unknown>;
+        const matchers = RULE_MATCHERS.filter((m) => m in r);
+        if (matchers.length === 0) errors.push(`journeys[${i}]: needs match, struct or presentedBy`);
+        for (const m of matchers) {
+          if (typeof r[m] !== "string" || !r[m]) errors.push(`journeys[${i}].${m}: must be a glob string`);
+        }
+        if (typeof r.journey !== "string" || !r.journey) errors.push(`journeys[${i}].journey: required string`);
+        if ("priority" in r && typeof r.priority !== "number") errors.push(`journeys[${i}].priority: must be a number`);
+        if ("name" in r && (typeof r.name !== "string" || !r.name)) errors.push(`journeys[${i}].name: must be a string`);
+      });
+    }
+  }
+  return errors;
+}
+
+// ── Loading ───────────────────────────────────────────────────────
+
+/**
+ * Read the config file, filling omitted fields from DEFAULT_CONFIG. A missing
+ * file yields DEFAULT_CONFIG; an invalid one throws so the daemon fails fast.
+ */
+export async function loadConfig(path: string = DEFAULT_CONFIG_PATH): Promise<SyncConfig> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) return DEFAULT_CONFIG;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch (err) {
+    throw new Error(`Invalid JSON in ${path}: ${(err as Error).message}`);
+  }
+  const errors = validateConfig(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid sync config ${path}:\n  ${errors.join("\n  ")}`);
+  }
+  return { ...DEFAULT_CONFIG, ...(raw as Partial<SyncConfig>) };
+}
+
+// ── Matching ──────────────────────────────────────────────────────
+
+const globCache = new Map<string, Bun.Glob>();
+
+function matches(pattern: string, filePath: string): boolean {
+  let glob = globCache.get(pattern);
+  if (!glob) {
+    glob = new Bun.Glob(pattern);
+    globCache.set(pattern, glob);
+  }
+  return glob.match(filePath);
+}
+
+export function isWatched(filePath: string, config: SyncConfig = DEFAULT_CONFIG): boolean {
+  return (
+    config.watch.some((g) => matches(g, filePath)) &&
+    !config.ignore.some((g) => matches(g, filePath))
+  );
+}
+
+/** What journey rules are matched against: a new view and the views presenting it */
+export interface RuleSubject {
+  filePath: string;
+  structName: string;
+  presentedBy: string[];
+}
+
+export interface RuleMatch {
+  journey: string;
+  /** The rule's name, or its position in the config */
+  rule: string;
+}
+
+function ruleMatches(rule: JourneyRule, subject: RuleSubject): boolean {
+  if (rule.match && !matches(rule.match, subject.filePath)) return false;
+  if (rule.struct && !matches(rule.struct, subject.structName)) return false;
+  if (rule.presentedBy && !subject.presentedBy.some((name) => matches(rule.presentedBy!, name))) return false;
+  return true;
+}
+
+/** The highest-priority matching rule, or null to fall back to graph heuristics */
+export function matchJourneyRule(subject: RuleSubject, config: SyncConfig = DEFAULT_CONFIG): RuleMatch | null {
+  const ranked = config.journeys
+    .map((rule, i) => ({ rule, i }))
+    .sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.i - b.i);
+  const found = ranked.find(({ rule }) => ruleMatches(rule, subject));
+  return found ? { journey: found.rule.journey, rule: found.rule.name ?? `journeys[${found.i}]` } : null;
+}
@@ -0,0 +1,462 @@
+/**
+ * sync/lexer.ts — Minimal Swift tokenizer for parse.ts.
+ *
+ * Not a full Swift grammar: it only needs to tell code apart from comments
+ * and string literals, and to pair up (), [] and {} so callers can find a
+ * call's arguments and trailing closures. Comments (including nested block
+ * comments) are dropped; string literals, raw strings, multi-line strings and
+ * their \( ) interpolations each become one token.
+ */
+
+export interface Token {
+  kind: "ident" | "string" | "number" | "punct";
+  /** Source text; for strings, the whole literal including delimiters */
+  text: string;
+  /** Offset of the token's first character in the source */
+  start: number;
+  end: number;
+  /** For strings: the literal body between the delimiters, escapes untouched */
+  value?: string;
+}
+
+export interface Lexed {
+  tokens: Token[];
+  /** [start, end) offsets of every comment */
+  comments: [number, number][];
+}
+
+const IDENT_START = /[A-Za-z_]/;
+const IDENT_PART = /[A-Za-z0-9_]/;
+const DIGIT = /[0-9]/;
+
+const CLOSERS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+
+// ── Tokenizer ─────────────────────────────────────────────────────
+
+class Scanner {
+  pos = 0;
+  readonly tokens: Token[] = [];
+  readonly comments: [number, number][] = [];
+
+  constructor(private readonly src: string) {}
+
+  private at(offset = 0): string {
+    return this.src.charAt(this.pos + offset);
+  }
+
+  private startsWith(s: string): boolean {
+    return this.src.startsWith(s, this.pos);
+  }
+
+  private push(kind: Token["kind"], start: number, value?: string, text = this.src.slice(start, this.pos)) {
+    const token: Token = { kind, text, start, end: this.pos };
+    if (value !== undefined) token.value = value;
+    this.tokens.push(token);
+  }
+
+  run(): Lexed {
+    while (this.pos < this.src.length) this.next();
+    return { tokens: this.tokens, comments: this.comments };
+  }
+
+  private next() {
+    const c = this.at();
+    const start = this.pos;
+
+    if (/\s/.test(c)) {
+      this.pos++;
+    } else if (this.startsWith("//")) {
+      const eol = this.src.indexOf("\n", this.pos);
+      this.pos = eol === -1 ? this.src.length : eol;
+      this.comments.push([start, this.pos]);
+    } else if (this.startsWith("/*")) {
+      this.skipBlockComment();
+      this.comments.push([start, this.pos]);
+    } else if (c === '"' || (c === "#" && this.rawStringAhead())) {
+      const value = this.skipString();
+      this.push("string", start, value);
+    } else if (IDENT_START.test(c) || ((c === "$" || c === "#") && IDENT_PART.test(this.at(1)))) {
+      // $binding, $0, #Preview, #if are single identifiers
+      this.pos++;
+      while (IDENT_PART.test(this.at())) this.pos++;
+      this.push("ident", start);
+    } else if (c === "`") {
+      // `default` — a keyword used as a name; the token text drops the backticks
+      const close = this.src.indexOf("`", this.pos + 1);
+      this.pos = close === -1 ? this.src.length : close + 1;
+      this.push("ident", start, undefined, this.src.slice(start + 1, close === -1 ? this.pos : close));
+    } else if (DIGIT.test(c)) {
+      this.pos++;
+      // 1_000, 0xFF, 1.5 — but not the range in 0..<5
+      while (IDENT_PART.test(this.at()) || (this.at() === "." && DIGIT.test(this.at(1)))) this.pos++;
+      this.push("number", start);
+    } else {
+      this.pos++;
+      this.push("punct", start);
+    }
+  }
+
+  /** Swift block comments nest */
+  private skipBlockComment() {
+    let depth = 0;
+    while (this.pos < this.src.length) {
+      if (this.startsWith("/*")) {
+        depth++;
+        this.pos += 2;
+      } else if (this.startsWith("*/")) {
+        depth--;
+        this.pos += 2;
+        if (depth === 0) return;
+      } else {
+        this.pos++;
+      }
+    }
+  }
+
+  private rawStringAhead(): boolean {
+    let i = this.pos;
+    while (this.src.charAt(i) === "#") i++;
+    return this.src.charAt(i) === '"';
+  }
+
+  /** Consume a string literal at pos; returns its body */
+  private skipString(): string {
+    let hashes = 0;
+    while (this.at() === "#") {
+      hashes++;
+      this.pos++;
+    }
+    const pad = "#".repeat(hashes);
+    const multiline = this.startsWith('"""');
+    const quote = multiline ? '"""' : '"';
+    this.pos += quote.length;
+    const bodyStart = this.pos;
+    const escape = "\\" + pad;
+
+    while (this.pos < this.src.length) {
+      if (this.startsWith(quote + pad)) {
+        const body = this.src.slice(bodyStart, this.pos);
+        this.pos += quote.length + pad.length;
+        return body;
+      }
+      if (this.startsWith(escape)) {
+        this.pos += escape.length;
+        if (this.at() === "(") this.skipInterpolation();
+        else this.pos++;
+        continue;
+      }
+      // An unterminated single-line string ends at the newline
+      if (!multiline && this.at() === "\n") break;
+      this.pos++;
+    }
+    return this.src.slice(bodyStart, this.pos);
+  }
+
+  /** Skip a balanced \( … ) that may itself contain strings and comments */
+  private skipInterpolation() {
+    let depth = 0;
+    while (this.pos < this.src.length) {
+      const c = this.at();
+      if (c === '"' || (c === "#" && this.rawStringAhead())) {
+        this.skipString();
+      } else if (this.startsWith("/*")) {
+        this.skipBlockComment();
+      } else {
+        this.pos++;
+        if (c === "(") depth++;
+        else if (c === ")" && --depth === 0) return;
+      }
+    }
+  }
+}
+
+export function lex(source: string): Lexed {
+  return new Scanner(source).run();
+}
+
+export function tokenize(source: string): Token[] {
+  return lex(source).tokens;
+}
+
+/**
+ * Source with comments and string bodies replaced by spaces (newlines kept),
+ * so offsets line up and regexes only ever see code.
+ */
+export function codeOnly(source: string): string {
+  const { tokens, comments } = lex(source);
+  const chars = source.split("");
+  const blank = (from: number, to: number) => {
+    for (let i = from; i < to; i++) if (chars[i] !== "\n") chars[i] = " ";
+  };
+  for (const [from, to] of comments) blank(from, to);
+  for (const t of tokens) {
+    if (t.kind === "string" && t.value) {
+      const bodyStart = t.start + t.text.match(/^#*"(?:"")?/)![0].length;
+      blank(bodyStart, bodyStart + t.value.length);
+    }
+  }
+  return chars.join("");
+}
+
+/**
+ * Code with everything outside the [from, to) offset ranges blanked (newlines
+ * kept), so a slice of it keeps the file's offsets and line numbers.
+ */
+export function keepRanges(code: string, ranges: [number, number][]): string {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const blank = (text: string) => text.replace(/[^\n]/g, " ");
+  let result = "";
+  let pos = 0;
+  for (const [from, to] of sorted) {
+    if (from < pos) continue;
+    result += blank(code.slice(pos, from)) + code.slice(from, to);
+    pos = to;
+  }
+  return result + blank(code.slice(pos));
+}
+
+/** 1-based line number of an offset */
+export function lineAt(source: string, offset: number): number {
+  let line = 1;
+  for (let i = source.indexOf("\n"); i !== -1 && i < offset; i = source.indexOf("\n", i + 1)) line++;
+  return line;
+}
+
+/**
+ * The first match of `pattern` as evidence text: its first capture group (or
+ * the whole match) and line, e.g. "TextField at line 42".
+ */
+export function matchEvidence(code: string, pattern: RegExp): string | undefined {
+  const match = pattern.exec(code);
+  if (!match) return undefined;
+  return `${(match[1] ?? match[0]).trim()} at line ${lineAt(code, match.index)}`;
+}
+
+/** A string literal as display text (button titles etc.); interpolations become "…" */
+export function literalText(token: Token | undefined): string | undefined {
+  if (token?.kind !== "string") return undefined;
+  const text = token.value?.replace(/\\#*\([^)]*\)/g, "…").trim();
+  return text || undefined;
+}
+
+// ── Structure helpers ─────────────────────────────────────────────
+
+export function isPunct(token: Token | undefined, text: string): boolean {
+  return token?.kind === "punct" && token.text === text;
+}
+
+export function isIdent(token: Token | undefined, text?: string): boolean {
+  return token?.kind === "ident" && (text === undefined || token.text === text);
+}
+
+/** Index of the bracket closing tokens[open], or tokens.length if unbalanced */
+export function matchingClose(tokens: Token[], open: number): number {
+  const opener = tokens[open]!.text;
+  const closer = CLOSERS[opener];
+  if (!closer) throw new Error(`Token "${opener}" at ${open} is not an opening bracket`);
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i]!.kind !== "punct") continue;
+    if (tokens[i]!.text === opener) depth++;
+    else if (tokens[i]!.text === closer && --depth === 0) return i;
+  }
+  return tokens.length;
+}
+
+export interface Closure {
+  /** Argument label for `label: { … }` trailing closures; null for the first */
+  label: string | null;
+  /** Index of the `{` */
+  open: number;
+  /** Index of the matching `}` */
+  close: number;
+}
+
+export interface Call {
+  /** Indices of `(` and `)` when the call has an argument list */
+  args: { open: number; close: number } | null;
+  closures: Closure[];
+  /** Index just past the call */
+  end: number;
+}
+
+/**
+ * The argument list and trailing closures starting at tokens[i] (the token
+ * right after the callee name), e.g. `(x: 1) { … } label: { … }`.
+ */
+export function readCall(tokens: Token[], i: number): Call {
+  let args: Call["args"] = null;
+  if (isPunct(tokens[i], "(")) {
+    const close = matchingClose(tokens, i);
+    args = { open: i, close };
+    i = close + 1;
+  }
+
+  const closures: Closure[] = [];
+  if (isPunct(tokens[i], "{")) {
+    const close = matchingClose(tokens, i);
+    closures.push({ label: null, open: i, close });
+    i = close + 1;
+    // Multiple trailing closures: `} label: { … }`
+    while (isIdent(tokens[i]) && isPunct(tokens[i + 1], ":") && isPunct(tokens[i + 2], "{")) {
+      const close = matchingClose(tokens, i + 2);
+      closures.push({ label: tokens[i]!.text, open: i + 2, close });
+      i = close + 1;
+    }
+  }
+
+  return { args, closures, end: i };
+}
+
+/**
+ * Split an argument list into [label, from, to) token ranges, one per
+ * top-level comma-separated argument. Unlabelled arguments have label null.
+ */
+export function splitArgs(
+  tokens: Token[],
+  args: NonNullable<Call["args"]>,
+): { label: string | null; from: number; to: number }[] {
+  const result: { label: string | null; from: number; to: number }[] = [];
+  let from = args.open + 1;
+  let i = from;
+
+  const flush = (to: number) => {
+    if (to <= from) return;
+    const labelled = isIdent(tokens[from]) && isPunct(tokens[from + 1], ":");
+    result.push({
+      label: labelled ? tokens[from]!.text : null,
+      from: labelled ? from + 2 : from,
+      to,
+    });
+  };
+
+  while (i < args.close) {
+    const t = tokens[i]!;
+    if (t.kind === "punct" && CLOSERS[t.text]) {
+      i = matchingClose(tokens, i) + 1;
+    } else if (isPunct(t, ",")) {
+      flush(i);
+      from = i = i + 1;
+    } else {
+      i++;
+    }
+  }
+  flush(args.close);
+  return result;
+}
+
+// Calls whose first argument is the (localizable) text they stand for
+const STRING_WRAPPERS = new Set(["Text", "String", "NSLocalizedString", "LocalizedStringKey", "LocalizedStringResource"]);
+
+/**
+ * Text of the string expression at tokens[from] — "Settings", Text("Settings"),
+ * String(localized: "settings.title"), NSLocalizedString("settings.title", …).
+ * Literals may be localization keys; Text(verbatim:) is not matched.
+ */
+export function stringExpr(tokens: Token[], from: number): string | undefined {
+  const first = tokens[from];
+  if (first?.kind === "string") return literalText(first);
+  if (!isIdent(first) || !STRING_WRAPPERS.has(first!.text) || !isPunct(tokens[from + 1], "(")) return undefined;
+  const arg = splitArgs(tokens, readCall(tokens, from + 1).args!)[0];
+  if (!arg || (arg.label !== null && arg.label !== "localized") || arg.to - arg.from !== 1) return undefined;
+  return literalText(tokens[arg.from]);
+}
+
+// ── Type declarations ─────────────────────────────────────────────
+
+const TYPE_KEYWORDS = new Set(["struct", "class", "enum", "actor", "extension"]);
+
+// `class func`, `class var` … declare members, not types
+const MEMBER_KEYWORDS = new Set(["func", "var", "let", "init", "subscript", "override", "final", "static"]);
+
+export interface Declaration {
+  keyword: string;
+  name: string;
+  /** Conformance / superclass names, module prefixes dropped (SwiftUI.View → View) */
+  inherits: string[];
+  /** Index of the keyword */
+  start: number;
+  /** Indices of the body's `{` and `}` */
+  open: number;
+  close: number;
+}
+
+/** Every struct / class / enum / actor / extension with a body, nested ones included */
+export function declarations(tokens: Token[]): Declaration[] {
+  const found: Declaration[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const keyword = tokens[i]!.text;
+    if (!isIdent(tokens[i]) || !TYPE_KEYWORDS.has(keyword)) continue;
+    if (!isIdent(tokens[i + 1]) || MEMBER_KEYWORDS.has(tokens[i + 1]!.text)) continue;
+
+    // extension Foo.Bar → Bar
+    let j = i + 1;
+    while (isPunct(tokens[j + 1], ".") && isIdent(tokens[j + 2])) j += 2;
+    const name = tokens[j]!.text;
+    j++;
+
+    if (isPunct(tokens[j], "<")) {
+      let depth = 0;
+      for (; j < tokens.length; j++) {
+        if (isPunct(tokens[j], "<")) depth++;
+        else if (isPunct(tokens[j], ">") && --depth === 0) break;
+      }
+      j++;
+    }
+
+    const inherits: string[] = [];
+    if (isPunct(tokens[j], ":")) {
+      let depth = 0;
+      for (j++; j < tokens.length && !isPunct(tokens[j], "{") && !isIdent(tokens[j], "where"); j++) {
+        if (isPunct(tokens[j], "<")) depth++;
+        else if (isPunct(tokens[j], ">")) depth--;
+        else if (depth === 0 && isIdent(tokens[j]) && !isPunct(tokens[j + 1], ".")) inherits.push(tokens[j]!.text);
+      }
+    }
+    while (j < tokens.length && !isPunct(tokens[j], "{") && !isPunct(tokens[j], "}") && !isPunct(tokens[j], ";")) {
+      if (TYPE_KEYWORDS.has(tokens[j]!.text)) break;
+      j++;
+    }
+    if (!isPunct(tokens[j], "{")) continue;
+
+    found.push({ keyword, name, inherits, start: i, open: j, close: matchingClose(tokens, j) });
+  }
+  return found;
+}
+
+/**
+ * The tokens and code (see codeOnly) that belong to one type: its body plus
+ * the bodies of `extension Name` blocks, minus nested declarations listed in
+ * `exclude`, which are reported on their own. Code outside the scope is
+ * blanked, so offsets and line numbers still match the file.
+ */
+export function scopeOf(
+  tokens: Token[],
+  code: string,
+  own: Declaration,
+  all: Declaration[],
+  exclude: Declaration[],
+): { tokens: Token[]; code: string } {
+  const bodies = [own, ...all.filter((d) => d.keyword === "extension" && d.name === own.name)];
+  const scoped: Token[] = [];
+  const ranges: [number, number][] = [];
+
+  for (const body of bodies) {
+    let runStart = body.open + 1;
+    const flush = (end: number) => {
+      if (end <= runStart) return;
+      scoped.push(...tokens.slice(runStart, end));
+      ranges.push([tokens[runStart]!.start, tokens[end - 1]!.end]);
+    };
+    for (let i = body.open + 1; i < body.close; i++) {
+      const nested = exclude.find((d) => d !== own && d.start === i);
+      if (!nested) continue;
+      flush(i);
+      i = nested.close;
+      runStart = i + 1;
+    }
+    flush(body.close);
+  }
+
+  return { tokens: scoped, code: keepRanges(code, ranges) };
+}
@@ -2,13 +2,51 @@
  * sync/merge.ts — Pure function: merge ScanResult + ParsedViews into WorkflowDefs.
  *
  * Rules:
- * - New files: add step with _needsReview:true, assign to journey by path heuristic
- * - Removed files: mark step deprecated:true (never delete)
- * - Modified files: re-parse edges, update next[], preserve edgeLabels
+ * Steps are keyed by (swiftFile, struct): a file may declare several views,
+ * each tracked by its own step.
+ *
+ * - New views (every view of a new file, or one newly declared in a modified
+ *   file): add step with the inferred type and its confidence / evidence,
+ *   _needsReview:true when that confidence is low; assign to journey by the
+ *   config's journey rules (by priority), then by sibling views and existing
+ *   edges, reporting which decided in placements. The label
+ *   is the screen's title when the parser found one, the phase that of a
+ *   neighbouring step in the journey. A bootstrap scan (every watched file
+ *   reported new) adds only screens: views another view presents or an entry
+ *   point opens, and the first view of an untracked file that presents others
+ * - Renamed files: update swiftFile (and screen) on the existing steps, so
+ *   their IDs and annotations survive the move; edits in the same commit apply too
+ * - Removed files: mark the file's steps deprecated:true (never delete), with
+ *   the commit and date they were deprecated at
+ * - Restored files (a new file some deprecated step still tracks): revive
+ *   those steps, then merge the file's edges as for a modified one
+ * - Edges: a destination view with a step in the same journey links to it by
+ *   ID; one only other journeys have (a shared screen, e.g. a paywall) links
+ *   to each as "journeyId:stepId"
+ * - Modified files: re-parse edges and three-way merge next[] against what the
+ *   last sync wrote (_synced): edges the code added or dropped are applied,
+ *   edges added or removed by hand are kept. An edge the code dropped but a
+ *   human relabelled, or one on a step with no _synced to tell, is kept and
+ *   raised as a "conflict" change (accepting it takes the code's side).
+ *   Existing edgeLabels (keyed by target step) are kept, parsed button/link
+ *   text labels only the new edges
+ * - Entry points (when given, for the whole app): set entryPoints on each iOS
+ *   step a deep link / activity / App Intent lands on, unless another step of
+ *   its journey leads there; clear them where no handler lands any more. Only
+ *   entries the sync wrote (synced: true) are replaced; ones added by hand stay
+ *
+ * Every ChangeRecord carries a patch, so applyChanges() can replay any subset
+ * of them onto a WorkflowDefs later (staged mode's approval queue). Edge
+ * patches are merged again against the step as it is then, so accepting a
+ * change late doesn't undo edges added or removed since it was queued; a
+ * change to or towards a step whose add is still queued needs that add
+ * (changeDependencies).
  */
 
-import type { ScanResult } from "./scan";
-import type { ParsedView } from "./parse";
+import type { ChangedFile, ScanResult } from "./scan";
+import type { EntryPoint, ParsedView, Platform } from "./parse";
+import { DEFAULT_CONFIG, matchJourneyRule } from "./config";
+import type { SyncConfig } from "./config";
 
 // ── Types (mirrors export-mermaid.ts) ─────────────────────────────
 
@@ -16,15 +54,53 @@ export interface Step {
   id: string;
   label: string;
   screen: string;
+  /** Source file of the screen; a .kt file for Android steps */
   swiftFile: string | null;
+  /** Unset on steps written before platform tagging, which are iOS */
+  platform?: Platform;
   type: "action" | "display" | "decision" | "input" | "system";
+  /** Set on synced steps: 0–1 confidence in the inferred type */
+  typeConfidence?: number;
+  /** What the inferred type rests on, e.g. "TextField at line 42" */
+  typeEvidence?: string[];
   phase: string;
   next: string[];
-  edgeLabels?: string[];
+  /** Branch labels by target step ID */
+  edgeLabels?: EdgeLabels;
+  /** Ways into the app that land on this step; such steps start their journey */
+  entryPoints?: StepEntryPoint[];
   deprecated?: boolean;
+  /** Set with deprecated: the commit that removed the file, and its date (the scanned HEAD if git can't say) */
+  deprecatedCommit?: string;
+  deprecatedAt?: string;
   _needsReview?: boolean;
+  /** The parsed edges as the last sync wrote them: the base of the next three-way merge */
+  _synced?: SyncedEdges;
+}
+
+export interface SyncedEdges {
+  next: string[];
+  edgeLabels?: EdgeLabels;
+}
+
+/**
+ * Keyed by target rather than aligned with next[], so reordering edges can't
+ * move a label. Several branches into one step (a button per export format,
+ * say) keep a label each, in order.
+ */
+export type EdgeLabels = Record<string, string | string[]>;
+
+/** The labels of the branches from a step to target ([] when unlabelled) */
+export function branchLabels(edgeLabels: EdgeLabels | undefined, target: string): string[] {
+  const label = edgeLabels?.[target];
+  return label === undefined ? [] : [label].flat();
 }
 
+export type StepEntryPoint = Omit<EntryPoint, "destination"> & {
+  /** Written by the sync, which replaces it as handlers change; entries without it were added by hand */
+  synced?: true;
+};
+
 export interface Journey {
   id: string;
   name: string;
@@ -39,21 +115,61 @@ export interface WorkflowDefs {
   journeys: Journey[];
 }
 
+/**
+ * What applying a ChangeRecord does to the target step. A set-fields patch
+ * carrying _synced is a parsed-edges update: its next[] / edgeLabels are
+ * re-merged from _synced rather than assigned. remove-edges (a conflict's
+ * code side) drops targets from next[] as it is when applied.
+ */
+export type ChangePatch =
+  | { op: "add-step"; step: Step }
+  | { op: "set-fields"; fields: Partial<Step>; clear?: (keyof Step)[] }
+  | { op: "remove-edges"; targets: string[] };
+
 export interface ChangeRecord {
   action: string;
   journeyId: string;
   stepId: string;
   detail: string;
+  patch: ChangePatch;
+}
+
+/** Which journey rule or graph heuristic placed a new step */
+export interface Placement {
+  journeyId: string;
+  stepId: string;
+  filePath: string;
+  structName: string;
+  placedBy: string;
 }
 
 export interface MergeResult {
   json: WorkflowDefs;
   changes: ChangeRecord[];
   reviewCount: number;
+  /** One per added step */
+  placements: Placement[];
 }
 
 // ── Helpers ───────────────────────────────────────────────────────
 
+/** New steps whose inferred type is less certain than this are flagged for review */
+export const REVIEW_CONFIDENCE = 0.7;
+
+/**
+ * A next[] entry: the step's ID within the same journey, or "journeyId:stepId"
+ * for a step in another journey (a screen several journeys share)
+ */
+export function stepRef(fromJourneyId: string, journeyId: string, stepId: string): string {
+  return journeyId === fromJourneyId ? stepId : `${journeyId}:${stepId}`;
+}
+
+export function parseStepRef(ref: string, fromJourneyId: string): { journeyId: string; stepId: string } {
+  const colon = ref.indexOf(":");
+  if (colon === -1) return { journeyId: fromJourneyId, stepId: ref };
+  return { journeyId: ref.slice(0, colon), stepId: ref.slice(colon + 1) };
+}
+
 function slugify(name: string): string {
   return name
     .replace(/([A-Z])/g, "-$1")
@@ -64,27 +180,38 @@ function slugify(name: string): string {
     .replace(/^-|-$/g, "");
 }
 
-/** Determine journey ID for a new file based on path + existing graph */
+/**
+ * Journey for a new view: the config's journey rules first, then the graph
+ * (a sibling view's step, a step leading to it, a step it presents). placedBy
+ * says which one decided, for the placement report.
+ */
 function assignJourney(
-  filePath: string,
-  structName: string,
   parsedView: ParsedView,
-  defs: WorkflowDefs
-): string {
-  // Path-based heuristics
-  if (filePath.startsWith("ExampleApp/Sources/UI/Onboarding/")) return "first-launch";
-  if (filePath.startsWith("ExampleAppShare/")) return "capture-via-share";
-  if (filePath.startsWith("ExampleAppAction/")) return "capture-via-action";
-
-  // Check if any existing step presents to this view
+  parsedViews: ParsedView[],
+  defs: WorkflowDefs,
+  config: SyncConfig
+): { journeyId: string; placedBy: string } {
+  const { filePath, structName } = parsedView;
+  const presentedBy = parsedViews
+    .filter((p) => p.presentsTo.some((e) => e.destination === structName))
+    .map((p) => p.structName);
+  const byRule = matchJourneyRule({ filePath, structName, presentedBy }, config);
+  if (byRule) return { journeyId: byRule.journey, placedBy: `rule "${byRule.rule}"` };
+
+  // Another view declared in the same file already has a step
+  const sibling = stepsForFile(defs, filePath)[0];
+  if (sibling) return { journeyId: sibling.journey.id, placedBy: `sibling view's step ${sibling.step.id}` };
+
+  // Check if any existing step presents to this view; it joins the journey
+  // of the step it lands on, which may be another one for "journeyId:stepId"
   for (const journey of defs.journeys) {
     for (const step of journey.steps) {
-      if (step.next.some((nextId) => {
-        // Find the step with nextId and check if its screen matches structName
-        const nextStep = journey.steps.find((s) => s.id === nextId);
-        return nextStep?.screen === structName;
-      })) {
-        return journey.id;
+      for (const nextId of step.next) {
+        const ref = parseStepRef(nextId, journey.id);
+        const nextStep = defs.journeys.find((j) => j.id === ref.journeyId)?.steps.find((s) => s.id === ref.stepId);
+        if (nextStep?.screen === structName) {
+          return { journeyId: ref.journeyId, placedBy: `edge from step ${stepRef(ref.journeyId, journey.id, step.id)}` };
+        }
       }
     }
   }
@@ -93,12 +220,12 @@ function assignJourney(
   for (const journey of defs.journeys) {
     for (const step of journey.steps) {
       if (step.screen && parsedView.presentsTo.some((e) => e.destination === step.screen)) {
-        return journey.id;
+        return { journeyId: journey.id, placedBy: `parsed edge to step ${step.id}` };
       }
     }
   }
 
-  return "unassigned";
+  return { journeyId: "unassigned", placedBy: "no rule or edge matched" };
 }
 
 function ensureJourney(defs: WorkflowDefs, journeyId: string): Journey {
@@ -118,32 +245,219 @@ function ensureJourney(defs: WorkflowDefs, journeyId: string): Journey {
   return journey;
 }
 
-/** Find which journey+step currently tracks a given swiftFile */
-function findStepByFile(
-  defs: WorkflowDefs,
-  filePath: string
-): { journey: Journey; step: Step } | null {
+/**
+ * Of a file's views, those whose declaration the diff adds. A declaration on
+ * both an added and a removed line was only moved or edited, so isn't new.
+ */
+function declaredInDiff(diff: string, structNames: string[]): Set<string> {
+  const added: string[] = [];
+  const removed: string[] = [];
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+++") || line.startsWith("---")) continue;
+    if (line.startsWith("+")) added.push(line);
+    else if (line.startsWith("-")) removed.push(line);
+  }
+
+  const declares = (lines: string[], name: string) => {
+    const declaration = new RegExp(`\\b(?:struct|class|fun)\\s+${name}\\b`);
+    return lines.some((line) => declaration.test(line));
+  };
+  return new Set(structNames.filter((name) => declares(added, name) && !declares(removed, name)));
+}
+
+/** Views another view presents or an entry point opens */
+function reachableViews(parsedViews: ParsedView[], entryPoints: EntryPoint[] = []): Set<string> {
+  const reachable = new Set(entryPoints.map((e) => e.destination));
+  for (const view of parsedViews) {
+    for (const edge of view.presentsTo) {
+      if (edge.destination !== view.structName) reachable.add(edge.destination);
+    }
+  }
+  return reachable;
+}
+
+/** Every journey+step tracking a given swiftFile */
+function stepsForFile(defs: WorkflowDefs, filePath: string): { journey: Journey; step: Step }[] {
+  const found: { journey: Journey; step: Step }[] = [];
   for (const journey of defs.journeys) {
     for (const step of journey.steps) {
-      if (step.swiftFile === filePath) return { journey, step };
+      if (step.swiftFile === filePath) found.push({ journey, step });
     }
   }
-  return null;
+  return found;
 }
 
-/** Build next[] from parsed edges, resolving destination view names to step IDs */
-function resolveNext(parsedView: ParsedView, defs: WorkflowDefs): string[] {
-  const nextIds: string[] = [];
+/**
+ * Find the step tracking one view of a file: the step whose screen is that
+ * struct. Hand-written steps name screens by slug, so the file's first view
+ * also claims the first step whose screen names none of the file's views.
+ */
+function findStepByFile(
+  defs: WorkflowDefs,
+  filePath: string,
+  structName: string,
+  fileStructs: string[] = [structName]
+): { journey: Journey; step: Step } | null {
+  const steps = stepsForFile(defs, filePath);
+  const exact = steps.find(({ step }) => step.screen === structName);
+  if (exact) return exact;
+  if (structName !== fileStructs[0]) return null;
+  return steps.find(({ step }) => !fileStructs.includes(step.screen)) ?? null;
+}
+
+/** slugify(structName), suffixed when another view already took that ID in the journey */
+function uniqueStepId(journey: Journey, structName: string): string {
+  const base = slugify(structName);
+  let id = base;
+  for (let n = 2; journey.steps.some((s) => s.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+/**
+ * Build next[] for a step of journeyId from parsed edges, resolving
+ * destination view names to step refs on the same platform; each target is
+ * paired with the parsed trigger text, if any. A destination with a step in
+ * the journey links there, otherwise to its step in each journey sharing it.
+ */
+function resolveEdges(
+  parsedView: ParsedView,
+  defs: WorkflowDefs,
+  journeyId: string
+): { stepId: string; label?: string }[] {
+  const platform = parsedView.platform ?? "ios";
+  const edges: { stepId: string; label?: string }[] = [];
   for (const edge of parsedView.presentsTo) {
-    for (const journey of defs.journeys) {
-      for (const step of journey.steps) {
-        if (step.screen === edge.destination && !nextIds.includes(step.id)) {
-          nextIds.push(step.id);
-        }
-      }
+    const targets = defs.journeys.flatMap((journey) =>
+      journey.steps
+        .filter((step) => step.screen === edge.destination && (step.platform ?? "ios") === platform)
+        .map((step) => stepRef(journeyId, journey.id, step.id)),
+    );
+    const local = targets.filter((ref) => !ref.includes(":"));
+    for (const ref of local.length > 0 ? local : targets) {
+      const existing = edges.find((e) => e.stepId === ref);
+      if (!existing) edges.push({ stepId: ref, label: edge.label });
+      else existing.label ??= edge.label;
     }
   }
-  return nextIds;
+  return edges;
+}
+
+/**
+ * Phase for a new step from its neighbours in the journey: another view of
+ * the same file, else a step presenting it, else one it presents. Undefined
+ * when none of them has a phase yet.
+ */
+function suggestPhase(journey: Journey, step: Step, parsedViews: ParsedView[]): string | undefined {
+  const phased = journey.steps.filter((s) => s !== step && !s.deprecated && s.phase && s.phase !== "Unassigned");
+  const presenters = new Set(
+    parsedViews.filter((p) => p.presentsTo.some((e) => e.destination === step.screen)).map((p) => p.structName),
+  );
+  const neighbour =
+    phased.find((s) => s.swiftFile === step.swiftFile) ??
+    phased.find((s) => s.next.includes(step.id) || presenters.has(s.screen)) ??
+    phased.find((s) => step.next.includes(s.id));
+  return neighbour?.phase;
+}
+
+/**
+ * edgeLabels for newNext. Labels already on the step stay with their target
+ * (they may be hand-written, so are never replaced); parsed labels only fill
+ * edges that weren't in the old next[]. Undefined when nothing is labelled.
+ */
+function mergeEdgeLabels(
+  step: Step,
+  newNext: string[],
+  parsedLabels: Map<string, string | string[] | undefined>
+): EdgeLabels | undefined {
+  const labels: EdgeLabels = {};
+  for (const id of newNext) {
+    const label = step.next.includes(id) ? step.edgeLabels?.[id] : parsedLabels.get(id);
+    if (label) labels[id] = label;
+  }
+  return Object.keys(labels).length > 0 ? labels : undefined;
+}
+
+function entryKey(entry: StepEntryPoint): string {
+  return `${entry.kind}::${entry.detail ?? ""}::${entry.filePath}`;
+}
+
+/**
+ * Entry points landing on a step: those whose destination is its screen,
+ * unless another step of the journey already leads there (then the entry is
+ * a shortcut into the middle, not where the journey starts)
+ */
+function stepEntryPoints(journey: Journey, step: Step, entryPoints: EntryPoint[]): StepEntryPoint[] {
+  if (journey.steps.some((s) => s !== step && !s.deprecated && s.next.includes(step.id))) return [];
+
+  const found = new Map<string, StepEntryPoint>();
+  for (const { destination, ...entry } of entryPoints) {
+    if (destination === step.screen) found.set(entryKey(entry), { ...entry, synced: true });
+  }
+  return [...found.values()];
+}
+
+function listEntryPoints(entries: StepEntryPoint[]): string {
+  return entries.map((e) => e.detail ? `${e.kind} (${e.detail})` : e.kind).join(", ");
+}
+
+/** What a step's entry points now are, as a ChangeRecord detail */
+function entryPointsDetail(entries: StepEntryPoint[]): string {
+  const synced = entries.filter((e) => e.synced);
+  if (synced.length > 0) return `Entry points: ${listEntryPoints(synced)}`;
+  return entries.length > 0 ? "Synced entry points removed; hand-added ones kept" : "Entry points removed";
+}
+
+/** An edge's labels in a next[] / edgeLabels pair, one per line ("" when unlabelled or absent) */
+function labelOf(edges: { next: string[]; edgeLabels?: EdgeLabels }, stepId: string): string {
+  return edges.next.includes(stepId) ? branchLabels(edges.edgeLabels, stepId).join("\n") : "";
+}
+
+interface EdgeConflict {
+  stepId: string;
+  reason: string;
+}
+
+/**
+ * Three-way merge of next[]: the step's _synced base, the step as it is now
+ * (ours, possibly hand-edited) and the freshly parsed edges (theirs). Parsed
+ * edges come first in source order, then the hand-made ones.
+ */
+function mergeNext(step: Step, parsedNext: string[]): { next: string[]; conflicts: EdgeConflict[] } {
+  const base = step._synced;
+  const conflicts: EdgeConflict[] = [];
+
+  const kept = step.next.filter((id) => {
+    if (parsedNext.includes(id)) return true;
+    if (!base) {
+      conflicts.push({ stepId: id, reason: "not in the source, and no earlier sync shows whether it was added by hand" });
+      return true;
+    }
+    // Added by hand
+    if (!base.next.includes(id)) return true;
+    if (labelOf(step, id) !== labelOf(base, id)) {
+      conflicts.push({ stepId: id, reason: "removed in the source but relabelled by hand" });
+      return true;
+    }
+    return false;
+  });
+  // Parsed edges removed by hand since the last sync stay removed
+  const added = parsedNext.filter((id) => !step.next.includes(id) && !base?.next.includes(id));
+
+  const result = new Set([...kept, ...added]);
+  return {
+    next: [...parsedNext.filter((id) => result.has(id)), ...kept.filter((id) => !parsedNext.includes(id))],
+    conflicts,
+  };
+}
+
+/** The _synced record for parsed edges, with the labels they ended up with */
+function syncedEdges(parsedNext: string[], step: { next: string[]; edgeLabels?: EdgeLabels }): SyncedEdges {
+  const labels: EdgeLabels = {};
+  for (const id of parsedNext) {
+    const label = step.next.includes(id) ? step.edgeLabels?.[id] : undefined;
+    if (label) labels[id] = label;
+  }
+  return Object.keys(labels).length > 0 ? { next: parsedNext, edgeLabels: labels } : { next: parsedNext };
 }
 
 // ── Main merge ────────────────────────────────────────────────────
@@ -151,104 +465,439 @@ function resolveNext(parsedView: ParsedView, defs: WorkflowDefs): string[] {
 export function merge(
   current: WorkflowDefs,
   scanResult: ScanResult,
-  parsedViews: ParsedView[]
+  parsedViews: ParsedView[],
+  config: SyncConfig = DEFAULT_CONFIG,
+  entryPoints?: EntryPoint[]
 ): MergeResult {
   // Deep clone to avoid mutating input
   const defs: WorkflowDefs = JSON.parse(JSON.stringify(current));
   const changes: ChangeRecord[] = [];
   let reviewCount = 0;
 
-  // Build lookup: structName → ParsedView
-  const parsedByStruct = new Map<string, ParsedView>(
-    parsedViews.map((p) => [p.structName, p])
-  );
-  const parsedByPath = new Map<string, ParsedView>(
-    parsedViews.map((p) => [p.filePath, p])
-  );
+  // Build lookup: file → the views it declares, in source order
+  const parsedByPath = new Map<string, ParsedView[]>();
+  for (const p of parsedViews) {
+    parsedByPath.set(p.filePath, [...(parsedByPath.get(p.filePath) ?? []), p]);
+  }
+  const structsIn = (filePath: string) => (parsedByPath.get(filePath) ?? []).map((p) => p.structName);
 
-  // ── 1. New files ──────────────────────────────────────────────
+  // ── 1. Renamed files ──────────────────────────────────────────
 
-  for (const file of scanResult.newFiles) {
-    const parsed = parsedByPath.get(file.path);
-    if (!parsed) continue; // couldn't parse struct name
+  // Renamed files whose content also changed get their edges re-resolved below
+  const modifiedFiles: ChangedFile[] = [...scanResult.modifiedFiles];
+  // Renames of files no step tracks yet are handled like new files
+  const newFiles: ChangedFile[] = [...scanResult.newFiles];
 
-    // Skip if a step already tracks this file
-    if (findStepByFile(defs, file.path)) continue;
+  for (const file of scanResult.renamedFiles ?? []) {
+    const moved = stepsForFile(defs, file.oldPath);
+    if (moved.length === 0) {
+      newFiles.push(file);
+      continue;
+    }
 
-    const journeyId = assignJourney(file.path, parsed.structName, parsed, defs);
-    const journey = ensureJourney(defs, journeyId);
+    // The struct may have been renamed with its file (FooView.swift → BarView.swift)
+    const structs = structsIn(file.path);
+    const primary = structs[0] && findStepByFile(defs, file.oldPath, structs[0], structs);
 
-    const stepId = slugify(parsed.structName);
-    const next = resolveNext(parsed, defs);
+    for (const { journey, step } of moved) {
+      const fields: Partial<Step> = { swiftFile: file.path };
+      if (primary && primary.step === step && step.screen !== structs[0]) fields.screen = structs[0];
 
-    const step: Step = {
-      id: stepId,
-      label: `TODO: ${parsed.structName}`,
-      screen: parsed.structName,
-      swiftFile: file.path,
-      type: parsed.inferredType,
-      phase: "Unassigned",
-      next,
-      _needsReview: true,
-    };
+      Object.assign(step, fields);
+      changes.push({
+        action: "rename",
+        journeyId: journey.id,
+        stepId: step.id,
+        detail: `Moved ${file.oldPath} → ${file.path}` +
+          (fields.screen ? ` (screen renamed to ${fields.screen})` : ""),
+        patch: { op: "set-fields", fields },
+      });
+    }
+    modifiedFiles.push(file);
+  }
+
+  // ── 2. Restored files ─────────────────────────────────────────
+
+  for (const file of [...newFiles]) {
+    const revived = stepsForFile(defs, file.path).filter(({ step }) => step.deprecated);
+    if (revived.length === 0) continue;
 
-    journey.steps.push(step);
-    reviewCount++;
+    for (const { journey, step } of revived) {
+      const since = step.deprecatedCommit ? ` since ${step.deprecatedCommit.slice(0, 7)}` : "";
+      const clear: (keyof Step)[] = ["deprecated", "deprecatedCommit", "deprecatedAt"];
+      for (const key of clear) delete step[key];
+      changes.push({
+        action: "revive",
+        journeyId: journey.id,
+        stepId: step.id,
+        detail: `Revived (file restored: ${file.path}; deprecated${since})`,
+        patch: { op: "set-fields", fields: {}, clear },
+      });
+    }
+    // Its views already have steps; their edges may have changed while it was gone
+    newFiles.splice(newFiles.indexOf(file), 1);
+    modifiedFiles.push(file);
+  }
+
+  // ── 3. New views ──────────────────────────────────────────────
+
+  const added: { step: Step; parsed: ParsedView; journey: Journey; placedBy: string }[] = [];
+  const placements: Placement[] = [];
+
+  // A bootstrap reports every file as new, tracked or not; only its screens
+  // become steps, not the rows and helper views declared alongside them
+  const reachable = scanResult.bootstrap ? reachableViews(parsedViews, entryPoints) : null;
+
+  // Every view of a new file, plus views newly declared in a modified one
+  for (const file of [...newFiles, ...modifiedFiles]) {
+    const structs = structsIn(file.path);
+    // Views of a modified file that no step tracks but were already there
+    // before this commit were left out on purpose (or by an earlier rule)
+    const declared = newFiles.includes(file) ? null : declaredInDiff(file.diff, structs);
+    const untracked = stepsForFile(defs, file.path).length === 0;
+
+    for (const parsed of parsedByPath.get(file.path) ?? []) {
+      if (declared && !declared.has(parsed.structName)) continue;
+      // The first view of an untracked file starts a flow if it presents others
+      const startsFlow = untracked && parsed.structName === structs[0] && parsed.presentsTo.length > 0;
+      if (reachable && !reachable.has(parsed.structName) && !startsFlow) continue;
+      // Skip if a step already tracks this view
+      if (findStepByFile(defs, file.path, parsed.structName, structs)) continue;
+
+      const { journeyId, placedBy } = assignJourney(parsed, parsedViews, defs, config);
+      const journey = ensureJourney(defs, journeyId);
+
+      const step: Step = {
+        id: uniqueStepId(journey, parsed.structName),
+        label: parsed.title ?? `TODO: ${parsed.structName}`,
+        screen: parsed.structName,
+        swiftFile: file.path,
+        ...(parsed.platform && { platform: parsed.platform }),
+        type: parsed.inferredType,
+        ...(parsed.typeConfidence !== undefined && { typeConfidence: parsed.typeConfidence }),
+        ...(parsed.typeEvidence && { typeEvidence: parsed.typeEvidence }),
+        phase: "Unassigned",
+        next: [],
+      };
+      // Views parsed without a confidence are treated as unsure
+      if ((parsed.typeConfidence ?? 0) < REVIEW_CONFIDENCE) step._needsReview = true;
+
+      journey.steps.push(step);
+      added.push({ step, parsed, journey, placedBy });
+    }
+  }
+
+  // New views may present each other (always the case on a bootstrap scan),
+  // so edges are resolved only once every new step exists
+  for (const { step, parsed, journey, placedBy } of added) {
+    const edges = resolveEdges(parsed, defs, journey.id);
+    const edgeLabels = mergeEdgeLabels(step, edges.map((e) => e.stepId), new Map(edges.map((e) => [e.stepId, e.label])));
+    step.next = edges.map((e) => e.stepId);
+    if (edgeLabels) step.edgeLabels = edgeLabels;
+    step._synced = syncedEdges(step.next, step);
+    step.phase = suggestPhase(journey, step, parsedViews) ?? step.phase;
+    if (step._needsReview) reviewCount++;
+    placements.push({ journeyId: journey.id, stepId: step.id, filePath: parsed.filePath, structName: parsed.structName, placedBy });
     changes.push({
       action: "add",
-      journeyId,
-      stepId,
-      detail: `Added ${parsed.structName} from ${file.path}`,
+      journeyId: journey.id,
+      stepId: step.id,
+      detail: `Added ${parsed.structName} from ${parsed.filePath}` +
+        (parsed.title ? ` as "${parsed.title}"` : "") +
+        (step.phase !== "Unassigned" ? ` in phase ${step.phase}` : "") +
+        ` (journey by ${placedBy})`,
+      patch: { op: "add-step", step: structuredClone(step) },
     });
   }
 
-  // ── 2. Removed files ─────────────────────────────────────────
+  // ── 4. Removed files ─────────────────────────────────────────
 
   for (const filePath of scanResult.removedFiles) {
-    const found = findStepByFile(defs, filePath);
-    if (!found) continue;
-
-    if (!found.step.deprecated) {
-      found.step.deprecated = true;
+    // The scanned HEAD stands in when the scan couldn't find the removing commit
+    const removal = scanResult.removals?.[filePath] ?? { sha: scanResult.currentSHA, date: scanResult.commitDate };
+    for (const { journey, step } of stepsForFile(defs, filePath)) {
+      if (step.deprecated) continue;
+      const fields: Partial<Step> = {
+        deprecated: true,
+        deprecatedCommit: removal.sha,
+        ...(removal.date && { deprecatedAt: removal.date }),
+      };
+      Object.assign(step, fields);
       changes.push({
         action: "deprecate",
-        journeyId: found.journey.id,
-        stepId: found.step.id,
+        journeyId: journey.id,
+        stepId: step.id,
         detail: `Marked deprecated (file removed: ${filePath})`,
+        patch: { op: "set-fields", fields },
       });
     }
   }
 
-  // ── 3. Modified files ─────────────────────────────────────────
+  // ── 5. Modified files ─────────────────────────────────────────
 
-  for (const file of scanResult.modifiedFiles) {
-    const parsed = parsedByPath.get(file.path);
-    if (!parsed) continue;
+  const justAdded = new Set(added.map((a) => a.step));
 
-    const found = findStepByFile(defs, file.path);
-    if (!found) continue;
+  for (const file of modifiedFiles) {
+    const structs = structsIn(file.path);
 
-    const { step } = found;
-    const newNext = resolveNext(parsed, defs);
+    for (const parsed of parsedByPath.get(file.path) ?? []) {
+      const found = findStepByFile(defs, file.path, parsed.structName, structs);
+      if (!found || justAdded.has(found.step)) continue;
 
-    // Only update next if it actually changed; preserve edgeLabels
-    const oldNextStr = JSON.stringify(step.next);
-    const newNextStr = JSON.stringify(newNext);
+      const { step } = found;
+      const edges = resolveEdges(parsed, defs, found.journey.id);
+      const parsedNext = edges.map((e) => e.stepId);
+      const parsedLabels = new Map(edges.map((e) => [e.stepId, e.label]));
+      const { next: newNext, conflicts } = mergeNext(step, parsedNext);
 
-    if (oldNextStr !== newNextStr) {
-      // If next shrank, trim edgeLabels accordingly
-      if (step.edgeLabels && newNext.length < step.edgeLabels.length) {
-        step.edgeLabels = step.edgeLabels.slice(0, newNext.length);
+      const oldNextStr = JSON.stringify(step.next);
+      const newNextStr = JSON.stringify(newNext);
+      const fields: Partial<Step> = {};
+      if (oldNextStr !== newNextStr) {
+        const labels = mergeEdgeLabels(step, newNext, parsedLabels);
+        fields.next = newNext;
+        // A step that had labels keeps an (empty) object so the patch can clear them
+        if (labels || step.edgeLabels) fields.edgeLabels = labels ?? {};
       }
-      step.next = newNext;
+      if (conflicts.length > 0) fields._needsReview = true;
+      // Steps synced before _synced existed only get one alongside a real change
+      const synced = syncedEdges(parsedNext, { next: newNext, edgeLabels: fields.edgeLabels ?? step.edgeLabels });
+      const baseChanged = JSON.stringify(synced) !== JSON.stringify(step._synced);
+      if (baseChanged && (step._synced || Object.keys(fields).length > 0)) fields._synced = synced;
+      if (Object.keys(fields).length === 0) continue;
+
+      Object.assign(step, structuredClone(fields));
       changes.push({
         action: "update-edges",
         journeyId: found.journey.id,
         stepId: step.id,
-        detail: `Updated next[] from ${oldNextStr} to ${newNextStr}`,
+        detail: fields.next
+          ? `Updated next[] from ${oldNextStr} to ${newNextStr}`
+          : `Parsed edges now ${JSON.stringify(parsedNext)}; next[] unchanged`,
+        patch: { op: "set-fields", fields },
+      });
+
+      if (conflicts.length === 0) continue;
+      reviewCount++;
+      changes.push({
+        action: "conflict",
+        journeyId: found.journey.id,
+        stepId: step.id,
+        detail: conflicts.map((c) => `Kept edge to ${c.stepId}: ${c.reason}`).join("; "),
+        // The code's side: the merge result without the kept edges
+        patch: { op: "remove-edges", targets: conflicts.map((c) => c.stepId) },
       });
     }
   }
 
-  return { json: defs, changes, reviewCount };
+  // ── 6. Entry points ─────────────────────────────────────────
+
+  for (const journey of entryPoints ? defs.journeys : []) {
+    for (const step of journey.steps) {
+      // iOS entry points say nothing about these; leave their field as set
+      if (step.deprecated || (step.platform ?? "ios") !== "ios") continue;
+      const parsed = stepEntryPoints(journey, step, entryPoints!);
+      // Hand-added entries stay, unless the code now declares the same one
+      const parsedKeys = new Set(parsed.map(entryKey));
+      const manual = (step.entryPoints ?? []).filter((e) => !e.synced && !parsedKeys.has(entryKey(e)));
+      const entries = [...parsed, ...manual];
+      const keysOf = (list: StepEntryPoint[]) => list.map((e) => `${entryKey(e)}::${e.synced ?? false}`).sort();
+      if (JSON.stringify(keysOf(step.entryPoints ?? [])) === JSON.stringify(keysOf(entries))) continue;
+
+      const fields: Partial<Step> = { entryPoints: entries };
+      Object.assign(step, structuredClone(fields));
+      changes.push({
+        action: "entry-points",
+        journeyId: journey.id,
+        stepId: step.id,
+        detail: entryPointsDetail(entries),
+        patch: { op: "set-fields", fields },
+      });
+    }
+  }
+
+  return { json: defs, changes, reviewCount, placements };
+}
+
+// ── Replay ────────────────────────────────────────────────────────
+
+/** A parsed-edges update replayed onto step: pass 5's three-way merge, against the step as it is now */
+function remergeEdges(step: Step, synced: SyncedEdges) {
+  const { next, conflicts } = mergeNext(step, synced.next);
+  if (JSON.stringify(next) !== JSON.stringify(step.next)) {
+    const labels = mergeEdgeLabels(step, next, new Map(synced.next.map((id) => [id, synced.edgeLabels?.[id]])));
+    step.next = next;
+    if (labels || step.edgeLabels) step.edgeLabels = labels ?? {};
+  }
+  if (conflicts.length > 0) step._needsReview = true;
+  step._synced = syncedEdges(synced.next, step);
+}
+
+/** Apply a patch that changes an existing step, in place */
+function applyPatch(step: Step, patch: Exclude<ChangePatch, { op: "add-step" }>) {
+  if (patch.op === "remove-edges") {
+    step.next = step.next.filter((id) => !patch.targets.includes(id));
+    for (const id of patch.targets) delete step.edgeLabels?.[id];
+    return;
+  }
+  const { _synced, next, edgeLabels, ...fields } = structuredClone(patch.fields);
+  Object.assign(step, _synced ? fields : { ...fields, ...(next && { next }), ...(edgeLabels && { edgeLabels }) });
+  for (const key of patch.clear ?? []) delete step[key];
+  if (_synced) remergeEdges(step, _synced);
+}
+
+/**
+ * Apply ChangeRecord patches onto current (not mutated), in order. Adds are
+ * skipped if the step already exists; updates are skipped if the step no
+ * longer does. Patches are stored as JSON, where a field can't be set to
+ * undefined, so set-fields lists the fields it removes in clear.
+ */
+export function applyChanges(current: WorkflowDefs, changes: ChangeRecord[]): WorkflowDefs {
+  const defs: WorkflowDefs = JSON.parse(JSON.stringify(current));
+
+  for (const change of changes) {
+    const { patch } = change;
+    if (patch.op === "add-step") {
+      const journey = ensureJourney(defs, change.journeyId);
+      if (!journey.steps.some((s) => s.id === patch.step.id)) {
+        journey.steps.push(structuredClone(patch.step));
+      }
+    } else {
+      const journey = defs.journeys.find((j) => j.id === change.journeyId);
+      const step = journey?.steps.find((s) => s.id === change.stepId);
+      if (step) applyPatch(step, patch);
+    }
+  }
+
+  return defs;
+}
+
+/** Fields a set-fields patch writes or clears */
+function patchKeys(patch: ChangePatch): string[] {
+  return patch.op === "set-fields" ? [...Object.keys(patch.fields), ...(patch.clear ?? [])] : [];
+}
+
+/** What a set of step fields does, one phrase per field (deprecatedCommit / At go with deprecated) */
+function describeFields(fields: Partial<Step>, clear: (keyof Step)[] = []): string[] {
+  const parts: string[] = [];
+  if (clear.includes("deprecated")) parts.push("revived");
+  else if (clear.length > 0) parts.push(`cleared ${clear.join(", ")}`);
+  if (fields.swiftFile !== undefined) parts.push(`moved to ${fields.swiftFile}`);
+  if (fields.screen !== undefined) parts.push(`screen renamed to ${fields.screen}`);
+  if (fields.deprecated) parts.push("marked deprecated");
+  if (fields.next) parts.push(`next[] ${JSON.stringify(fields.next)}`);
+  else if (fields._synced) parts.push(`parsed edges ${JSON.stringify(fields._synced.next)}`);
+  if (fields.entryPoints) {
+    parts.push(fields.entryPoints.length > 0 ? `entry points: ${listEntryPoints(fields.entryPoints)}` : "entry points removed");
+  }
+  if (fields._needsReview) parts.push("flagged for review");
+  const described = new Set(["swiftFile", "screen", "deprecated", "deprecatedCommit", "deprecatedAt", "next", "edgeLabels", "_synced", "entryPoints", "_needsReview"]);
+  for (const key of Object.keys(fields)) if (!described.has(key)) parts.push(`${key} set`);
+  return parts;
+}
+
+/** A queued change's detail rebuilt from its patch, after rebaseChanges changed the patch */
+function describePatch(change: ChangeRecord): string {
+  const { patch } = change;
+  if (patch.op === "remove-edges") return `Removes edges to ${patch.targets.join(", ")}`;
+  if (patch.op === "set-fields") {
+    const text = describeFields(patch.fields, patch.clear).join("; ");
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  const { step } = patch;
+  // Where the add was placed isn't in the patch; keep what the merge said
+  const placed = change.detail.lastIndexOf(" (journey by ");
+  const extras = describeFields({
+    ...(step.next.length > 0 && { next: step.next }),
+    ...(step.entryPoints?.length && { entryPoints: step.entryPoints }),
+    ...(step.deprecated && { deprecated: true }),
+  });
+  return `Added ${step.screen} from ${step.swiftFile}` +
+    (step.label.startsWith("TODO: ") ? "" : ` as "${step.label}"`) +
+    (step.phase !== "Unassigned" ? ` in phase ${step.phase}` : "") +
+    (placed === -1 ? "" : change.detail.slice(placed)) +
+    extras.map((part) => `; ${part}`).join("");
+}
+
+/**
+ * Fold a cycle's changes into those still queued for review, which the cycle
+ * was merged on top of (staged mode). A change to a step whose add is still
+ * queued goes into that add. A queued set-fields loses the fields a newer
+ * change sets again; one left with nothing is superseded. Updates queued in
+ * place (rewriting the detail of each change it alters); returns the changes
+ * still to queue and the superseded ones.
+ */
+export function rebaseChanges(
+  queued: ChangeRecord[],
+  incoming: ChangeRecord[]
+): { changes: ChangeRecord[]; superseded: ChangeRecord[] } {
+  const changes: ChangeRecord[] = [];
+  const superseded = new Set<ChangeRecord>();
+
+  for (const change of incoming) {
+    const { patch } = change;
+    const earlier = queued.filter((q) =>
+      !superseded.has(q) && q.journeyId === change.journeyId && q.stepId === change.stepId);
+    const add = earlier.find((q) => q.patch.op === "add-step");
+    if (patch.op !== "add-step" && add?.patch.op === "add-step") {
+      applyPatch(add.patch.step, patch);
+      add.detail = describePatch(add);
+      continue;
+    }
+
+    const keys = patchKeys(patch);
+    for (const q of earlier) {
+      if (q.patch.op !== "set-fields" || !patchKeys(q.patch).some((k) => keys.includes(k))) continue;
+      const fields = q.patch.fields as Record<string, unknown>;
+      for (const key of keys) delete fields[key];
+      const clear = q.patch.clear?.filter((k) => !keys.includes(k));
+      if (clear?.length) q.patch.clear = clear;
+      else delete q.patch.clear;
+      if (patchKeys(q.patch).length === 0) superseded.add(q);
+      else q.detail = describePatch(q);
+    }
+    changes.push(change);
+  }
+
+  return { changes, superseded: [...superseded] };
+}
+
+/** The steps a change needs to exist, as "journeyId:stepId": its own, and those its edges lead to */
+function stepsNeeded(change: ChangeRecord): string[] {
+  const { patch } = change;
+  const next = patch.op === "add-step" ? patch.step.next
+    : patch.op === "set-fields" ? patch.fields.next ?? patch.fields._synced?.next ?? []
+    : [];
+  const refs = next.map((id) => parseStepRef(id, change.journeyId));
+  if (patch.op !== "add-step") refs.push({ journeyId: change.journeyId, stepId: change.stepId });
+  return refs.map((ref) => `${ref.journeyId}:${ref.stepId}`);
+}
+
+/**
+ * The queued adds a change can't be applied without, in queue order: the add
+ * of its own step and of each step its edges lead to, and theirs in turn
+ */
+export function changeDependencies<T extends ChangeRecord>(change: T, queued: T[]): T[] {
+  const adds = new Map<string, T>();
+  for (const q of queued) {
+    if (q.patch.op === "add-step") adds.set(`${q.journeyId}:${q.stepId}`, q);
+  }
+
+  const needed = new Set<T>();
+  const visit = (c: T) => {
+    for (const key of stepsNeeded(c)) {
+      const add = adds.get(key);
+      if (!add || add === change || needed.has(add)) continue;
+      needed.add(add);
+      visit(add);
+    }
+  };
+  visit(change);
+  return queued.filter((q) => needed.has(q));
+}
+
+/** The queued changes that depend on a change (an add), so go with it when it is rejected */
+export function dependentChanges<T extends ChangeRecord>(change: T, queued: T[]): T[] {
+  return queued.filter((q) => q !== change && changeDependencies(q, queued).includes(change));
 }
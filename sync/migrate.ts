@@ -0,0 +1,55 @@
+/**
+ * sync/migrate.ts — Pure function: bring an older WorkflowDefs up to the current shape.
+ *
+ * edgeLabels used to be an array aligned with next[] by index, so reordering
+ * or inserting an edge moved every later label onto the wrong branch. They
+ * are now keyed by target step ID (on steps and in their _synced record).
+ * Repeated targets in next[] (several buttons leading to one screen) become a
+ * single next[] entry whose label is the list of its branches' labels, e.g.
+ * ["PDF", "CSV"], so each branch keeps its own.
+ * Readers of workflow-defs.json migrate on load; `bun migrate-workflows.ts`
+ * rewrites the file once.
+ */
+
+import type { EdgeLabels, WorkflowDefs } from "./merge";
+
+/**
+ * Positional labels → labels by target. A repeated target gets one label per
+ * branch ("" for an unlabelled one); targets with no labels at all are left out.
+ */
+export function edgeLabelsByTarget(next: string[], labels: string[]): EdgeLabels {
+  const grouped = new Map<string, string[]>();
+  next.forEach((id, i) => {
+    grouped.set(id, [...(grouped.get(id) ?? []), labels[i] ?? ""]);
+  });
+  const keyed: EdgeLabels = {};
+  for (const [id, group] of grouped) {
+    if (!group.some(Boolean)) continue;
+    keyed[id] = group.length === 1 ? group[0]! : group;
+  }
+  return keyed;
+}
+
+function migrateEdges(edges: { next: string[]; edgeLabels?: unknown }): boolean {
+  if (!Array.isArray(edges.edgeLabels)) return false;
+  const labels = edgeLabelsByTarget(edges.next ?? [], edges.edgeLabels);
+  edges.next = [...new Set(edges.next ?? [])];
+  if (Object.keys(labels).length > 0) edges.edgeLabels = labels;
+  else delete edges.edgeLabels;
+  return true;
+}
+
+/** A copy of defs with array edgeLabels converted, and how many steps needed it */
+export function migrateWorkflowDefs(defs: WorkflowDefs): { json: WorkflowDefs; migrated: number } {
+  const json: WorkflowDefs = JSON.parse(JSON.stringify(defs));
+  let migrated = 0;
+
+  for (const journey of json.journeys ?? []) {
+    for (const step of journey.steps ?? []) {
+      const changed = migrateEdges(step);
+      if ((step._synced && migrateEdges(step._synced)) || changed) migrated++;
+    }
+  }
+
+  return { json, migrated };
+}
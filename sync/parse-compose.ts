@@ -0,0 +1,477 @@
+/**
+ * sync/parse-compose.ts — Pure function: parse a Jetpack Compose (Kotlin) file → ParsedView[].
+ *
+ * The Android counterpart of parse.ts. Kotlin's comments, strings and
+ * brackets tokenize like Swift's, so it reuses sync/lexer.ts. A screen is a
+ * @Composable function named *Screen, routed to by a NavHost, or shown in a
+ * ModalBottomSheet; previews are skipped. Edges come from navigate(route)
+ * calls, resolved through the NavHost's composable(route) { … } destinations
+ * (NavGraph, possibly declared in another file), and from ModalBottomSheet
+ * content. Navigation wired up inside a composable(route) block — the usual
+ * `HomeScreen(onOpen = { navController.navigate("note/$id") })` — belongs to
+ * that block's screen.
+ */
+
+import {
+  codeOnly, isIdent, isPunct, keepRanges, literalText, matchEvidence, matchingClose, readCall, splitArgs, tokenize,
+} from "./lexer";
+import type { Call, Token } from "./lexer";
+import type { NavEdge, ParsedView, RouteMap, TypeInference } from "./parse";
+
+/** A navigate(route) site, before the route is resolved to a screen */
+export interface RouteCall {
+  route: string;
+  label?: string;
+}
+
+export interface NavGraph {
+  /** Normalized route ("note/*", "Routes.HOME", "NoteDetail") → destination composables */
+  routes: RouteMap;
+  /** navigate() calls inside a composable(route) { … } block, by that block's screen */
+  calls: Map<string, RouteCall[]>;
+}
+
+// Material / foundation composables: never screens, but their content is searched
+const COMPOSE_BUILTINS = new Set([
+  "Column", "Row", "Box", "BoxWithConstraints", "Scaffold", "Surface", "Card", "ElevatedCard", "OutlinedCard",
+  "LazyColumn", "LazyRow", "LazyVerticalGrid", "LazyHorizontalGrid", "FlowRow", "FlowColumn",
+  "Text", "Icon", "Image", "Spacer", "Divider", "HorizontalDivider", "VerticalDivider",
+  "Button", "TextButton", "OutlinedButton", "ElevatedButton", "FilledTonalButton", "IconButton",
+  "FloatingActionButton", "SmallFloatingActionButton", "ExtendedFloatingActionButton",
+  "TextField", "OutlinedTextField", "BasicTextField", "Checkbox", "Switch", "Slider", "RadioButton",
+  "TopAppBar", "CenterAlignedTopAppBar", "LargeTopAppBar", "MediumTopAppBar", "BottomAppBar",
+  "NavigationBar", "NavigationBarItem", "NavigationRail", "NavigationDrawerItem", "ModalNavigationDrawer",
+  "Tab", "TabRow", "ScrollableTabRow", "ListItem", "Badge", "BadgedBox", "SearchBar", "DockedSearchBar",
+  "AssistChip", "FilterChip", "InputChip", "SuggestionChip", "DropdownMenu", "DropdownMenuItem",
+  "AlertDialog", "Dialog", "ModalBottomSheet", "Snackbar", "SnackbarHost", "DatePicker", "TimePicker",
+  "CircularProgressIndicator", "LinearProgressIndicator", "AnimatedVisibility", "AnimatedContent", "Crossfade",
+  "MaterialTheme", "CompositionLocalProvider", "SelectionContainer", "NavHost",
+  "LaunchedEffect", "DisposableEffect", "SideEffect", "Modifier", "Color", "PaddingValues",
+  "RoundedCornerShape", "TextStyle", "Intent",
+]);
+
+/** splitArgs for Kotlin, whose named arguments are `name = value` */
+function kotlinArgs(tokens: Token[], args: NonNullable<Call["args"]>): ReturnType<typeof splitArgs> {
+  return splitArgs(tokens, args).map((arg) => {
+    const named = arg.label === null && isIdent(tokens[arg.from]) &&
+      isPunct(tokens[arg.from + 1], "=") && !isPunct(tokens[arg.from + 2], "=");
+    return named ? { label: tokens[arg.from]!.text, from: arg.from + 2, to: arg.to } : arg;
+  });
+}
+
+// ── Composable functions ──────────────────────────────────────────
+
+const FUN_MODIFIERS = new Set(["private", "internal", "public", "protected", "override", "inline", "suspend", "open"]);
+
+interface ComposableFun {
+  name: string;
+  annotations: string[];
+  /** Indices of the body's `{` and `}` */
+  open: number;
+  close: number;
+}
+
+/** Index of the `(` closing at tokens[close] */
+function matchingOpen(tokens: Token[], close: number): number {
+  let depth = 0;
+  for (let i = close; i >= 0; i--) {
+    if (isPunct(tokens[i], ")")) depth++;
+    else if (isPunct(tokens[i], "(") && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Annotation names before the `fun` at tokens[i]: @Composable, @OptIn(…), @Preview(…) */
+function annotationsBefore(tokens: Token[], i: number): string[] {
+  const names: string[] = [];
+  let j = i - 1;
+  while (j >= 0) {
+    const t = tokens[j]!;
+    if (isIdent(t) && FUN_MODIFIERS.has(t.text)) {
+      j--;
+    } else if (isIdent(t) && isPunct(tokens[j - 1], "@")) {
+      names.push(t.text);
+      j -= 2;
+    } else if (isPunct(t, ")")) {
+      const open = matchingOpen(tokens, j);
+      if (!isIdent(tokens[open - 1]) || !isPunct(tokens[open - 2], "@")) break;
+      names.push(tokens[open - 1]!.text);
+      j = open - 3;
+    } else {
+      break;
+    }
+  }
+  return names;
+}
+
+/** Every `@Composable fun Name(…) { … }`; expression-bodied and lowercase helpers are skipped */
+function composableFunctions(tokens: Token[]): ComposableFun[] {
+  const found: ComposableFun[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isIdent(tokens[i], "fun")) continue;
+    let j = i + 1;
+    if (isPunct(tokens[j], "<")) {
+      while (j < tokens.length && !isPunct(tokens[j], ">")) j++;
+      j++;
+    }
+    // Receiver: fun ColumnScope.NoteRow(…)
+    while (isIdent(tokens[j]) && isPunct(tokens[j + 1], ".")) j += 2;
+    if (!isIdent(tokens[j]) || !/^[A-Z]/.test(tokens[j]!.text) || !isPunct(tokens[j + 1], "(")) continue;
+
+    const annotations = annotationsBefore(tokens, i);
+    if (!annotations.includes("Composable")) continue;
+
+    // Skip an optional `: Unit` return type
+    let k = matchingClose(tokens, j + 1) + 1;
+    while (k < tokens.length && !isPunct(tokens[k], "{") && !isPunct(tokens[k], "=") && !isIdent(tokens[k], "fun")) k++;
+    if (!isPunct(tokens[k], "{")) continue;
+
+    found.push({ name: tokens[j]!.text, annotations, open: k, close: matchingClose(tokens, k) });
+  }
+  return found;
+}
+
+function isPreview(fn: ComposableFun): boolean {
+  return fn.annotations.some((a) => a.endsWith("Preview")) || fn.name.endsWith("Preview");
+}
+
+/** Non-builtin composables called in tokens[from, to), looking through layout containers */
+function composablesIn(tokens: Token[], from: number, to: number): string[] {
+  const names: string[] = [];
+  for (let i = from; i < to; i++) {
+    const t = tokens[i]!;
+    if (!isIdent(t) || !/^[A-Z]/.test(t.text) || isPunct(tokens[i - 1], ".")) continue;
+    if (!isPunct(tokens[i + 1], "(") && !isPunct(tokens[i + 1], "{")) continue;
+    if (COMPOSE_BUILTINS.has(t.text)) continue;
+    if (!names.includes(t.text)) names.push(t.text);
+    // Lambdas passed to a destination are its own content
+    i = readCall(tokens, i + 1).end - 1;
+  }
+  return names;
+}
+
+// ── Routes ────────────────────────────────────────────────────────
+
+/**
+ * Route key for the expression in tokens[from, to). String routes drop the
+ * query and turn argument segments into "*": "note/{id}", "note/$id" and
+ * "note/" + id all become "note/*". Type-safe routes key by class name
+ * (NoteDetail(id) ~ composable<NoteDetail>); constants by their source text.
+ */
+function routeKey(tokens: Token[], from: number, to: number): string | null {
+  const first = tokens[from];
+  if (!first || to <= from) return null;
+  if (first.kind === "string") {
+    const route = (first.value ?? "") + (to - from > 1 ? "*" : "");
+    return route.split("?")[0]!.split("/").map((seg) => (/[{$*]/.test(seg) ? "*" : seg)).join("/");
+  }
+  if (isIdent(first) && /^[A-Z]/.test(first.text) && isPunct(tokens[from + 1], "(")) return first.text;
+  return tokens.slice(from, to).map((t) => t.text).join("");
+}
+
+interface RouteBlock {
+  screens: string[];
+  /** Token range of the composable(route) { … } content */
+  from: number;
+  to: number;
+}
+
+/** composable("route") { Screen() } / composable<Route> { … } blocks, with their route keys */
+function routeBlocks(tokens: Token[]): { key: string; block: RouteBlock }[] {
+  const blocks: { key: string; block: RouteBlock }[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isIdent(tokens[i], "composable") || isIdent(tokens[i - 1], "fun")) continue;
+    let j = i + 1;
+    let key: string | null = null;
+    if (isPunct(tokens[j], "<") && isIdent(tokens[j + 1])) {
+      key = tokens[j + 1]!.text;
+      while (j < tokens.length && !isPunct(tokens[j], ">")) j++;
+      j++;
+    }
+    if (!isPunct(tokens[j], "(") && !isPunct(tokens[j], "{")) continue;
+
+    const call = readCall(tokens, j);
+    if (call.args && !key) {
+      const args = kotlinArgs(tokens, call.args);
+      const route = args.find((a) => a.label === "route") ?? args.find((a) => a.label === null);
+      if (route) key = routeKey(tokens, route.from, route.to);
+    }
+    const content = call.closures[0];
+    if (!key || !content) continue;
+
+    const screens = composablesIn(tokens, content.open + 1, content.close);
+    if (screens.length > 0) blocks.push({ key, block: { screens, from: content.open + 1, to: content.close } });
+  }
+  return blocks;
+}
+
+// ── Labels ────────────────────────────────────────────────────────
+
+const BUTTONS = new Set([
+  "Button", "TextButton", "OutlinedButton", "ElevatedButton", "FilledTonalButton", "IconButton",
+  "FloatingActionButton", "SmallFloatingActionButton", "ExtendedFloatingActionButton",
+  "DropdownMenuItem", "NavigationBarItem", "NavigationDrawerItem", "ListItem",
+]);
+
+/** A button-like call and the token range it spans (its onClick included) */
+interface Trigger {
+  title?: string;
+  from: number;
+  to: number;
+}
+
+/** First Text("…") / Text(text = "…") literal in tokens[from, to) */
+function textIn(tokens: Token[], from: number, to: number): string | undefined {
+  for (let i = from; i < to; i++) {
+    if (!isIdent(tokens[i], "Text") || !isPunct(tokens[i + 1], "(")) continue;
+    const call = readCall(tokens, i + 1);
+    const arg = kotlinArgs(tokens, call.args!).find((a) => a.label === null || a.label === "text");
+    const title = arg && arg.to - arg.from === 1 ? literalText(tokens[arg.from]) : undefined;
+    if (title) return title;
+  }
+  return undefined;
+}
+
+function findTriggers(tokens: Token[]): Trigger[] {
+  const triggers: Trigger[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isIdent(tokens[i]) || !BUTTONS.has(tokens[i]!.text)) continue;
+    if (!isPunct(tokens[i + 1], "(") && !isPunct(tokens[i + 1], "{")) continue;
+    const call = readCall(tokens, i + 1);
+    triggers.push({ title: textIn(tokens, i + 1, call.end), from: i, to: call.end });
+  }
+  return triggers;
+}
+
+function innermost(triggers: Trigger[], i: number): Trigger | undefined {
+  return triggers
+    .filter((t) => t.from <= i && i < t.to)
+    .sort((a, b) => (a.to - a.from) - (b.to - b.from))[0];
+}
+
+/** Last identifier of the `if (…) {` condition whose block holds tokens[i]: `if (showSheet)` → showSheet */
+function enclosingCondition(tokens: Token[], i: number): string | undefined {
+  for (let k = i - 1; k >= 0; k--) {
+    if (!isIdent(tokens[k], "if") || !isPunct(tokens[k + 1], "(")) continue;
+    const close = matchingClose(tokens, k + 1);
+    if (!isPunct(tokens[close + 1], "{") || matchingClose(tokens, close + 1) < i) continue;
+    for (let j = close - 1; j > k + 1; j--) if (isIdent(tokens[j])) return tokens[j]!.text;
+    return undefined;
+  }
+  return undefined;
+}
+
+/** `state = true` (not `==`, false or null) inside tokens[from, to) */
+function setsState(tokens: Token[], state: string, from: number, to: number): boolean {
+  for (let i = from; i < to; i++) {
+    if (!isIdent(tokens[i], state) || !isPunct(tokens[i + 1], "=") || isPunct(tokens[i + 2], "=")) continue;
+    if (!isIdent(tokens[i + 2], "false") && !isIdent(tokens[i + 2], "null")) return true;
+  }
+  return false;
+}
+
+// ── Edges ─────────────────────────────────────────────────────────
+
+/** navigate(route) calls in tokens[from, to), skipping ranges that belong to other screens */
+function navigateCalls(
+  tokens: Token[],
+  from: number,
+  to: number,
+  triggers: Trigger[],
+  skip: { from: number; to: number }[] = [],
+): RouteCall[] {
+  const calls: RouteCall[] = [];
+  for (let i = from; i < to; i++) {
+    const inner = skip.find((r) => r.from <= i && i < r.to);
+    if (inner) {
+      i = inner.to;
+      continue;
+    }
+    if (!isIdent(tokens[i], "navigate") || !isPunct(tokens[i + 1], "(") || isIdent(tokens[i - 1], "fun")) continue;
+    const args = kotlinArgs(tokens, readCall(tokens, i + 1).args!);
+    const route = args.find((a) => a.label === "route") ?? args.find((a) => a.label === null);
+    const key = route && routeKey(tokens, route.from, route.to);
+    if (!key) continue;
+
+    const call: RouteCall = { route: key };
+    const title = innermost(triggers, i)?.title;
+    if (title) call.label = title;
+    calls.push(call);
+  }
+  return calls;
+}
+
+/** ModalBottomSheet { Content() } → edges to Content, labelled by the button that opens it */
+function sheetEdges(tokens: Token[], from: number, to: number, triggers: Trigger[]): NavEdge[] {
+  const edges: NavEdge[] = [];
+  for (let i = from; i < to; i++) {
+    if (!isIdent(tokens[i], "ModalBottomSheet")) continue;
+    if (!isPunct(tokens[i + 1], "(") && !isPunct(tokens[i + 1], "{")) continue;
+    const call = readCall(tokens, i + 1);
+    const content = call.closures[0];
+    const contentArg = call.args && kotlinArgs(tokens, call.args).find((a) => a.label === "content");
+    const range = content ? { from: content.open + 1, to: content.close } : contentArg;
+    if (!range) continue;
+
+    const state = enclosingCondition(tokens, i);
+    const trigger = state ? triggers.find((t) => setsState(tokens, state, t.from, t.to)) : undefined;
+    for (const destination of composablesIn(tokens, range.from, range.to)) {
+      const edge: NavEdge = { destination, mechanism: "bottomSheet" };
+      if (trigger?.title) edge.label = trigger.title;
+      edges.push(edge);
+    }
+  }
+  return edges;
+}
+
+const MECHANISM_ORDER = ["navigate", "bottomSheet"];
+
+function resolveCalls(calls: RouteCall[], routes: RouteMap): NavEdge[] {
+  return calls.flatMap((call) =>
+    (routes.get(call.route) ?? []).map((destination) => {
+      const edge: NavEdge = { destination, mechanism: "navigate" };
+      if (call.label) edge.label = call.label;
+      return edge;
+    }),
+  );
+}
+
+/** One edge per destination + mechanism, grouped by mechanism; a later duplicate may fill a missing label */
+function dedupe(found: NavEdge[]): NavEdge[] {
+  const edges: NavEdge[] = [];
+  const byKey = new Map<string, NavEdge>();
+  for (const mechanism of MECHANISM_ORDER) {
+    for (const edge of found) {
+      if (edge.mechanism !== mechanism) continue;
+      const key = `${edge.destination}::${edge.mechanism}`;
+      const existing = byKey.get(key);
+      if (existing) {
+        if (!existing.label && edge.label) existing.label = edge.label;
+        continue;
+      }
+      byKey.set(key, edge);
+      edges.push(edge);
+    }
+  }
+  return edges;
+}
+
+// ── Titles ────────────────────────────────────────────────────────
+
+const TOP_APP_BARS = new Set(["TopAppBar", "CenterAlignedTopAppBar", "MediumTopAppBar", "LargeTopAppBar"]);
+
+/** `TopAppBar(title = { Text("Settings") })` in tokens[from, to) */
+function findTitle(tokens: Token[], from: number, to: number): string | undefined {
+  for (let i = from; i < to; i++) {
+    if (!TOP_APP_BARS.has(tokens[i]!.text) || !isIdent(tokens[i]) || !isPunct(tokens[i + 1], "(")) continue;
+    const arg = kotlinArgs(tokens, readCall(tokens, i + 1).args!).find((a) => a.label === "title");
+    const title = arg && textIn(tokens, arg.from, arg.to);
+    if (title) return title;
+  }
+  return undefined;
+}
+
+// ── Type inference ────────────────────────────────────────────────
+
+const TEXT_INPUTS = /\b(TextField|OutlinedTextField|BasicTextField|SecureTextField)\s*[({]/;
+const INPUT_INDICATORS = /\b(TextField|OutlinedTextField|BasicTextField|SecureTextField|Checkbox|Switch|Slider|RangeSlider|RadioButton|DatePicker|TimePicker|ExposedDropdownMenuBox)\s*[({]/;
+const BUTTON_INDICATORS = /\b(Button|TextButton|OutlinedButton|ElevatedButton|FilledTonalButton|IconButton|FloatingActionButton|ExtendedFloatingActionButton)\s*[({]/;
+const DISMISS_INDICATORS = /\b(popBackStack|navigateUp|onDismiss\w*|onBack|finish)\s*\(/;
+const CONDITIONAL_NAV = /\bif\s*\([^)]*\)\s*\{?[^}]*?\b(navigate)\s*\(/;
+const CHOICE_DIALOG = /\b(AlertDialog)\s*\((?=[\s\S]*\bconfirmButton\b)(?=[\s\S]*\bdismissButton\b)/;
+const UI_CONTENT = /\b(Text|Icon|Image|LazyColumn|LazyRow|LazyVerticalGrid|Column|Row|Box|Scaffold|Card|Surface)\s*[({]/;
+
+/** Same rules and confidence scale as parse.ts, with Compose's components */
+function inferType(code: string): TypeInference {
+  const input = matchEvidence(code, INPUT_INDICATORS);
+  if (input) return { type: "input", confidence: TEXT_INPUTS.test(code) ? 0.9 : 0.6, evidence: [input] };
+
+  // Decision: an AlertDialog with confirm + dismiss, or conditional navigation
+  const dialog = matchEvidence(code, CHOICE_DIALOG);
+  if (dialog) return { type: "decision", confidence: 0.8, evidence: [`${dialog} with confirm and dismiss buttons`] };
+  const conditional = matchEvidence(code, CONDITIONAL_NAV);
+  if (conditional) return { type: "decision", confidence: 0.55, evidence: [`conditional ${conditional}`] };
+
+  const button = matchEvidence(code, BUTTON_INDICATORS);
+  const dismiss = matchEvidence(code, DISMISS_INDICATORS);
+  if (button && dismiss) return { type: "action", confidence: 0.75, evidence: [button, dismiss] };
+
+  // System: nothing on screen (e.g. a LaunchedEffect that only routes)
+  const content = matchEvidence(code, UI_CONTENT);
+  if (!content && !button) return { type: "system", confidence: 0.7, evidence: ["no UI content"] };
+
+  if (button) return { type: "display", confidence: 0.5, evidence: [`${button} without dismiss`] };
+  return { type: "display", confidence: 0.75, evidence: ["no inputs, buttons or branches"] };
+}
+
+// ── Public API ───────────────────────────────────────────────────
+
+function extractGraph(tokens: Token[]): NavGraph {
+  const graph: NavGraph = { routes: new Map(), calls: new Map() };
+  const triggers = findTriggers(tokens);
+  for (const { key, block } of routeBlocks(tokens)) {
+    graph.routes.set(key, block.screens);
+    const calls = navigateCalls(tokens, block.from, block.to, triggers);
+    const screen = block.screens[0]!;
+    if (calls.length > 0) graph.calls.set(screen, [...(graph.calls.get(screen) ?? []), ...calls]);
+  }
+  return graph;
+}
+
+export function emptyNavGraph(): NavGraph {
+  return { routes: new Map(), calls: new Map() };
+}
+
+/** Later graphs' routes win; navigate() calls from every graph are kept */
+export function mergeNavGraphs(graphs: Iterable<NavGraph>): NavGraph {
+  const merged = emptyNavGraph();
+  for (const graph of graphs) {
+    for (const [key, screens] of graph.routes) merged.routes.set(key, screens);
+    for (const [screen, calls] of graph.calls) {
+      merged.calls.set(screen, [...(merged.calls.get(screen) ?? []), ...calls]);
+    }
+  }
+  return merged;
+}
+
+/** NavHost destinations declared in a file, for resolving navigate() calls in other files */
+export function parseNavGraph(content: string): NavGraph {
+  return extractGraph(tokenize(content));
+}
+
+export function parseKotlinFile(
+  filePath: string,
+  content: string,
+  graph: NavGraph = emptyNavGraph(),
+): ParsedView[] {
+  const tokens = tokenize(content);
+  const blocks = routeBlocks(tokens).map((b) => b.block);
+  const merged = mergeNavGraphs([graph, extractGraph(tokens)]);
+  const triggers = findTriggers(tokens);
+  const code = codeOnly(content);
+
+  const routed = new Set([...merged.routes.values()].flat());
+  const sheets = new Set(sheetEdges(tokens, 0, tokens.length, []).map((e) => e.destination));
+  const screens = composableFunctions(tokens).filter(
+    (fn) => !isPreview(fn) && (fn.name.endsWith("Screen") || routed.has(fn.name) || sheets.has(fn.name)),
+  );
+
+  return screens.map((fn) => {
+    const from = fn.open + 1;
+    // A NavHost inside a screen: its composable blocks' navigation belongs to their screens
+    const calls = [...navigateCalls(tokens, from, fn.close, triggers, blocks), ...(merged.calls.get(fn.name) ?? [])];
+    const body: [number, number] = [tokens[fn.open]!.start, tokens[Math.min(fn.close, tokens.length - 1)]!.end];
+    const inference = inferType(keepRanges(code, [body]));
+    const title = findTitle(tokens, from, fn.close);
+    return {
+      structName: fn.name,
+      filePath,
+      presentsTo: dedupe([...resolveCalls(calls, merged.routes), ...sheetEdges(tokens, from, fn.close, triggers)]),
+      inferredType: inference.type,
+      typeConfidence: inference.confidence,
+      typeEvidence: inference.evidence,
+      ...(title && { title }),
+      platform: "android",
+    };
+  });
+}
@@ -0,0 +1,321 @@
+/**
+ * sync/parse-uikit.ts — Pure function: parse a UIKit view controller file → ParsedView[].
+ *
+ * Same output shape as parse.ts, one per `class X: UIViewController` screen
+ * (including SLComposeServiceViewController share extensions). Edges come from
+ * present(_:animated:), pushViewController(_:animated:), show(_:sender:) and
+ * performSegue(withIdentifier:), resolved to the destination controller's class
+ * (or the SwiftUI view inside a UIHostingController). Segue identifiers are
+ * mapped to classes through the `segue.destination as? X` casts in prepare(for:).
+ */
+
+import {
+  codeOnly, declarations, isIdent, isPunct, lineAt, literalText, matchEvidence, matchingClose, readCall, scopeOf,
+  splitArgs, stringExpr, tokenize,
+} from "./lexer";
+import type { Declaration, Token } from "./lexer";
+import type { ButtonRole, NavEdge, ParsedView, TypeInference } from "./parse";
+
+// ── Class names ────────────────────────────────────────────────────
+
+const CONTROLLER_SUPERCLASS = /ViewController$|^UI(TabBar|Navigation|SplitView)Controller$/;
+
+/** Every `class Name: SomeViewController` declaration */
+function controllerDeclarations(decls: Declaration[]): Declaration[] {
+  return decls.filter((d) => d.keyword === "class" && CONTROLLER_SUPERCLASS.test(d.inherits[0] ?? ""));
+}
+
+// ── Controller expressions ────────────────────────────────────────
+
+// Containers whose argument is the screen actually shown
+const WRAPPER_ARGS: Record<string, string> = {
+  UINavigationController: "rootViewController",
+  UIHostingController: "rootView",
+};
+
+// Presented but never a screen of the app
+const NON_SCREENS = new Set(["UIAlertController", "UIActivityViewController", "UIDocumentPickerViewController"]);
+
+const STATEMENT_KEYWORDS = new Set(["let", "var", "return", "if", "guard", "for", "while", "switch", "case", "default"]);
+
+/** Index where the statement starting at tokens[from] ends (exclusive) */
+function statementEnd(tokens: Token[], source: string, from: number, limit: number): number {
+  for (let i = from; i < limit; i++) {
+    const t = tokens[i]!;
+    if (t.kind === "punct" && (t.text === "(" || t.text === "[" || t.text === "{")) {
+      i = matchingClose(tokens, i);
+      continue;
+    }
+    if (isPunct(t, "}") || isPunct(t, ";")) return i;
+    const newline = i > from && source.slice(tokens[i - 1]!.end, t.start).includes("\n");
+    // A new line continues the expression only for chained `.calls` / `as` casts
+    if (newline && !isPunct(t, ".") && !isIdent(t, "as")) return i;
+    if (i > from && isIdent(t) && STATEMENT_KEYWORDS.has(t.text)) return i;
+  }
+  return limit;
+}
+
+interface Scope {
+  tokens: Token[];
+  /** Local `let vc = …` → controller classes it holds */
+  vars: Map<string, string[]>;
+}
+
+/** Controller classes an expression evaluates to: Foo(), Foo.make(), x as! Foo, vc, wrappers */
+function controllersIn(scope: Scope, from: number, to: number): string[] {
+  const { tokens, vars } = scope;
+
+  // … as! Foo / as? Foo anywhere in the expression wins
+  for (let i = from; i < to - 2; i++) {
+    if (isIdent(tokens[i], "as") && (isPunct(tokens[i + 1], "!") || isPunct(tokens[i + 1], "?")) && isIdent(tokens[i + 2])) {
+      return screens([tokens[i + 2]!.text]);
+    }
+  }
+
+  const t = tokens[from];
+  if (!t || t.kind !== "ident") return [];
+
+  if (/^[A-Z]/.test(t.text)) {
+    const wrapped = WRAPPER_ARGS[t.text];
+    if (wrapped && isPunct(tokens[from + 1], "(")) {
+      const call = readCall(tokens, from + 1);
+      const arg = splitArgs(tokens, call.args!).find((a) => a.label === wrapped);
+      return arg ? controllersIn(scope, arg.from, arg.to) : [];
+    }
+    // Foo(…) or Foo.instantiate()
+    if (isPunct(tokens[from + 1], "(") || isPunct(tokens[from + 1], ".")) return screens([t.text]);
+    return [];
+  }
+
+  return vars.get(t.text) ?? [];
+}
+
+function screens(names: string[]): string[] {
+  return names.filter((n) => /^[A-Z]/.test(n) && !NON_SCREENS.has(n));
+}
+
+/** `let vc = Foo()` / `let vc: Foo = …` / `guard let vc = … as? Foo` */
+function localControllers(tokens: Token[], source: string): Map<string, string[]> {
+  const scope: Scope = { tokens, vars: new Map() };
+  for (let i = 0; i < tokens.length; i++) {
+    if (!(isIdent(tokens[i], "let") || isIdent(tokens[i], "var")) || !isIdent(tokens[i + 1])) continue;
+    const name = tokens[i + 1]!.text;
+    if (isPunct(tokens[i + 2], ":") && isIdent(tokens[i + 3]) && /^[A-Z]/.test(tokens[i + 3]!.text)) {
+      scope.vars.set(name, screens([tokens[i + 3]!.text]));
+    } else if (isPunct(tokens[i + 2], "=")) {
+      const end = statementEnd(tokens, source, i + 3, tokens.length);
+      const found = controllersIn(scope, i + 3, end);
+      if (found.length > 0) scope.vars.set(name, found);
+    }
+  }
+  return scope.vars;
+}
+
+// ── Segues ────────────────────────────────────────────────────────
+
+/**
+ * Segue identifier → destination classes, from prepare(for:sender:): each
+ * `segue.destination as? Foo` belongs to the identifier literal checked last.
+ */
+function segueDestinations(tokens: Token[]): Map<string, string[]> {
+  const segues = new Map<string, string[]>();
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isIdent(tokens[i], "func") || !isIdent(tokens[i + 1], "prepare")) continue;
+    let open = i + 2;
+    while (open < tokens.length && !isPunct(tokens[open], "{")) open++;
+    // Truncated file: the declaration never reaches a body
+    if (open >= tokens.length) continue;
+    const close = matchingClose(tokens, open);
+
+    let identifier: string | undefined;
+    for (let j = open + 1; j < close; j++) {
+      const t = tokens[j]!;
+      if (t.kind === "string") identifier = t.value;
+      if (isIdent(t, "destination") && isIdent(tokens[j + 1], "as") && isIdent(tokens[j + 3]) && identifier) {
+        segues.set(identifier, [...(segues.get(identifier) ?? []), ...screens([tokens[j + 3]!.text])]);
+      }
+    }
+  }
+  return segues;
+}
+
+// ── Labels ────────────────────────────────────────────────────────
+
+/** A UIAction / UIAlertAction and the token range of its handler */
+interface ActionScope {
+  title?: string;
+  role?: ButtonRole;
+  from: number;
+  to: number;
+  alert: boolean;
+  /** Source offset of the action */
+  at: number;
+}
+
+function findActions(tokens: Token[]): ActionScope[] {
+  const actions: ActionScope[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const name = tokens[i]!.text;
+    if ((name !== "UIAction" && name !== "UIAlertAction") || !isPunct(tokens[i + 1], "(")) continue;
+    const call = readCall(tokens, i + 1);
+    const args = splitArgs(tokens, call.args!);
+    const title = args.find((a) => a.label === "title");
+    const style = args.find((a) => a.label === "style");
+    const handler = args.find((a) => a.label === "handler");
+    const styleName = style && tokens[style.to - 1]!.text;
+    const closure = call.closures[0];
+
+    actions.push({
+      title: title ? literalText(tokens[title.from]) : undefined,
+      role: styleName === "destructive" || styleName === "cancel" ? styleName : undefined,
+      from: handler ? handler.from : closure ? closure.open + 1 : call.end,
+      to: handler ? handler.to : closure ? closure.close : call.end,
+      alert: name === "UIAlertAction",
+      at: tokens[i]!.start,
+    });
+  }
+  return actions;
+}
+
+// ── Edges ─────────────────────────────────────────────────────────
+
+const PRESENT_CALLS: Record<string, string> = {
+  present: "present",
+  pushViewController: "push",
+  show: "show",
+  showDetailViewController: "show",
+};
+
+const MECHANISM_ORDER = ["present", "push", "show", "segue"];
+
+function extractEdges(tokens: Token[], source: string, actions: ActionScope[]): NavEdge[] {
+  const scope: Scope = { tokens, vars: localControllers(tokens, source) };
+  const segues = segueDestinations(tokens);
+  const found: NavEdge[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i]!;
+    if (t.kind !== "ident" || !isPunct(tokens[i + 1], "(")) continue;
+    // Skip declarations: func present(…)
+    if (isIdent(tokens[i - 1], "func")) continue;
+
+    let destinations: string[] = [];
+    let mechanism: string;
+    const call = readCall(tokens, i + 1);
+    const args = splitArgs(tokens, call.args!);
+
+    if (PRESENT_CALLS[t.text] && args[0]) {
+      mechanism = PRESENT_CALLS[t.text]!;
+      destinations = controllersIn(scope, args[0].from, args[0].to);
+    } else if (t.text === "performSegue") {
+      mechanism = "segue";
+      const id = args.find((a) => a.label === "withIdentifier");
+      const identifier = id && tokens[id.from]?.kind === "string" ? tokens[id.from]!.value : undefined;
+      destinations = (identifier && segues.get(identifier)) || [];
+    } else {
+      continue;
+    }
+
+    // Innermost UIAction / UIAlertAction around the call labels it
+    const action = actions
+      .filter((a) => a.from <= i && i < a.to)
+      .sort((a, b) => (a.to - a.from) - (b.to - b.from))[0];
+    for (const destination of destinations) {
+      const edge: NavEdge = { destination, mechanism };
+      if (action?.title) edge.label = action.title;
+      if (action?.role) edge.role = action.role;
+      found.push(edge);
+    }
+  }
+
+  const edges: NavEdge[] = [];
+  const seen = new Set<string>();
+  for (const mechanism of MECHANISM_ORDER) {
+    for (const edge of found) {
+      const key = `${edge.destination}::${edge.mechanism}`;
+      if (edge.mechanism !== mechanism || seen.has(key)) continue;
+      seen.add(key);
+      edges.push(edge);
+    }
+  }
+  return edges;
+}
+
+// ── Titles ────────────────────────────────────────────────────────
+
+/** `title = "Settings"` / `navigationItem.title = NSLocalizedString("settings.title", …)` */
+function findTitle(tokens: Token[]): string | undefined {
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isIdent(tokens[i], "title") || !isPunct(tokens[i + 1], "=") || isPunct(tokens[i + 2], "=")) continue;
+    // Not a local `let title = …`, nor some other object's title
+    if (isIdent(tokens[i - 1], "let") || isIdent(tokens[i - 1], "var")) continue;
+    if (isPunct(tokens[i - 1], ".") && !isIdent(tokens[i - 2], "self") && !isIdent(tokens[i - 2], "navigationItem")) continue;
+    const title = stringExpr(tokens, i + 2);
+    if (title) return title;
+  }
+  return undefined;
+}
+
+// ── Type inference ────────────────────────────────────────────────
+
+const TEXT_INPUTS = /\b(UITextField|UITextView|UISearchBar)\b/;
+const INPUT_INDICATORS = /\b(UITextField|UITextView|UISearchBar|UIPickerView|UIDatePicker|UISwitch|UISlider|UIStepper)\b/;
+
+// Superclasses that are input screens whatever their body contains
+const INPUT_CONTROLLERS = new Set(["SLComposeServiceViewController"]);
+const DISMISS_INDICATORS = /\b(dismiss(?=\s*\(\s*animated)|completeRequest(?=\s*\()|popViewController(?=\s*\())/;
+const BUTTON_INDICATORS = /\b(UIButton|UIBarButtonItem|UIAction)\b|@IBAction/;
+const LIFECYCLE = /\b(viewDidLoad|loadView|viewWillAppear|viewDidAppear)\b/;
+
+/** Same rules and confidence scale as parse.ts, with UIKit's controls */
+function inferType(controller: Declaration, code: string, actions: ActionScope[]): TypeInference {
+  const superclass = controller.inherits[0]!;
+  if (INPUT_CONTROLLERS.has(superclass)) {
+    return { type: "input", confidence: 0.9, evidence: [`${superclass} subclass`] };
+  }
+  const input = matchEvidence(code, INPUT_INDICATORS);
+  if (input) return { type: "input", confidence: TEXT_INPUTS.test(code) ? 0.85 : 0.6, evidence: [input] };
+
+  // Decision: an alert or action sheet offering more than one choice
+  const alertActions = actions.filter((a) => a.alert);
+  if (alertActions.length > 1) {
+    const evidence = `${alertActions.length} UIAlertActions at line ${lineAt(code, alertActions[0]!.at)}`;
+    return { type: "decision", confidence: 0.75, evidence: [evidence] };
+  }
+
+  const button = matchEvidence(code, BUTTON_INDICATORS);
+  const dismiss = matchEvidence(code, DISMISS_INDICATORS);
+  if (button && dismiss) return { type: "action", confidence: 0.7, evidence: [button, dismiss] };
+
+  // System: no view lifecycle at all (e.g. a controller that only forwards)
+  const lifecycle = matchEvidence(code, LIFECYCLE);
+  if (!lifecycle) return { type: "system", confidence: 0.5, evidence: ["no view lifecycle methods"] };
+
+  return { type: "display", confidence: button ? 0.5 : 0.65, evidence: [button ? `${button} without dismiss` : lifecycle] };
+}
+
+// ── Public API ───────────────────────────────────────────────────
+
+export function parseUIKitFile(filePath: string, content: string): ParsedView[] {
+  const tokens = tokenize(content);
+  const decls = declarations(tokens);
+  const controllers = controllerDeclarations(decls);
+  const code = codeOnly(content);
+
+  return controllers.map((controller) => {
+    const scope = scopeOf(tokens, code, controller, decls, controllers);
+    const actions = findActions(scope.tokens);
+    const inference = inferType(controller, scope.code, actions);
+    const title = findTitle(scope.tokens);
+    return {
+      structName: controller.name,
+      filePath,
+      presentsTo: extractEdges(scope.tokens, content, actions),
+      inferredType: inference.type,
+      typeConfidence: inference.confidence,
+      typeEvidence: inference.evidence,
+      ...(title && { title }),
+      platform: "ios",
+    };
+  });
+}
@@ -1,105 +1,887 @@
 /**
- * sync/parse.ts — Pure function: parse a Swift UI file → ParsedView.
+ * sync/parse.ts — Pure function: parse a Swift UI file → ParsedView[].
  *
- * Extracts struct name, navigation destinations (presentsTo), and infers step type.
+ * One ParsedView per View struct in the file (main screen, sheet content,
+ * private subviews): struct name, navigation destinations (presentsTo) found
+ * in that struct's body and extensions, and the inferred step type.
+ * Structure comes from sync/lexer.ts tokens, so nested closures, comments and
+ * string literals don't confuse it; type inference runs its regexes over the
+ * source with comments and strings blanked out. UIKit view controllers in the
+ * same file come from parse-uikit.ts.
  */
 
+import {
+  codeOnly, declarations, isIdent, isPunct, lineAt, literalText, matchEvidence, matchingClose, readCall, scopeOf,
+  splitArgs, stringExpr, tokenize,
+} from "./lexer";
+import type { Call, Declaration, Token } from "./lexer";
+import { parseUIKitFile } from "./parse-uikit";
+
 export interface NavEdge {
   destination: string; // e.g. "FooView"
-  mechanism: string;   // e.g. "sheet", "navigationLink", etc.
+  mechanism: string;   // e.g. "sheet", "navigationLink", "alert", etc.
+  label?: string;      // triggering button/link text, e.g. "Settings"
+  role?: ButtonRole;   // alert / confirmationDialog button role
 }
 
+export type ButtonRole = "destructive" | "cancel";
+
+/**
+ * Route enum cases → destination views, from navigationDestination(for:)
+ * blocks, keyed "Route.detail". path.append(Route.detail(id)) and
+ * NavigationLink(value:) sites resolve through it, in any file.
+ */
+export type RouteMap = Map<string, string[]>;
+
+export type EntryKind = "openURL" | "externalEvents" | "userActivity" | "appIntent";
+
+/**
+ * A way into the app from outside it — a URL, Handoff / Spotlight activity
+ * or App Intent — and the view it lands on.
+ */
+export interface EntryPoint {
+  kind: EntryKind;
+  destination: string;
+  /** URL host / scheme matched, activity type or intent title, when the source names one */
+  detail?: string;
+  /** File declaring the handler */
+  filePath: string;
+}
+
+/** App a view belongs to; steps without one predate platform tagging (iOS) */
+export type Platform = "ios" | "android";
+
 export interface ParsedView {
   structName: string;
   filePath: string;
   presentsTo: NavEdge[];
   inferredType: "action" | "display" | "decision" | "input" | "system";
+  /** 0–1: how strongly the source supports inferredType */
+  typeConfidence?: number;
+  /** What inferredType rests on, e.g. "TextField at line 42" */
+  typeEvidence?: string[];
+  /** Screen title for the step label (.navigationTitle, else a prominent Text); may be a localization key */
+  title?: string;
+  platform?: Platform;
 }
 
-// ── Struct name ────────────────────────────────────────────────────
+/** A step type with the confidence and evidence behind it (every parser's inferType) */
+export interface TypeInference {
+  type: ParsedView["inferredType"];
+  confidence: number;
+  evidence: string[];
+}
 
-const STRUCT_RE = /\bstruct\s+(\w+)\s*:\s*View\b/;
+// ── Struct names ───────────────────────────────────────────────────
 
-function extractStructName(content: string): string | null {
-  const m = content.match(STRUCT_RE);
-  return m ? m[1] : null;
+/** Every `struct Name: …, View, …` declaration, nested ones included */
+function viewDeclarations(decls: Declaration[]): Declaration[] {
+  return decls.filter((d) => d.keyword === "struct" && d.inherits.includes("View"));
 }
 
 // ── Nav edge extraction ───────────────────────────────────────────
 
-// Each pattern: [regex, mechanism]
-// Regex must capture the destination view name in group 1.
-const NAV_PATTERNS: [RegExp, string][] = [
-  // .sheet(...) { FooView(
-  [/\.sheet\s*\([^)]*\)\s*\{[^{]*?(\w+View)\s*\(/gs, "sheet"],
-  // .fullScreenCover(...) { FooView(
-  [/\.fullScreenCover\s*\([^)]*\)\s*\{[^{]*?(\w+View)\s*\(/gs, "fullScreenCover"],
-  // NavigationLink { FooView(
-  [/NavigationLink\s*\{[^{]*?(\w+View)\s*\(/gs, "navigationLink"],
-  // .navigationDestination(...) { FooView(
-  [/\.navigationDestination\s*\([^)]*\)\s*\{[^{]*?(\w+View)\s*\(/gs, "navigationDestination"],
-  // TabView children: Tab { FooView( or direct child view mentions
-  [/\bTab\s*\{[^{]*?(\w+View)\s*\(/gs, "tabView"],
+// Modifiers whose arguments / trailing closure build the presented view
+const NAV_MODIFIERS: Record<string, string> = {
+  sheet: "sheet",
+  fullScreenCover: "fullScreenCover",
+  navigationDestination: "navigationDestination",
+  popover: "popover",
+  inspector: "inspector",
+};
+
+// Modifiers whose buttons are branches; an edge exists where a button's
+// action presents something else in the file
+const DIALOG_MODIFIERS: Record<string, string> = {
+  alert: "alert",
+  confirmationDialog: "confirmationDialog",
+};
+
+// Containers whose closure content is a destination (Tab { … }, TabView { … })
+const NAV_CONTAINERS: Record<string, string> = {
+  Tab: "tabView",
+  TabView: "tabView",
+};
+
+// Edges are grouped by mechanism in this order, so next[] stays stable
+const MECHANISM_ORDER = [
+  "sheet", "fullScreenCover", "navigationLink", "navigationDestination", "tabView",
+  "popover", "inspector", "alert", "confirmationDialog", "navigationPath",
 ];
 
-function extractEdges(content: string): NavEdge[] {
-  const edges: NavEdge[] = [];
-  const seen = new Set<string>(); // deduplicate
-
-  for (const [re, mechanism] of NAV_PATTERNS) {
-    // Reset lastIndex for global regexes
-    re.lastIndex = 0;
-    let m: RegExpExecArray | null;
-    while ((m = re.exec(content)) !== null) {
-      const destination = m[1];
-      const key = `${destination}::${mechanism}`;
-      if (!seen.has(key)) {
-        seen.add(key);
-        edges.push({ destination, mechanism });
+// Methods that push a route value: path.append(.detail(id)), router.push(Route.settings)
+const PATH_METHODS = new Set(["append", "push", "navigate"]);
+
+// Capitalised calls that are never app views: SwiftUI building blocks we look
+// through, plus common value types that show up in view arguments
+const BUILTIN_TYPES = new Set([
+  "AnyView", "AsyncImage", "Button", "Canvas", "Capsule", "Circle", "Color", "ColorPicker",
+  "ContentUnavailableView", "ControlGroup", "DatePicker", "DisclosureGroup", "Divider",
+  "Ellipse", "EmptyView", "Form", "Gauge", "GeometryReader", "Grid", "GridRow", "Group",
+  "GroupBox", "HStack", "Image", "Label", "LabeledContent", "LazyHGrid", "LazyHStack",
+  "LazyVGrid", "LazyVStack", "Link", "List", "Menu", "NavigationSplitView",
+  "NavigationStack", "NavigationView", "OutlineGroup", "Picker", "ProgressView",
+  "Rectangle", "RoundedRectangle", "ScrollView", "ScrollViewReader", "Section",
+  "SecureField", "ShareLink", "Slider", "Spacer", "Stepper", "Tab", "TabView", "Text",
+  "TextEditor", "TextField", "TimelineView", "Toggle", "ViewThatFits", "VStack", "ZStack",
+  "ForEach", "Font", "Gradient", "LinearGradient", "RadialGradient", "AngularGradient",
+  "Animation", "Binding", "Bool", "CGFloat", "CGPoint", "CGRect", "CGSize", "Data", "Date",
+  "Double", "EdgeInsets", "Float", "Int", "Locale", "String", "Task", "URL", "UUID",
+  "UIColor", "UIImage", "WindowGroup", "Window", "DocumentGroup", "MenuBarExtra",
+]);
+
+function isTypeName(token: Token | undefined): boolean {
+  return token?.kind === "ident" && /^[A-Z]/.test(token.text);
+}
+
+/** A view constructed in presented content, with its own .tabItem title if any */
+interface ViewRef {
+  name: string;
+  label?: string;
+}
+
+/**
+ * App views constructed in tokens[from, to). Looks through SwiftUI containers
+ * and control flow, but not into a found view's own arguments, modifier
+ * arguments, or NavigationLinks (those are edges of their own).
+ */
+function viewsIn(tokens: Token[], from: number, to: number): ViewRef[] {
+  const views: ViewRef[] = [];
+  let i = from;
+
+  while (i < to) {
+    const t = tokens[i]!;
+
+    // .modifier(…) { … } — skip entirely
+    if (isPunct(t, ".") && isIdent(tokens[i + 1])) {
+      i = readCall(tokens, i + 2).end;
+      continue;
+    }
+
+    const opensCall = isPunct(tokens[i + 1], "(") || isPunct(tokens[i + 1], "{");
+    if (isTypeName(t) && opensCall && !isPunct(tokens[i - 1], ".")) {
+      const call = readCall(tokens, i + 1);
+      if (t.text === "NavigationLink") {
+        // handled by navigationLinkDestinations
+      } else if (BUILTIN_TYPES.has(t.text)) {
+        for (const c of call.closures) views.push(...viewsIn(tokens, c.open + 1, c.close));
+      } else {
+        views.push({ name: t.text, label: tabItemTitle(tokens, call.end, to) });
+      }
+      i = call.end;
+      continue;
+    }
+
+    // content: DetailView.init
+    if (isTypeName(t) && isPunct(tokens[i + 1], ".") && isIdent(tokens[i + 2], "init")) {
+      if (!BUILTIN_TYPES.has(t.text)) views.push({ name: t.text });
+      i += 3;
+      continue;
+    }
+
+    // Other calls (dismiss(), makeRow(…)): arguments aren't view content
+    if (isIdent(t) && isPunct(tokens[i + 1], "(")) {
+      i = matchingClose(tokens, i + 1) + 1;
+      continue;
+    }
+
+    i++;
+  }
+  return views;
+}
+
+/** Views reached from a call's argument list and closures */
+function callViews(tokens: Token[], call: Call): ViewRef[] {
+  const views: ViewRef[] = [];
+  if (call.args) views.push(...viewsIn(tokens, call.args.open + 1, call.args.close));
+  for (const c of call.closures) views.push(...viewsIn(tokens, c.open + 1, c.close));
+  return views;
+}
+
+// ── Edge labels ───────────────────────────────────────────────────
+
+// Calls whose first unlabelled string argument is user-visible text
+const TITLED_VIEWS = new Set(["Text", "Label", "Button", "NavigationLink", "Tab", "Menu", "Toggle"]);
+
+/** First unlabelled argument, if it is a plain string literal: Button("Settings") */
+function titleArg(tokens: Token[], call: Call): string | undefined {
+  if (!call.args) return undefined;
+  const first = splitArgs(tokens, call.args)[0];
+  if (!first || first.label !== null || first.to - first.from !== 1) return undefined;
+  return literalText(tokens[first.from]);
+}
+
+/** First Text/Label/… title in tokens[from, to): label closures like { Label("Export", …) } */
+function titleIn(tokens: Token[], from: number, to: number): string | undefined {
+  for (let i = from; i < to; i++) {
+    if (!TITLED_VIEWS.has(tokens[i]!.text) || !isIdent(tokens[i]) || !isPunct(tokens[i + 1], "(")) continue;
+    const title = titleArg(tokens, readCall(tokens, i + 1));
+    if (title) return title;
+  }
+  return undefined;
+}
+
+/** Title from a `.tabItem { Label("Home", …) }` in the modifier chain starting at i */
+function tabItemTitle(tokens: Token[], i: number, to: number): string | undefined {
+  while (i < to && isPunct(tokens[i], ".") && isIdent(tokens[i + 1])) {
+    const call = readCall(tokens, i + 2);
+    if (tokens[i + 1]!.text === "tabItem") {
+      const content = call.closures[0];
+      return content ? titleIn(tokens, content.open + 1, content.close) : undefined;
+    }
+    i = call.end;
+  }
+  return undefined;
+}
+
+/** A Button's title, role and the token range of its action */
+interface Trigger {
+  title?: string;
+  role?: ButtonRole;
+  from: number;
+  to: number;
+}
+
+/** `role: .destructive` / `role: ButtonRole.cancel` */
+function roleArg(tokens: Token[], args: ReturnType<typeof splitArgs>): ButtonRole | undefined {
+  const arg = args.find((a) => a.label === "role");
+  const role = arg && tokens[arg.to - 1]?.text;
+  return role === "destructive" || role === "cancel" ? role : undefined;
+}
+
+/**
+ * Every Button in tokens[from, to): Button("Title") { action }, Button("Title",
+ * action: f), Button(action: { … }) { label }, Button { action } label: { … }
+ */
+function findTriggers(tokens: Token[], from = 0, to = tokens.length): Trigger[] {
+  const triggers: Trigger[] = [];
+  for (let i = from; i < to; i++) {
+    if (!isIdent(tokens[i], "Button") || isPunct(tokens[i - 1], ".")) continue;
+    const call = readCall(tokens, i + 1);
+    const args = call.args ? splitArgs(tokens, call.args) : [];
+    const actionArg = args.find((a) => a.label === "action");
+
+    const action = actionArg
+      ? { from: actionArg.from, to: actionArg.to }
+      : call.closures[0] && { from: call.closures[0].open + 1, to: call.closures[0].close };
+    if (!action) continue;
+
+    const labelClosure = actionArg ? call.closures[0] : call.closures.find((c) => c.label === "label");
+    const title = titleArg(tokens, call) ??
+      (labelClosure ? titleIn(tokens, labelClosure.open + 1, labelClosure.close) : undefined);
+    triggers.push({ title, role: roleArg(tokens, args), ...action });
+  }
+  return triggers;
+}
+
+/**
+ * Pre-iOS 15 Alert / ActionSheet buttons in tokens[from, to):
+ * .default(Text("OK")), .destructive(Text("Delete")) { … }, .cancel { … }
+ */
+function findLegacyAlertButtons(tokens: Token[], from: number, to: number): Trigger[] {
+  const buttons: Trigger[] = [];
+  for (let i = from; i < to; i++) {
+    const kind = tokens[i + 1]?.text;
+    if (!isPunct(tokens[i], ".") || !(isPunct(tokens[i + 2], "(") || isPunct(tokens[i + 2], "{"))) continue;
+    if (kind !== "default" && kind !== "destructive" && kind !== "cancel") continue;
+
+    const call = readCall(tokens, i + 2);
+    const actionArg = call.args && splitArgs(tokens, call.args).find((a) => a.label === "action");
+    const closure = call.closures[0];
+    buttons.push({
+      title: call.args ? titleIn(tokens, call.args.open + 1, call.args.close) : undefined,
+      role: kind === "default" ? undefined : kind,
+      from: actionArg ? actionArg.from : closure ? closure.open + 1 : call.end,
+      to: actionArg ? actionArg.to : closure ? closure.close : call.end,
+    });
+  }
+  return buttons;
+}
+
+/** An .alert / .confirmationDialog and the buttons it offers */
+interface Dialog {
+  mechanism: string;
+  buttons: Trigger[];
+  /** Source offset of the modifier */
+  at: number;
+}
+
+function findDialogs(tokens: Token[]): Dialog[] {
+  const dialogs: Dialog[] = [];
+  for (let i = 1; i < tokens.length; i++) {
+    const mechanism = DIALOG_MODIFIERS[tokens[i]!.text];
+    if (!mechanism || !isPunct(tokens[i - 1], ".") || !isIdent(tokens[i])) continue;
+
+    // .alert("Title", isPresented: $x) { actions } message: { … } — the message
+    // closure has no buttons, so only the first/`actions:` closure counts
+    const call = readCall(tokens, i + 1);
+    const actions = call.closures.find((c) => c.label === null || c.label === "actions");
+    if (!actions) continue;
+    dialogs.push({
+      mechanism,
+      at: tokens[i]!.start,
+      buttons: [
+        ...findTriggers(tokens, actions.open + 1, actions.close),
+        ...findLegacyAlertButtons(tokens, actions.open + 1, actions.close),
+      ],
+    });
+  }
+  return dialogs;
+}
+
+/** `isPresented: $showSettings` / `item: $model.selected` → "showSettings" / "selected" */
+function presentationState(tokens: Token[], call: Call): string | null {
+  if (!call.args) return null;
+  const arg = splitArgs(tokens, call.args).find((a) => a.label === "isPresented" || a.label === "item");
+  if (!arg || !tokens[arg.from]?.text.startsWith("$")) return null;
+  const last = tokens[arg.to - 1]!;
+  return last.kind === "ident" ? last.text.replace(/^\$/, "") : null;
+}
+
+/** Whether tokens[from, to) sets `state` to something other than false/nil */
+function setsState(tokens: Token[], from: number, to: number, state: string): boolean {
+  for (let i = from; i < to; i++) {
+    if (!isIdent(tokens[i], state)) continue;
+    if (isPunct(tokens[i + 1], ".") && isIdent(tokens[i + 2], "toggle")) return true;
+    if (isPunct(tokens[i + 1], "=") && !isPunct(tokens[i + 2], "=") &&
+        !isIdent(tokens[i + 2], "false") && !isIdent(tokens[i + 2], "nil")) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Title of the first Button whose action presents the state bound to this modifier */
+function triggerTitle(tokens: Token[], triggers: Trigger[], call: Call): string | undefined {
+  const state = presentationState(tokens, call);
+  if (!state) return undefined;
+  return triggers.find((t) => t.title && setsState(tokens, t.from, t.to, state))?.title;
+}
+
+// ── Routes ────────────────────────────────────────────────────────
+
+/** `Route.self` in navigationDestination(for:), or null for isPresented/item forms */
+function routeType(tokens: Token[], call: Call): string | null {
+  if (!call.args) return null;
+  const arg = splitArgs(tokens, call.args).find((a) => a.label === "for");
+  if (!arg || !isIdent(tokens[arg.from]) || !isIdent(tokens[arg.to - 1], "self")) return null;
+  return tokens[arg.from]!.text;
+}
+
+// `if case .x = value` inside a case body is not a new case label
+const CONDITION_KEYWORDS = new Set(["if", "guard", "while", ",", "for"]);
+
+/**
+ * Case → views for `{ route in switch route { case .a, .b: AView() … } }`.
+ * Only the switch's own top-level case labels count; nested switches are
+ * part of a case body.
+ */
+function routeCases(tokens: Token[], type: string, content: { open: number; close: number }): RouteMap {
+  const routes: RouteMap = new Map();
+  let i = content.open + 1;
+  while (i < content.close && !isIdent(tokens[i], "switch")) i++;
+  while (i < content.close && !isPunct(tokens[i], "{")) i++;
+  if (i >= content.close) return routes;
+
+  const bodyEnd = matchingClose(tokens, i);
+  let cases: string[] = [];
+  let bodyStart = -1;
+  const flush = (end: number) => {
+    if (bodyStart === -1) return;
+    const views = viewsIn(tokens, bodyStart, end).map((v) => v.name);
+    for (const c of cases) routes.set(`${type}.${c}`, views);
+  };
+
+  for (let j = i + 1; j < bodyEnd; j++) {
+    const t = tokens[j]!;
+    if (t.kind === "punct" && (t.text === "(" || t.text === "[" || t.text === "{")) {
+      j = matchingClose(tokens, j);
+    } else if ((isIdent(t, "case") && !CONDITION_KEYWORDS.has(tokens[j - 1]!.text)) || isIdent(t, "default")) {
+      flush(j);
+      // Patterns run to the `:`; each `.name` at pattern level is a case
+      cases = [];
+      for (j++; j < bodyEnd && !isPunct(tokens[j], ":"); j++) {
+        if (isPunct(tokens[j], "(")) j = matchingClose(tokens, j);
+        else if (isPunct(tokens[j], ".") && isIdent(tokens[j + 1])) cases.push(tokens[j + 1]!.text);
+      }
+      bodyStart = j + 1;
+    }
+  }
+  flush(bodyEnd);
+  return routes;
+}
+
+function extractRoutes(tokens: Token[]): RouteMap {
+  const routes: RouteMap = new Map();
+  for (let i = 1; i < tokens.length; i++) {
+    if (!isIdent(tokens[i], "navigationDestination") || !isPunct(tokens[i - 1], ".")) continue;
+    const call = readCall(tokens, i + 1);
+    const type = routeType(tokens, call);
+    const content = call.closures[0];
+    if (!type || !content) continue;
+    for (const [key, views] of routeCases(tokens, type, content)) routes.set(key, views);
+  }
+  return routes;
+}
+
+/** `Route.detail(id)` → "Route.detail", `.detail(id)` → ".detail" */
+function routeRef(tokens: Token[], from: number, to: number): string | null {
+  if (isPunct(tokens[from], ".") && isIdent(tokens[from + 1]) && from + 1 < to) {
+    return `.${tokens[from + 1]!.text}`;
+  }
+  if (isTypeName(tokens[from]) && isPunct(tokens[from + 1], ".") && isIdent(tokens[from + 2]) && from + 2 < to) {
+    return `${tokens[from]!.text}.${tokens[from + 2]!.text}`;
+  }
+  return null;
+}
+
+/** Views for a route reference; `.detail` matches the case on any route type */
+function resolveRoute(routes: RouteMap, ref: string | null): ViewRef[] {
+  if (!ref) return [];
+  const views = ref.startsWith(".")
+    ? [...routes].find(([key]) => key.endsWith(ref))?.[1]
+    : routes.get(ref);
+  return (views ?? []).map((name) => ({ name }));
+}
+
+export function mergeRouteMaps(maps: Iterable<RouteMap>): RouteMap {
+  const merged: RouteMap = new Map();
+  for (const map of maps) for (const [key, views] of map) merged.set(key, views);
+  return merged;
+}
+
+/** Route table declared in a file, for resolving call sites in other files */
+export function parseRoutes(content: string): RouteMap {
+  return extractRoutes(tokenize(content));
+}
+
+// ── Edges ─────────────────────────────────────────────────────────
+
+/**
+ * NavigationLink(destination: X) / NavigationLink("Title") { X } /
+ * NavigationLink { X } label: { … } / NavigationLink(value: Route.x) via routes.
+ */
+function navigationLinkEdges(
+  tokens: Token[],
+  call: Call,
+  routes: RouteMap,
+): { views: ViewRef[]; label?: string } {
+  const args = call.args ? splitArgs(tokens, call.args) : [];
+  const destination = args.find((a) => a.label === "destination");
+  const value = args.find((a) => a.label === "value");
+  if (destination || value) {
+    // The trailing closure is the label
+    const labelClosure = call.closures[0];
+    return {
+      views: destination
+        ? viewsIn(tokens, destination.from, destination.to)
+        : resolveRoute(routes, routeRef(tokens, value!.from, value!.to)),
+      label: titleArg(tokens, call) ??
+        (labelClosure ? titleIn(tokens, labelClosure.open + 1, labelClosure.close) : undefined),
+    };
+  }
+
+  const content = call.closures.find((c) => c.label === null || c.label === "destination");
+  const labelClosure = call.closures.find((c) => c.label === "label");
+  return {
+    views: content ? viewsIn(tokens, content.open + 1, content.close) : [],
+    label: titleArg(tokens, call) ??
+      (labelClosure ? titleIn(tokens, labelClosure.open + 1, labelClosure.close) : undefined),
+  };
+}
+
+function extractEdges(tokens: Token[], dialogs: Dialog[], routes: RouteMap): NavEdge[] {
+  const found: NavEdge[] = [];
+  const triggers = findTriggers(tokens);
+  // State-driven presentations, so dialog buttons can be traced to what they open
+  const presentations: { state: string; views: ViewRef[] }[] = [];
+  const add = (views: ViewRef[], mechanism: string, label?: string, role?: ButtonRole) => {
+    for (const view of views) {
+      const edge: NavEdge = { destination: view.name, mechanism };
+      const edgeLabel = view.label ?? label;
+      if (edgeLabel) edge.label = edgeLabel;
+      if (role) edge.role = role;
+      found.push(edge);
+    }
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i]!;
+    if (t.kind !== "ident") continue;
+
+    if (isPunct(tokens[i - 1], ".") && NAV_MODIFIERS[t.text]) {
+      const call = readCall(tokens, i + 1);
+      // navigationDestination(for:) is a route table; its edges come from push sites
+      if (routeType(tokens, call)) continue;
+      const views = callViews(tokens, call);
+      const state = presentationState(tokens, call);
+      if (state) presentations.push({ state, views });
+      add(views, NAV_MODIFIERS[t.text]!, triggerTitle(tokens, triggers, call));
+    } else if (t.text === "NavigationLink" && !isPunct(tokens[i - 1], ".")) {
+      const { views, label } = navigationLinkEdges(tokens, readCall(tokens, i + 1), routes);
+      add(views, "navigationLink", label);
+    } else if (isPunct(tokens[i - 1], ".") && PATH_METHODS.has(t.text) && isPunct(tokens[i + 1], "(")) {
+      // path.append(Route.detail(id)) — labelled by the Button it sits in
+      const call = readCall(tokens, i + 1);
+      const arg = splitArgs(tokens, call.args!)[0];
+      if (!arg) continue;
+      const label = triggers.find((tr) => tr.from <= i && i < tr.to)?.title;
+      add(resolveRoute(routes, routeRef(tokens, arg.from, arg.to)), "navigationPath", label);
+    } else if (NAV_CONTAINERS[t.text] && !isPunct(tokens[i - 1], ".")) {
+      const call = readCall(tokens, i + 1);
+      const title = t.text === "Tab" ? titleArg(tokens, call) : undefined;
+      for (const c of call.closures) add(viewsIn(tokens, c.open + 1, c.close), NAV_CONTAINERS[t.text]!, title);
+    }
+  }
+
+  // A dialog button leads wherever its action's state change presents;
+  // untitled buttons are labelled by their role
+  for (const dialog of dialogs) {
+    for (const button of dialog.buttons) {
+      const label = button.title ?? (button.role && button.role.charAt(0).toUpperCase() + button.role.slice(1));
+      for (const p of presentations) {
+        if (setsState(tokens, button.from, button.to, p.state)) add(p.views, dialog.mechanism, label, button.role);
       }
     }
   }
 
+  // Deduplicate, keeping source order within each mechanism; a later
+  // duplicate can still supply a label the first one lacked
+  const edges: NavEdge[] = [];
+  const byKey = new Map<string, NavEdge>();
+  for (const mechanism of MECHANISM_ORDER) {
+    for (const edge of found) {
+      if (edge.mechanism !== mechanism) continue;
+      const key = `${edge.destination}::${edge.mechanism}`;
+      const existing = byKey.get(key);
+      if (existing) {
+        if (!existing.label && edge.label) existing.label = edge.label;
+        continue;
+      }
+      byKey.set(key, edge);
+      edges.push(edge);
+    }
+  }
   return edges;
 }
 
+// ── Titles ────────────────────────────────────────────────────────
+
+const TITLE_MODIFIERS = new Set(["navigationTitle", "navigationBarTitle"]);
+const PROMINENT_FONTS = new Set(["largeTitle", "title", "title2", "title3", "headline"]);
+
+/** Whether the modifier chain starting at tokens[i] sets a title-sized .font */
+function hasProminentFont(tokens: Token[], i: number): boolean {
+  while (isPunct(tokens[i], ".") && isIdent(tokens[i + 1])) {
+    const call = readCall(tokens, i + 2);
+    if (tokens[i + 1]!.text === "font" && call.args) {
+      for (let k = call.args.open + 1; k < call.args.close; k++) {
+        if (isPunct(tokens[k], ".") && PROMINENT_FONTS.has(tokens[k + 1]?.text ?? "")) return true;
+      }
+    }
+    i = call.end;
+  }
+  return false;
+}
+
+/** `.navigationTitle("Settings")`, else the first `Text("…").font(.title)` */
+function findTitle(tokens: Token[]): string | undefined {
+  for (let i = 1; i < tokens.length; i++) {
+    if (!isPunct(tokens[i - 1], ".") || !TITLE_MODIFIERS.has(tokens[i]!.text) || !isPunct(tokens[i + 1], "(")) continue;
+    const arg = splitArgs(tokens, readCall(tokens, i + 1).args!)[0];
+    const title = arg && stringExpr(tokens, arg.from);
+    if (title) return title;
+  }
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isIdent(tokens[i], "Text") || isPunct(tokens[i - 1], ".") || !isPunct(tokens[i + 1], "(")) continue;
+    const call = readCall(tokens, i + 1);
+    const title = titleArg(tokens, call);
+    if (title && hasProminentFont(tokens, call.end)) return title;
+  }
+  return undefined;
+}
+
 // ── Type inference ────────────────────────────────────────────────
 
+const TEXT_INPUTS = /\b(TextField|TextEditor|SecureField)\b/;
 const INPUT_INDICATORS = /\b(TextField|TextEditor|Picker|Toggle|SecureField|Slider|Stepper)\b/;
-const DISMISS_INDICATORS = /\bdismiss\s*\(\)|presentationMode\.wrappedValue\.dismiss/;
-const BUTTON_INDICATORS = /\bButton\s*\(/;
+const DISMISS_INDICATORS = /\b(dismiss)\s*\(\)|presentationMode\.wrappedValue\.dismiss/;
+const BUTTON_INDICATORS = /\b(Button)\s*\(/;
 const CONDITIONAL_NAV = /if\s+\w+\s*\{[\s\S]*?(NavigationLink|\.sheet|\.fullScreenCover)/;
 const BACKGROUND_ONLY = /\bTask\s*\{|\.task\s*\{|\.onAppear\s*\{/;
 const HAS_ANY_BODY_CONTENT = /\bvar\s+body\s*:/;
 
-function inferType(content: string): ParsedView["inferredType"] {
-  if (INPUT_INDICATORS.test(content)) return "input";
+/** An alert with a real choice, or any confirmation dialog (iOS always adds Cancel) */
+function offersChoice(dialog: Dialog): boolean {
+  return dialog.mechanism === "confirmationDialog" ? dialog.buttons.length > 0 : dialog.buttons.length > 1;
+}
+
+/**
+ * Step type from the first rule that matches. Confidence reflects how
+ * specific the rule is: a text field is almost surely input, while a view
+ * that matched nothing is display only by default.
+ */
+function inferType(content: string, dialogs: Dialog[] = []): TypeInference {
+  const input = matchEvidence(content, INPUT_INDICATORS);
+  if (input) {
+    return { type: "input", confidence: TEXT_INPUTS.test(content) ? 0.9 : 0.6, evidence: [input] };
+  }
 
-  // Decision: conditional nav branches
-  if (CONDITIONAL_NAV.test(content)) return "decision";
+  // Decision: conditional nav branches, or an alert/dialog asking the user to choose
+  const choice = dialogs.find(offersChoice);
+  if (choice) {
+    const evidence = `${choice.mechanism} with ${choice.buttons.length} buttons at line ${lineAt(content, choice.at)}`;
+    return { type: "decision", confidence: 0.8, evidence: [evidence] };
+  }
+  const conditional = matchEvidence(content, CONDITIONAL_NAV);
+  if (conditional) {
+    return { type: "decision", confidence: 0.55, evidence: [`conditional ${conditional}`] };
+  }
 
   // Action: primary button with dismiss (implies this view IS the action)
-  // or the struct name itself sounds action-like
-  if (BUTTON_INDICATORS.test(content) && DISMISS_INDICATORS.test(content)) return "action";
+  const button = matchEvidence(content, BUTTON_INDICATORS);
+  const dismiss = matchEvidence(content, DISMISS_INDICATORS);
+  if (button && dismiss) return { type: "action", confidence: 0.75, evidence: [button, dismiss] };
 
   // System: background task only, no visible body content worth classifying
-  if (!HAS_ANY_BODY_CONTENT.test(content) || (!BUTTON_INDICATORS.test(content) && BACKGROUND_ONLY.test(content))) {
-    return "system";
+  if (!HAS_ANY_BODY_CONTENT.test(content)) return { type: "system", confidence: 0.85, evidence: ["no body"] };
+  const background = !button && matchEvidence(content, BACKGROUND_ONLY);
+  if (background) return { type: "system", confidence: 0.6, evidence: [`${background}, no buttons`] };
+
+  // Display: a button that doesn't dismiss might still be this view's action
+  if (button) return { type: "display", confidence: 0.5, evidence: [`${button} without dismiss`] };
+  return { type: "display", confidence: 0.75, evidence: ["no inputs, buttons or branches"] };
+}
+
+// ── Entry points ──────────────────────────────────────────────────
+
+// Protocols that make a struct an App Intent (Shortcuts, Siri, Spotlight, widgets)
+const INTENT_PROTOCOLS = new Set(["AppIntent", "OpenIntent", "ForegroundContinuableIntent", "AudioPlaybackIntent"]);
+
+/** A view reached from an entry handler, at token index `at` */
+interface Landing {
+  name: string;
+  at: number;
+}
+
+/** State-driven presentations anywhere in the file: `.sheet(isPresented: $x) { V() }` */
+function presentationsIn(tokens: Token[]): { state: string; views: ViewRef[] }[] {
+  const presentations: { state: string; views: ViewRef[] }[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isPunct(tokens[i - 1], ".") || !NAV_MODIFIERS[tokens[i]!.text] || !isIdent(tokens[i])) continue;
+    const call = readCall(tokens, i + 1);
+    const state = presentationState(tokens, call);
+    if (state) presentations.push({ state, views: callViews(tokens, call) });
   }
+  return presentations;
+}
 
-  return "display";
+/** `func name(…) { … }` bodies by name, so `handle(url)` can be followed into */
+function functionBodies(tokens: Token[], from = 0, to = tokens.length): Map<string, { open: number; close: number }> {
+  const bodies = new Map<string, { open: number; close: number }>();
+  for (let i = from; i < to; i++) {
+    if (!isIdent(tokens[i], "func") || !isIdent(tokens[i + 1]) || !isPunct(tokens[i + 2], "(")) continue;
+    let open = matchingClose(tokens, i + 2) + 1;
+    while (open < tokens.length && !isPunct(tokens[open], "{") && !isIdent(tokens[open], "func")) open++;
+    if (isPunct(tokens[open], "{")) bodies.set(tokens[i + 1]!.text, { open, close: matchingClose(tokens, open) });
+  }
+  return bodies;
 }
 
-// ── Public API ───────────────────────────────────────────────────
+interface HandlerContext {
+  tokens: Token[];
+  presentations: { state: string; views: ViewRef[] }[];
+  functions: Map<string, { open: number; close: number }>;
+  routes: RouteMap;
+}
 
-export function parseSwiftFile(filePath: string, content: string): ParsedView | null {
-  const structName = extractStructName(content);
-  if (!structName) return null;
+/**
+ * Views a handler body leads to: presentations whose state it sets, routes it
+ * pushes, `view:` results (App Intent snippets), and the same for functions
+ * of this file it calls.
+ */
+function handlerLandings(ctx: HandlerContext, from: number, to: number, visited = new Set<string>()): Landing[] {
+  const { tokens } = ctx;
+  const landings: Landing[] = [];
+  for (let i = from; i < to; i++) {
+    const t = tokens[i]!;
+    if (t.kind !== "ident") continue;
 
-  return {
-    structName,
-    filePath,
-    presentsTo: extractEdges(content),
-    inferredType: inferType(content),
+    for (const p of ctx.presentations) {
+      if (setsState(tokens, i, i + 1, p.state)) landings.push(...p.views.map((v) => ({ name: v.name, at: i })));
+    }
+    if (isPunct(tokens[i - 1], ".") && PATH_METHODS.has(t.text) && isPunct(tokens[i + 1], "(")) {
+      const arg = splitArgs(tokens, readCall(tokens, i + 1).args!)[0];
+      if (arg) landings.push(...resolveRoute(ctx.routes, routeRef(tokens, arg.from, arg.to)).map((v) => ({ name: v.name, at: i })));
+    } else if (t.text === "view" && isPunct(tokens[i + 1], ":") && isTypeName(tokens[i + 2]) && !BUILTIN_TYPES.has(tokens[i + 2]!.text)) {
+      landings.push({ name: tokens[i + 2]!.text, at: i });
+    } else if (isPunct(tokens[i + 1], "(") && !isPunct(tokens[i - 1], ".") && ctx.functions.has(t.text) && !visited.has(t.text)) {
+      visited.add(t.text);
+      const body = ctx.functions.get(t.text)!;
+      landings.push(...handlerLandings(ctx, body.open + 1, body.close, visited).map((l) => ({ ...l, at: i })));
+    }
+  }
+  return landings;
+}
+
+/** The literal the branch around tokens[at] matched: `if url.host == "capture" { … }` / `case "capture":` */
+function matchedLiteral(tokens: Token[], from: number, at: number): string | undefined {
+  let literal: string | undefined;
+  for (let i = from; i < at; i++) {
+    const t = tokens[i]!;
+    if (t.kind !== "string") continue;
+    if (isIdent(tokens[i - 1], "case")) {
+      // Holds until the next case of the switch
+      let k = i + 1;
+      while (k < at && !isIdent(tokens[k], "case") && !isIdent(tokens[k], "default")) k++;
+      if (k === at) literal = literalText(t) ?? literal;
+    } else if (isPunct(tokens[i - 1], "=") && isPunct(tokens[i - 2], "=")) {
+      // Holds inside the block the condition opens
+      let open = i + 1;
+      while (open < at && !isPunct(tokens[open], "{")) open++;
+      if (open < at && matchingClose(tokens, open) > at) literal = literalText(t) ?? literal;
+    }
+  }
+  return literal;
+}
+
+/**
+ * The view a modifier at tokens[i] is attached to: the View struct around it,
+ * or in an App's body, the root view of the enclosing WindowGroup
+ */
+function hostView(tokens: Token[], decls: Declaration[], i: number): string | undefined {
+  const enclosing = decls.filter((d) => d.open < i && i < d.close);
+  const view = viewDeclarations(enclosing).sort((a, b) => b.open - a.open)[0];
+  if (view) return view.name;
+
+  // Innermost open brace before the modifier
+  let depth = 0;
+  for (let k = i - 1; k >= 0; k--) {
+    if (isPunct(tokens[k], "}")) depth++;
+    else if (isPunct(tokens[k], "{") && depth-- === 0) return viewsIn(tokens, k + 1, i)[0]?.name;
+  }
+  return undefined;
+}
+
+/** String literals in tokens[from, to) other than "*", joined: `matching: ["capture"]` */
+function literalsIn(tokens: Token[], from: number, to: number): string | undefined {
+  const literals: string[] = [];
+  for (let i = from; i < to; i++) {
+    const text = literalText(tokens[i]);
+    if (text && text !== "*") literals.push(text);
+  }
+  return literals.length > 0 ? literals.join(", ") : undefined;
+}
+
+function extractEntryPoints(tokens: Token[], filePath: string, routes: RouteMap): EntryPoint[] {
+  const decls = declarations(tokens);
+  const ctx: HandlerContext = { tokens, presentations: presentationsIn(tokens), functions: functionBodies(tokens), routes };
+  const found: EntryPoint[] = [];
+  const add = (kind: EntryKind, destination: string | undefined, detail?: string) => {
+    if (!destination) return;
+    if (found.some((e) => e.kind === kind && e.destination === destination && e.detail === detail)) return;
+    found.push({ kind, destination, ...(detail && { detail }), filePath });
   };
+
+  // Handler modifiers: where the handler leads, else the view it is attached to
+  for (let i = 0; i < tokens.length; i++) {
+    const name = tokens[i]!.text;
+    if (!isPunct(tokens[i - 1], ".") || !isIdent(tokens[i])) continue;
+    if (name !== "onOpenURL" && name !== "onContinueUserActivity" && name !== "handlesExternalEvents") continue;
+
+    const call = readCall(tokens, i + 1);
+    const args = call.args ? splitArgs(tokens, call.args) : [];
+    if (name === "handlesExternalEvents") {
+      const detail = call.args ? literalsIn(tokens, call.args.open + 1, call.args.close) : undefined;
+      add("externalEvents", hostView(tokens, decls, i), detail);
+      continue;
+    }
+
+    const kind: EntryKind = name === "onOpenURL" ? "openURL" : "userActivity";
+    // onContinueUserActivity("com.example.note") / (NSUserActivityTypeBrowsingWeb)
+    const activity = kind === "userActivity" && args[0]
+      ? literalText(tokens[args[0].from]) ?? tokens.slice(args[0].from, args[0].to).map((t) => t.text).join("")
+      : undefined;
+    // Trailing closure, or perform: handleURL
+    const perform = args.find((a) => a.label === "perform");
+    const handler = call.closures[0]
+      ? { from: call.closures[0].open + 1, to: call.closures[0].close }
+      : perform && { from: perform.from, to: perform.to };
+    const landings = handler ? handlerLandings(ctx, handler.from, handler.to) : [];
+    if (handler && perform && !call.closures[0]) {
+      const body = ctx.functions.get(tokens[perform.to - 1]!.text);
+      if (body) landings.push(...handlerLandings(ctx, body.open + 1, body.close));
+    }
+
+    if (landings.length === 0) add(kind, hostView(tokens, decls, i), activity);
+    for (const landing of landings) {
+      add(kind, landing.name, activity ?? (handler && matchedLiteral(tokens, handler.from, landing.at)));
+    }
+  }
+
+  // App Intents: the views perform() shows or navigates to
+  for (const intent of decls.filter((d) => d.inherits.some((p) => INTENT_PROTOCOLS.has(p)))) {
+    let title: string | undefined;
+    for (let i = intent.open + 1; i < intent.close; i++) {
+      if (isIdent(tokens[i], "title") && (isIdent(tokens[i - 1], "var") || isIdent(tokens[i - 1], "let"))) {
+        let k = i + 1;
+        while (k < intent.close && tokens[k]!.kind !== "string" && !isIdent(tokens[k], "static")) k++;
+        title = literalText(tokens[k]);
+        break;
+      }
+    }
+    const perform = functionBodies(tokens, intent.open + 1, intent.close).get("perform");
+    if (!perform) continue;
+    for (const landing of handlerLandings(ctx, perform.open + 1, perform.close)) add("appIntent", landing.name, title);
+  }
+
+  return found;
+}
+
+// ── Public API ───────────────────────────────────────────────────
+
+/**
+ * `routes` holds route tables from other files (see parseRoutes); the file's
+ * own navigationDestination(for:) cases take precedence.
+ */
+export function parseSwiftFile(
+  filePath: string,
+  content: string,
+  routes: RouteMap = new Map(),
+): ParsedView[] {
+  const tokens = tokenize(content);
+  const decls = declarations(tokens);
+  const views = viewDeclarations(decls);
+  const code = codeOnly(content);
+  const allRoutes = mergeRouteMaps([routes, extractRoutes(tokens)]);
+
+  // Nested views (sheet content, private subviews) own their edges, not the parent
+  const parsed = views.map((view): ParsedView => {
+    const scope = scopeOf(tokens, code, view, decls, views);
+    const dialogs = findDialogs(scope.tokens);
+    const inference = inferType(scope.code, dialogs);
+    const title = findTitle(scope.tokens);
+    return {
+      structName: view.name,
+      filePath,
+      presentsTo: extractEdges(scope.tokens, dialogs, allRoutes),
+      inferredType: inference.type,
+      typeConfidence: inference.confidence,
+      typeEvidence: inference.evidence,
+      ...(title && { title }),
+      platform: "ios",
+    };
+  });
+  return [...parsed, ...parseUIKitFile(filePath, content)];
+}
+
+/**
+ * Entry points declared in a file: .onOpenURL, .onContinueUserActivity and
+ * .handlesExternalEvents handlers, and App Intents. Each lands on the views
+ * its handler presents or pushes (resolved through `routes`), else on the
+ * view the handler is attached to.
+ */
+export function parseEntryPoints(filePath: string, content: string, routes: RouteMap = new Map()): EntryPoint[] {
+  const tokens = tokenize(content);
+  return extractEntryPoints(tokens, filePath, mergeRouteMaps([routes, extractRoutes(tokens)]));
 }
@@ -1,107 +1,202 @@
 /**
- * sync/scan.ts — Git-based Swift file inventory.
+ * sync/scan.ts — Git-based Swift / Kotlin source file inventory.
  *
- * Given a app repo path and a last-known SHA, returns which Swift files
- * in the watched directories were added, modified, or removed.
+ * Given a app repo path and a last-known SHA, returns which Swift and Kotlin files
+ * in the watched directories were added, modified, renamed, or removed. Without a
+ * last-known SHA it bootstraps: every watched file at HEAD is reported new.
+ * Watched/ignored paths come from the project's SyncConfig (sync/config.ts).
+ * String tables (Localizable.strings / .xcstrings) are read separately, from
+ * anywhere in the repo, to turn localization keys into step labels.
  */
 
-// Watched path globs relative to app repo root
-const WATCHED_GLOBS = [
-  "ExampleApp/Sources/UI/Views/*.swift",
-  "ExampleApp/Sources/UI/Onboarding/*.swift",
-  "ExampleApp/Sources/UI/Components/*.swift",
-  "ExampleApp/ContentView.swift",
-  "ExampleApp/ExampleAppApp.swift",
-  "ExampleAppShare/*.swift",
-  "ExampleAppAction/*.swift",
-];
+import { DEFAULT_CONFIG, isWatched } from "./config";
+import type { SyncConfig } from "./config";
+import { isStringTablePath } from "./strings";
+
+/** Sources the parsers understand: SwiftUI / UIKit and Jetpack Compose */
+const SOURCE_EXTENSIONS = [".swift", ".kt"];
+const SOURCE_PATHSPECS = SOURCE_EXTENSIONS.map((ext) => `*${ext}`);
 
 export interface ChangedFile {
   path: string;
   content: string;
   diff: string;
-  status: "A" | "M" | "D";
+  status: "A" | "M" | "D" | "R";
+}
+
+/** A watched file moved to another watched path (possibly with edits) */
+export interface RenamedFile extends ChangedFile {
+  oldPath: string;
+}
+
+export interface FileRemoval {
+  sha: string;
+  /** Committer date (ISO 8601) */
+  date: string;
 }
 
 export interface ScanResult {
   currentSHA: string;
+  /** HEAD's committer date (ISO 8601) */
+  commitDate?: string;
   newFiles: ChangedFile[];
   removedFiles: string[];
   modifiedFiles: ChangedFile[];
+  renamedFiles?: RenamedFile[];
+  /** The commit that deleted each removed file, by path (absent when git can't tell) */
+  removals?: Record<string, FileRemoval>;
+  /** True when this is an initial full scan (no last commit) */
+  bootstrap?: boolean;
+}
+
+/** Every watched source file at HEAD, reported as added */
+async function scanAll(appPath: string, currentSHA: string, commitDate: string, config: SyncConfig): Promise<ScanResult> {
+  // ls-tree pathspecs are literal prefixes, not globs, so filter here
+  const lsResult = await Bun.$`git -C ${appPath} ls-tree -r --name-only HEAD`.quiet();
+  const paths = lsResult.stdout.toString().trim().split("\n").filter(p => SOURCE_EXTENSIONS.some(ext => p.endsWith(ext)));
+
+  const newFiles: ChangedFile[] = [];
+  for (const filePath of paths) {
+    if (!isWatched(filePath, config)) continue;
+    try {
+      const contentResult = await Bun.$`git -C ${appPath} show HEAD:${filePath}`.quiet();
+      newFiles.push({ path: filePath, content: contentResult.stdout.toString(), diff: "", status: "A" });
+    } catch {
+      // Unreadable blob (e.g. submodule entry); skip
+    }
+  }
+
+  return { currentSHA, commitDate, newFiles, removedFiles: [], modifiedFiles: [], bootstrap: true };
 }
 
-function isWatched(filePath: string): boolean {
-  // Match against our watched path patterns
-  return (
-    filePath.match(/^ExampleApp\/Sources\/UI\/Views\/[^/]+\.swift$/) !== null ||
-    filePath.match(/^ExampleApp\/Sources\/UI\/Onboarding\/[^/]+\.swift$/) !== null ||
-    filePath.match(/^ExampleApp\/Sources\/UI\/Components\/[^/]+\.swift$/) !== null ||
-    filePath === "ExampleApp/ContentView.swift" ||
-    filePath === "ExampleApp/ExampleAppApp.swift" ||
-    filePath.match(/^ExampleAppShare\/[^/]+\.swift$/) !== null ||
-    filePath.match(/^ExampleAppAction\/[^/]+\.swift$/) !== null
-  );
+/** .strings files are often UTF-16 (with a BOM); everything else is UTF-8 */
+function decode(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder("utf-16le").decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder("utf-16be").decode(bytes);
+  return new TextDecoder().decode(bytes);
+}
+
+/** Every string table file at HEAD (see isStringTablePath) */
+export async function readStringTables(appPath: string): Promise<{ path: string; content: string }[]> {
+  const lsResult = await Bun.$`git -C ${appPath} ls-tree -r --name-only HEAD`.quiet();
+  const paths = lsResult.stdout.toString().trim().split("\n").filter(isStringTablePath);
+
+  const files: { path: string; content: string }[] = [];
+  for (const path of paths) {
+    try {
+      const contentResult = await Bun.$`git -C ${appPath} show HEAD:${path}`.quiet();
+      files.push({ path, content: decode(contentResult.stdout) });
+    } catch {
+      // Unreadable blob; skip
+    }
+  }
+  return files;
 }
 
 export async function scan(
   appPath: string,
-  lastSHA: string | null
+  lastSHA: string | null,
+  config: SyncConfig = DEFAULT_CONFIG
 ): Promise<ScanResult> {
   // Get current HEAD SHA
   const headResult = await Bun.$`git -C ${appPath} rev-parse HEAD`.quiet();
   const currentSHA = headResult.stdout.toString().trim();
+  const dateResult = await Bun.$`git -C ${appPath} log -1 --format=%cI HEAD`.quiet();
+  const commitDate = dateResult.stdout.toString().trim();
+
+  if (!lastSHA) {
+    return scanAll(appPath, currentSHA, commitDate, config);
+  }
 
-  if (!lastSHA || lastSHA === currentSHA) {
-    return { currentSHA, newFiles: [], removedFiles: [], modifiedFiles: [] };
+  if (lastSHA === currentSHA) {
+    return { currentSHA, commitDate, newFiles: [], removedFiles: [], modifiedFiles: [] };
   }
 
-  // Get changed files between lastSHA and HEAD
-  const diffResult = await Bun.$`git -C ${appPath} diff ${lastSHA}..HEAD --name-status -- "*.swift"`.quiet();
+  // Get changed files between lastSHA and HEAD; -M pairs deletes with adds as renames
+  const diffResult = await Bun.$`git -C ${appPath} diff -M ${lastSHA}..HEAD --name-status -- ${SOURCE_PATHSPECS}`.quiet();
   const diffLines = diffResult.stdout.toString().trim().split("\n").filter(Boolean);
 
   const newFiles: ChangedFile[] = [];
   const removedFiles: string[] = [];
   const modifiedFiles: ChangedFile[] = [];
+  const renamedFiles: RenamedFile[] = [];
 
-  for (const line of diffLines) {
-    // Format: "A\tpath/to/file.swift" or "M\tpath" or "D\tpath"
-    const [statusCode, ...pathParts] = line.split("\t");
-    const filePath = pathParts.join("\t");
-    if (!filePath || !isWatched(filePath)) continue;
-
-    const status = statusCode.charAt(0) as "A" | "M" | "D";
-
-    if (status === "D") {
-      removedFiles.push(filePath);
-      continue;
-    }
-
-    // Get file content (current HEAD)
+  /** Content at HEAD plus the diff over the given paths, or null if unreadable */
+  async function readChange(filePath: string, diffPaths: string[]) {
     let content = "";
     try {
       const contentResult = await Bun.$`git -C ${appPath} show HEAD:${filePath}`.quiet();
       content = contentResult.stdout.toString();
     } catch {
       // File may not exist at HEAD if status is odd; skip
-      continue;
+      return null;
     }
 
-    // Get diff for this file
     let diff = "";
     try {
-      const diffFileResult = await Bun.$`git -C ${appPath} diff ${lastSHA}..HEAD -- ${filePath}`.quiet();
+      const diffFileResult = await Bun.$`git -C ${appPath} diff -M ${lastSHA}..HEAD -- ${diffPaths}`.quiet();
       diff = diffFileResult.stdout.toString();
     } catch {
       diff = "";
     }
+    return { content, diff };
+  }
+
+  for (const line of diffLines) {
+    // Format: "A\tpath", "M\tpath", "D\tpath", or "R087\told\tnew" (similarity score)
+    const [statusCode, ...paths] = line.split("\t");
+    const status = statusCode.charAt(0);
+
+    if (status === "R") {
+      const [oldPath, filePath] = paths;
+      if (!oldPath || !filePath) continue;
+      const oldWatched = isWatched(oldPath, config);
+      const newWatched = isWatched(filePath, config);
+
+      if (oldWatched && newWatched) {
+        const change = await readChange(filePath, [oldPath, filePath]);
+        if (change) renamedFiles.push({ path: filePath, oldPath, ...change, status: "R" });
+        continue;
+      }
+      // Moved into or out of the watched paths: an add or a removal from our side
+      if (oldWatched) removedFiles.push(oldPath);
+      if (newWatched) {
+        const change = await readChange(filePath, [filePath]);
+        if (change) newFiles.push({ path: filePath, ...change, status: "A" });
+      }
+      continue;
+    }
+
+    // Copies keep the source in place, so only the destination is new
+    const filePath = status === "C" ? paths[1] : paths[0];
+    if (!filePath || !isWatched(filePath, config)) continue;
+
+    if (status === "D") {
+      removedFiles.push(filePath);
+      continue;
+    }
 
-    const entry: ChangedFile = { path: filePath, content, diff, status };
-    if (status === "A") {
-      newFiles.push(entry);
+    const change = await readChange(filePath, [filePath]);
+    if (!change) continue;
+
+    if (status === "A" || status === "C") {
+      newFiles.push({ path: filePath, ...change, status: "A" });
     } else {
-      modifiedFiles.push(entry);
+      modifiedFiles.push({ path: filePath, ...change, status: "M" });
+    }
+  }
+
+  // HEAD is only where the scan noticed a removal; find the commit that made it
+  const removals: Record<string, FileRemoval> = {};
+  for (const filePath of removedFiles) {
+    try {
+      const logResult = await Bun.$`git -C ${appPath} log -1 --no-renames --diff-filter=D --format=%H%x09%cI ${lastSHA}..HEAD -- ${filePath}`.quiet();
+      const [sha, date] = logResult.stdout.toString().trim().split("\t");
+      if (sha && date) removals[filePath] = { sha, date };
+    } catch {
+      // Leave it to the caller to fall back to HEAD
     }
   }
 
-  return { currentSHA, newFiles, removedFiles, modifiedFiles };
+  return { currentSHA, commitDate, newFiles, removedFiles, modifiedFiles, renamedFiles, removals };
 }
@@ -0,0 +1,76 @@
+/**
+ * sync/strings.ts — Pure functions: localized string tables → key → text.
+ *
+ * SwiftUI treats a Text / .navigationTitle literal as a localization key, so
+ * titles the parser finds may be keys like "settings.title". The app's
+ * Localizable.strings and String Catalog (.xcstrings) files map them back to
+ * the development-language text used for step labels.
+ */
+
+import { tokenize } from "./lexer";
+
+export type StringTable = Map<string, string>;
+
+/** Table files the daemon reads: catalogs, and .strings in the development language */
+export function isStringTablePath(path: string): boolean {
+  if (path.endsWith(".xcstrings")) return true;
+  if (!path.endsWith(".strings")) return false;
+  return !path.includes(".lproj/") || /(^|\/)(en|Base)\.lproj\//.test(path);
+}
+
+function unescape(value: string): string {
+  return value.replace(/\\(.)/g, (_, c: string) => (c === "n" ? "\n" : c === "t" ? "\t" : c));
+}
+
+/** `"key" = "value";` pairs; comments are skipped by the lexer */
+export function parseStringsFile(content: string): StringTable {
+  const table: StringTable = new Map();
+  const tokens = tokenize(content);
+  for (let i = 0; i + 2 < tokens.length; i++) {
+    const [key, eq, value] = [tokens[i]!, tokens[i + 1]!, tokens[i + 2]!];
+    if (key.kind !== "string" || eq.text !== "=" || value.kind !== "string") continue;
+    table.set(unescape(key.value ?? ""), unescape(value.value ?? ""));
+    i += 2;
+  }
+  return table;
+}
+
+interface StringCatalog {
+  sourceLanguage?: string;
+  strings?: Record<string, {
+    localizations?: Record<string, { stringUnit?: { value?: string } }>;
+  }>;
+}
+
+/** Source-language values from an Xcode String Catalog; keys without one are their own text */
+export function parseStringCatalog(content: string): StringTable {
+  const table: StringTable = new Map();
+  let catalog: StringCatalog;
+  try {
+    catalog = JSON.parse(content);
+  } catch {
+    return table;
+  }
+  const language = catalog.sourceLanguage ?? "en";
+  for (const [key, entry] of Object.entries(catalog.strings ?? {})) {
+    const value = entry?.localizations?.[language]?.stringUnit?.value;
+    if (value) table.set(key, value);
+  }
+  return table;
+}
+
+export function parseStringTable(path: string, content: string): StringTable {
+  return path.endsWith(".xcstrings") ? parseStringCatalog(content) : parseStringsFile(content);
+}
+
+/** Later tables win */
+export function mergeStringTables(tables: Iterable<StringTable>): StringTable {
+  const merged: StringTable = new Map();
+  for (const table of tables) for (const [key, value] of table) merged.set(key, value);
+  return merged;
+}
+
+/** The text for a key, or the text itself when it isn't one */
+export function localize(table: StringTable, text: string): string {
+  return table.get(text) ?? text;
+}
@@ -1,20 +1,78 @@
 /**
- * sync/sync.test.ts — Tests for parse, merge, validate.
+ * sync/sync.test.ts — Tests for lexer, parse, parse-uikit, parse-compose, strings, config, merge, migrate, validate.
  *
  * Tier 1: Unit tests (parse patterns, merge rules, validate cases)
  * Tier 2: Integration test with a temp git repo + Swift fixtures
  */
 
 import { test, expect, describe, beforeAll, afterAll } from "bun:test";
-import { parseSwiftFile } from "./parse";
-import type { ParsedView } from "./parse";
-import { merge } from "./merge";
-import type { WorkflowDefs, Step, Journey } from "./merge";
-import { validate } from "./validate";
+import { parseEntryPoints, parseSwiftFile, parseRoutes } from "./parse";
+import { codeOnly, readCall, splitArgs, tokenize } from "./lexer";
+import type { EntryPoint, ParsedView } from "./parse";
+import { parseKotlinFile, parseNavGraph } from "./parse-compose";
+import { isStringTablePath, localize, parseStringCatalog, parseStringsFile } from "./strings";
+import { merge, applyChanges, changeDependencies, dependentChanges, rebaseChanges } from "./merge";
+import type { ChangeRecord, WorkflowDefs, Step, Journey } from "./merge";
+import { edgeLabelsByTarget, migrateWorkflowDefs } from "./migrate";
+import { validate, validateStructure } from "./validate";
 import { scan } from "./scan";
+import { DEFAULT_CONFIG, isWatched, loadConfig, matchJourneyRule, validateConfig } from "./config";
+import type { SyncConfig } from "./config";
 import { join } from "path";
 import { mkdirSync, rmSync, writeFileSync } from "node:fs";
 
+// ══════════════════════════════════════════════════════════════════════════
+// Tier 1: Unit Tests — lexer.ts
+// ══════════════════════════════════════════════════════════════════════════
+
+describe("lexer.ts — tokens", () => {
+  test("drops line and nested block comments", () => {
+    const tokens = tokenize(`a // b\n/* c /* d */ e */ f`);
+    expect(tokens.map(t => t.text)).toEqual(["a", "f"]);
+  });
+
+  test("string literals are single tokens, including interpolation and raw strings", () => {
+    const tokens = tokenize(`Text("a \\(b("}")) c") + #"x "y" \\(z)"# + """
+      multi { line
+      """`);
+    expect(tokens.map(t => t.kind)).toEqual(["ident", "punct", "string", "punct", "punct", "string", "punct", "string"]);
+    expect(tokens[2]!.value).toBe(`a \\(b("}")) c`);
+    expect(tokens[5]!.value).toBe(`x "y" \\(z)`);
+  });
+
+  test("$bindings, #directives and backticked names are identifiers", () => {
+    const tokens = tokenize("$show #Preview `default` 0..<5");
+    expect(tokens.map(t => `${t.kind}:${t.text}`)).toEqual([
+      "ident:$show", "ident:#Preview", "ident:default", "number:0", "punct:.", "punct:.", "punct:<", "number:5",
+    ]);
+  });
+
+  test("codeOnly blanks comments and string bodies but keeps offsets", () => {
+    const src = `TextField("a") // Picker\nText("Toggle")`;
+    const code = codeOnly(src);
+    expect(code.length).toBe(src.length);
+    expect(code).not.toMatch(/Picker|Toggle|"a"/);
+    expect(code).toContain("TextField(\"");
+  });
+});
+
+describe("lexer.ts — calls", () => {
+  test("readCall finds arguments and multiple trailing closures", () => {
+    const tokens = tokenize(`(x: f(1), y: { }) { A() } label: { B() } .next`);
+    const call = readCall(tokens, 0);
+    expect(call.args).not.toBeNull();
+    expect(call.closures.map(c => c.label)).toEqual([null, "label"]);
+    expect(tokens[call.end]!.text).toBe(".");
+  });
+
+  test("splitArgs splits on top-level commas only", () => {
+    const tokens = tokenize(`("Title", destination: Detail(a: 1, b: 2))`);
+    const args = splitArgs(tokens, readCall(tokens, 0).args!);
+    expect(args.map(a => a.label)).toEqual([null, "destination"]);
+    expect(tokens.slice(args[1]!.from, args[1]!.to).map(t => t.text).join("")).toBe("Detail(a:1,b:2)");
+  });
+});
+
 // ══════════════════════════════════════════════════════════════════════════
 // Tier 1: Unit Tests — parse.ts
 // ══════════════════════════════════════════════════════════════════════════
@@ -22,18 +80,18 @@ import { mkdirSync, rmSync, writeFileSync } from "node:fs";
 describe("parse.ts — struct name extraction", () => {
   test("extracts struct name from View conformance", () => {
     const content = `struct LoginView: View { var body: some View { Text("hi") } }`;
-    const result = parseSwiftFile("Login.swift", content);
+    const result = parseSwiftFile("Login.swift", content)[0];
     expect(result?.structName).toBe("LoginView");
   });
 
-  test("returns null if no View conformance", () => {
+  test("returns no views if no View conformance", () => {
     const content = `class Foo { }`;
-    expect(parseSwiftFile("Foo.swift", content)).toBeNull();
+    expect(parseSwiftFile("Foo.swift", content)).toEqual([]);
   });
 
   test("handles whitespace around colon", () => {
     const content = `struct SomeView : View { }`;
-    const result = parseSwiftFile("Some.swift", content);
+    const result = parseSwiftFile("Some.swift", content)[0];
     expect(result?.structName).toBe("SomeView");
   });
 });
@@ -50,7 +108,7 @@ describe("parse.ts — navigation edge extraction", () => {
         }
       }
     `;
-    const result = parseSwiftFile("Home.swift", content)!;
+    const result = parseSwiftFile("Home.swift", content)[0]!;
     expect(result.presentsTo).toContainEqual({ destination: "DetailView", mechanism: "sheet" });
   });
 
@@ -64,8 +122,8 @@ describe("parse.ts — navigation edge extraction", () => {
         }
       }
     `;
-    const result = parseSwiftFile("Root.swift", content)!;
-    expect(result.presentsTo).toContainEqual({ destination: "SettingsView", mechanism: "navigationLink" });
+    const result = parseSwiftFile("Root.swift", content)[0]!;
+    expect(result.presentsTo).toContainEqual({ destination: "SettingsView", mechanism: "navigationLink", label: "Settings" });
   });
 
   test(".navigationDestination pattern", () => {
@@ -79,7 +137,7 @@ describe("parse.ts — navigation edge extraction", () => {
         }
       }
     `;
-    const result = parseSwiftFile("List.swift", content)!;
+    const result = parseSwiftFile("List.swift", content)[0]!;
     expect(result.presentsTo).toContainEqual({ destination: "EditorView", mechanism: "navigationDestination" });
   });
 
@@ -94,7 +152,7 @@ describe("parse.ts — navigation edge extraction", () => {
         }
       }
     `;
-    const result = parseSwiftFile("Onboarding.swift", content)!;
+    const result = parseSwiftFile("Onboarding.swift", content)[0]!;
     expect(result.presentsTo).toContainEqual({ destination: "PaywallView", mechanism: "fullScreenCover" });
   });
 
@@ -109,252 +167,2271 @@ describe("parse.ts — navigation edge extraction", () => {
         }
       }
     `;
-    const result = parseSwiftFile("Feed.swift", content)!;
+    const result = parseSwiftFile("Feed.swift", content)[0]!;
     const sheets = result.presentsTo.filter(e => e.destination === "ArticleView" && e.mechanism === "sheet");
     expect(sheets.length).toBe(1);
   });
 });
 
-describe("parse.ts — type inference", () => {
-  test("TextField → input", () => {
-    const content = `struct SearchView: View { var body: some View { TextField("q", text: $q) } }`;
-    expect(parseSwiftFile("Search.swift", content)?.inferredType).toBe("input");
+describe("parse.ts — nested and commented code", () => {
+  test("nested parentheses and closures in modifier arguments", () => {
+    const content = `
+      struct HomeView: View {
+        var body: some View {
+          List { }
+            .sheet(isPresented: Binding(get: { model.isOpen(for: id) }, set: { _ in model.close() }), onDismiss: { reload() }) {
+              NavigationStack {
+                VStack(spacing: 8) {
+                  Text(title(for: item))
+                  ComposerScreen(draft: Draft(text: ""), onSend: { send($0) })
+                }
+              }
+            }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Home.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "ComposerScreen", mechanism: "sheet" },
+    ]);
   });
 
-  test("Picker → input", () => {
-    const content = `struct PrefView: View { var body: some View { Picker("x", selection: $s) {} } }`;
-    expect(parseSwiftFile("Pref.swift", content)?.inferredType).toBe("input");
+  test("commented-out code and string literals produce no edges", () => {
+    const content = `
+      struct HomeView: View {
+        var body: some View {
+          // .sheet(isPresented: $a) { OldView() }
+          /* NavigationLink { /* nested */ LegacyView() } label: { Text("x") } */
+          Text("NavigationLink { FakeView() }")
+            .sheet(isPresented: $b) { RealView() }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Home.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "RealView", mechanism: "sheet" },
+    ]);
   });
 
-  test("conditional nav → decision", () => {
+  test("every branch of conditional sheet content is an edge", () => {
     const content = `
-      struct SplashView: View {
+      struct HomeView: View {
         var body: some View {
-          if isLoggedIn {
-            NavigationLink { HomeView() } label: { EmptyView() }
+          Color.clear
+            .fullScreenCover(item: $route) { route in
+              switch route {
+              case .paywall: Paywall(source: .home)
+              case .detail(let id): NoteDetailView(id: id)
+              }
+            }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Home.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "Paywall", mechanism: "fullScreenCover" },
+      { destination: "NoteDetailView", mechanism: "fullScreenCover" },
+    ]);
+  });
+
+  test("NavigationLink forms: destination argument, titled, value-based", () => {
+    const content = `
+      struct RootView: View {
+        var body: some View {
+          NavigationLink(destination: ProfileView(user: user)) { AvatarRow(user: user) }
+          NavigationLink("About") { AboutScreen() }
+          NavigationLink(value: Route.settings) { SettingsRow() }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Root.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "ProfileView", mechanism: "navigationLink" },
+      { destination: "AboutScreen", mechanism: "navigationLink", label: "About" },
+    ]);
+  });
+
+  test("NavigationLink inside a sheet is a navigation edge, not a sheet edge", () => {
+    const content = `
+      struct RootView: View {
+        var body: some View {
+          Text("x").sheet(isPresented: $show) {
+            NavigationStack { NavigationLink { DetailView() } label: { Text("Go") } }
           }
         }
       }
     `;
-    expect(parseSwiftFile("Splash.swift", content)?.inferredType).toBe("decision");
+    expect(parseSwiftFile("Root.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "DetailView", mechanism: "navigationLink", label: "Go" },
+    ]);
   });
 
-  test("Button + dismiss → action", () => {
+  test("TabView children and iOS 18 Tab content", () => {
     const content = `
-      struct ConfirmView: View {
-        @Environment(\\.dismiss) var dismiss
+      struct MainTabs: View {
         var body: some View {
-          Button("OK") { dismiss() }
+          TabView {
+            Tab("Home", systemImage: "house") { HomeView() }
+            LibraryView().tabItem { Label("Library", systemImage: "books") }
+          }
         }
       }
     `;
-    expect(parseSwiftFile("Confirm.swift", content)?.inferredType).toBe("action");
+    expect(parseSwiftFile("Main.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "HomeView", mechanism: "tabView", label: "Home" },
+      { destination: "LibraryView", mechanism: "tabView", label: "Library" },
+    ]);
   });
 
-  test("plain display view → display", () => {
+  test("struct conformance list, generics and comments before the View struct", () => {
     const content = `
-      struct WelcomeView: View {
+      // struct OldView: View { }
+      struct Row<Item: Identifiable>: Equatable, SwiftUI.View where Item: Hashable {
+        var body: some View { Text("row") }
+      }
+    `;
+    expect(parseSwiftFile("Row.swift", content)[0]?.structName).toBe("Row");
+  });
+
+  test("commented-out inputs don't affect type inference", () => {
+    const content = `
+      struct NoteView: View {
         var body: some View {
-          VStack { Text("Welcome!") Image("hero") }
+          // TextField("Title", text: $title)
+          Text("Picker")
         }
       }
     `;
-    expect(parseSwiftFile("Welcome.swift", content)?.inferredType).toBe("display");
+    expect(parseSwiftFile("Note.swift", content)[0]?.inferredType).toBe("display");
   });
 });
 
-// ══════════════════════════════════════════════════════════════════════════
-// Tier 1: Unit Tests — merge.ts
-// ══════════════════════════════════════════════════════════════════════════
+describe("parse.ts — multiple views per file", () => {
+  const content = `
+    struct NoteListView: View {
+      @State private var showNew = false
+      var body: some View {
+        List { Row() }
+          .sheet(isPresented: $showNew) { NewNoteSheet() }
+      }
 
-function makeWorkflow(journeys: Journey[] = []): WorkflowDefs {
-  return { version: "1.0", generatedAt: new Date().toISOString(), journeys };
-}
+      struct Row: View {
+        var body: some View {
+          NavigationLink("Open") { NoteDetailView() }
+        }
+      }
+    }
 
-function makeJourney(id: string, steps: Step[] = []): Journey {
-  return { id, name: id, description: "", steps };
-}
+    private struct NewNoteSheet: View {
+      @State private var title = ""
+      var body: some View { TextField("Title", text: $title) }
+    }
 
-function makeStep(id: string, overrides: Partial<Step> = {}): Step {
-  return {
-    id,
-    label: id,
-    screen: id,
-    swiftFile: `${id}.swift`,
-    type: "display",
-    phase: "Unassigned",
-    next: [],
-    ...overrides,
-  };
-}
+    extension NoteListView {
+      var settingsButton: some View {
+        Button("Settings") { showSettings = true }
+          .popover(isPresented: $showSettings) { SettingsView() }
+      }
+    }
+  `;
 
-describe("merge.ts — new files", () => {
-  test("adds a new step for a new file", () => {
-    const defs = makeWorkflow([makeJourney("first-launch", [makeStep("existing")])]);
-    const parsed: ParsedView = {
-      structName: "WelcomeView",
-      filePath: "ExampleApp/Sources/UI/Onboarding/WelcomeView.swift",
-      presentsTo: [],
-      inferredType: "display",
-    };
+  test("returns every View struct, nested and private ones included", () => {
+    expect(parseSwiftFile("NoteList.swift", content).map(v => v.structName)).toEqual(["NoteListView", "Row", "NewNoteSheet"]);
+  });
+
+  test("edges and types belong to the struct (and extensions) that declare them", () => {
+    const [list, row, sheet] = parseSwiftFile("NoteList.swift", content);
+    expect(list!.presentsTo).toEqual([
+      { destination: "NewNoteSheet", mechanism: "sheet" },
+      { destination: "SettingsView", mechanism: "popover", label: "Settings" },
+    ]);
+    expect(list!.inferredType).toBe("display");
+    expect(row!.presentsTo).toEqual([{ destination: "NoteDetailView", mechanism: "navigationLink", label: "Open" }]);
+    expect(sheet!.presentsTo).toEqual([]);
+    expect(sheet!.inferredType).toBe("input");
+  });
+
+  test("every view controller class in a UIKit file", () => {
+    const uikit = `
+      class InboxViewController: UIViewController {
+        override func viewDidLoad() {}
+        func open() { navigationController?.pushViewController(ThreadViewController(), animated: true) }
+      }
+      final class ThreadViewController: UIViewController {
+        override func viewDidLoad() {}
+      }
+    `;
+    const views = parseSwiftFile("Inbox.swift", uikit);
+    expect(views.map(v => v.structName)).toEqual(["InboxViewController", "ThreadViewController"]);
+    expect(views[1]!.presentsTo).toEqual([]);
+  });
+
+  test("truncated UIKit files parse without throwing", () => {
+    const uikit = `
+      class InboxViewController: UIViewController {
+        override func prepare(for segue: UIStoryboardSegue, sender: Any?) {
+          if segue.identifier == "showThread" {
+            let vc = segue.destination as! ThreadViewController
+          }
+        }
+        func open() {
+          let vc = storyboard?.instantiateViewController(withIdentifier: "Thread") as? ThreadViewController
+          navigationController?.pushViewController(vc!, animated: true)
+          performSegue(withIdentifier: "showThread", sender: nil)
+        }
+      }
+    `;
+    for (let end = 0; end <= uikit.length; end++) {
+      expect(() => parseSwiftFile("Inbox.swift", uikit.slice(0, end))).not.toThrow();
+    }
+  });
+});
+
+describe("parse.ts — edge labels", () => {
+  test("sheet edges take the title of the Button that presents them", () => {
+    const content = `
+      struct HomeView: View {
+        @State private var showSettings = false
+        @State private var exportItem: Export?
+        var body: some View {
+          VStack {
+            Button("Close") { showSettings = false }
+            Button("Settings") { showSettings = true }
+            Button { exportItem = Export(notes) } label: {
+              Label("Export", systemImage: "square.and.arrow.up")
+            }
+          }
+          .sheet(isPresented: $showSettings) { SettingsView() }
+          .sheet(item: $exportItem) { item in ExportView(item: item) }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Home.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "SettingsView", mechanism: "sheet", label: "Settings" },
+      { destination: "ExportView", mechanism: "sheet", label: "Export" },
+    ]);
+  });
+
+  test("action: argument, toggle() and model bindings", () => {
+    const content = `
+      struct HomeView: View {
+        var body: some View {
+          Button(action: { model.isComposing.toggle() }) { Text("New note") }
+            .fullScreenCover(isPresented: $model.isComposing) { ComposerView() }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Home.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "ComposerView", mechanism: "fullScreenCover", label: "New note" },
+    ]);
+  });
+
+  test("interpolations are elided; no trigger means no label", () => {
+    const content = `
+      struct HomeView: View {
+        var body: some View {
+          NavigationLink { TagView(tag: tag) } label: { Text("#\\(tag.name)") }
+          Color.clear.sheet(isPresented: $show) { AboutView() }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Home.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "AboutView", mechanism: "sheet" },
+      { destination: "TagView", mechanism: "navigationLink", label: "#…" },
+    ]);
+  });
+});
+
+describe("parse.ts — alerts, dialogs, popovers, inspectors", () => {
+  test(".popover and .inspector are presentation edges", () => {
+    const content = `
+      struct EditorView: View {
+        var body: some View {
+          TextEditor(text: $text)
+            .popover(isPresented: $showFormat) { FormatPicker() }
+            .inspector(isPresented: $showInfo) { NoteInfoPanel(note: note) }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Editor.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "FormatPicker", mechanism: "popover" },
+      { destination: "NoteInfoPanel", mechanism: "inspector" },
+    ]);
+  });
+
+  test("alert buttons that present something become labelled edges with roles", () => {
+    const content = `
+      struct NoteView: View {
+        var body: some View {
+          Text(note.body)
+            .alert("Storage full", isPresented: $showLimit) {
+              Button("Upgrade") { showPaywall = true }
+              Button(role: .cancel) { showPaywall = false }
+            } message: {
+              Text("Upgrade to keep more notes")
+            }
+            .confirmationDialog("Delete note?", isPresented: $confirmDelete) {
+              Button("Delete", role: .destructive) { undoItem = note }
+            }
+            .sheet(isPresented: $showPaywall) { PaywallView() }
+            .sheet(item: $undoItem) { item in UndoBanner(item: item) }
+        }
+      }
+    `;
+    const result = parseSwiftFile("Note.swift", content)[0]!;
+    expect(result.presentsTo.filter(e => e.mechanism === "alert" || e.mechanism === "confirmationDialog")).toEqual([
+      { destination: "PaywallView", mechanism: "alert", label: "Upgrade" },
+      { destination: "UndoBanner", mechanism: "confirmationDialog", label: "Delete", role: "destructive" },
+    ]);
+    expect(result.inferredType).toBe("decision");
+  });
+
+  test("legacy Alert buttons and role-only labels", () => {
+    const content = `
+      struct ListScreen: View {
+        var body: some View {
+          List { }
+            .alert(isPresented: $confirm) {
+              Alert(
+                title: Text("Discard draft?"),
+                primaryButton: .destructive(Text("Discard")) { restart = true },
+                secondaryButton: .cancel { showHelp = true }
+              )
+            }
+            .fullScreenCover(isPresented: $restart) { OnboardingView() }
+            .sheet(isPresented: $showHelp) { HelpView() }
+        }
+      }
+    `;
+    const result = parseSwiftFile("List.swift", content)[0]!;
+    expect(result.presentsTo.filter(e => e.mechanism === "alert")).toEqual([
+      { destination: "OnboardingView", mechanism: "alert", label: "Discard", role: "destructive" },
+      { destination: "HelpView", mechanism: "alert", label: "Cancel", role: "cancel" },
+    ]);
+    expect(result.inferredType).toBe("decision");
+  });
+
+  test("a single-button alert is not a decision; a confirmation dialog is", () => {
+    const alertOnly = `
+      struct SavedView: View {
+        var body: some View {
+          Text("Saved").alert("Saved", isPresented: $done) { Button("OK") { } }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Saved.swift", alertOnly)[0]?.inferredType).toBe("display");
+
+    const dialog = `
+      struct RowView: View {
+        var body: some View {
+          Text("Row").confirmationDialog("Remove?", isPresented: $ask) {
+            Button("Remove", role: .destructive) { remove() }
+          }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Row.swift", dialog)[0]?.inferredType).toBe("decision");
+  });
+});
+
+describe("parse.ts — NavigationStack paths and route enums", () => {
+  const ROOT = `
+    struct RootView: View {
+      @State private var path = NavigationPath()
+      var body: some View {
+        NavigationStack(path: $path) {
+          HomeView(path: $path)
+            .navigationDestination(for: Route.self) { route in
+              switch route {
+              case .detail(let id):
+                NoteDetailView(id: id)
+              case .settings, .account:
+                if case .account = route { AccountView() } else { SettingsView() }
+              default:
+                EmptyView()
+              }
+            }
+        }
+      }
+    }
+  `;
+
+  test("navigationDestination(for:) is a route table, not a set of edges", () => {
+    const routes = parseRoutes(ROOT);
+    expect([...routes]).toEqual([
+      ["Route.detail", ["NoteDetailView"]],
+      ["Route.settings", ["AccountView", "SettingsView"]],
+      ["Route.account", ["AccountView", "SettingsView"]],
+    ]);
+    expect(parseSwiftFile("Root.swift", ROOT)[0]!.presentsTo).toEqual([]);
+  });
+
+  test("path.append / push sites resolve through another file's routes", () => {
+    const home = `
+      struct HomeView: View {
+        @Binding var path: NavigationPath
+        var body: some View {
+          List(notes) { note in
+            Button(note.title) { path.append(Route.detail(note.id)) }
+          }
+          .toolbar {
+            Button("Settings") { router.push(.settings) }
+          }
+          .onAppear { items.append(.init()) }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Home.swift", home, parseRoutes(ROOT))[0]!.presentsTo).toEqual([
+      { destination: "NoteDetailView", mechanism: "navigationPath" },
+      { destination: "AccountView", mechanism: "navigationPath", label: "Settings" },
+      { destination: "SettingsView", mechanism: "navigationPath", label: "Settings" },
+    ]);
+    // Without the route table nothing resolves
+    expect(parseSwiftFile("Home.swift", home)[0]!.presentsTo).toEqual([]);
+  });
+
+  test("NavigationLink(value:) resolves through the same file's routes", () => {
+    const content = `
+      struct LibraryView: View {
+        var body: some View {
+          NavigationStack {
+            NavigationLink(value: Route.detail(note.id)) { Text("Open note") }
+              .navigationDestination(for: Route.self) { route in
+                switch route {
+                case .detail(let id): NoteDetailView(id: id)
+                }
+              }
+          }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Library.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "NoteDetailView", mechanism: "navigationLink", label: "Open note" },
+    ]);
+  });
+});
+
+describe("parse.ts — entry points", () => {
+  test("onOpenURL lands on the sheet or route its branch opens", () => {
+    const content = `
+      struct ContentView: View {
+        @State private var showCapture = false
+        @State private var path = NavigationPath()
+        var body: some View {
+          NavigationStack(path: $path) {
+            HomeView()
+              .navigationDestination(for: Route.self) { route in
+                switch route {
+                case .note: NoteView()
+                }
+              }
+          }
+          .sheet(isPresented: $showCapture) { CaptureView() }
+          .onOpenURL { url in
+            if url.host == "capture" {
+              showCapture = true
+            } else {
+              path.append(Route.note)
+            }
+          }
+        }
+      }
+    `;
+    expect(parseEntryPoints("ContentView.swift", content)).toEqual([
+      { kind: "openURL", destination: "CaptureView", detail: "capture", filePath: "ContentView.swift" },
+      { kind: "openURL", destination: "NoteView", filePath: "ContentView.swift" },
+    ]);
+  });
+
+  test("handler that opens nothing lands on its own view", () => {
+    const content = `
+      struct InboxView: View {
+        var body: some View {
+          List {}.onOpenURL { url in store.import(url) }
+        }
+      }
+    `;
+    expect(parseEntryPoints("Inbox.swift", content)).toEqual([
+      { kind: "openURL", destination: "InboxView", filePath: "Inbox.swift" },
+    ]);
+  });
+
+  test("handlesExternalEvents on a scene lands on its root view", () => {
+    const content = `
+      @main
+      struct NotesApp: App {
+        var body: some Scene {
+          WindowGroup { ContentView() }
+            .handlesExternalEvents(matching: ["capture", "*"])
+        }
+      }
+    `;
+    expect(parseEntryPoints("NotesApp.swift", content)).toEqual([
+      { kind: "externalEvents", destination: "ContentView", detail: "capture", filePath: "NotesApp.swift" },
+    ]);
+  });
+
+  test("onContinueUserActivity follows its perform: function", () => {
+    const content = `
+      struct RootView: View {
+        @State private var selected: Note?
+        var body: some View {
+          HomeView()
+            .sheet(item: $selected) { note in NoteView(note: note) }
+            .onContinueUserActivity("com.example.note", perform: open)
+        }
+        func open(_ activity: NSUserActivity) {
+          selected = store.note(for: activity)
+        }
+      }
+    `;
+    expect(parseEntryPoints("Root.swift", content)).toEqual([
+      { kind: "userActivity", destination: "NoteView", detail: "com.example.note", filePath: "Root.swift" },
+    ]);
+  });
+
+  test("App Intent lands on the view its perform() shows", () => {
+    const content = `
+      struct NewCaptureIntent: AppIntent {
+        static var title: LocalizedStringResource = "New Capture"
+        func perform() async throws -> some IntentResult & ShowsSnippetView {
+          return .result(view: CaptureSnippetView())
+        }
+      }
+      struct LogIntent: AppIntent {
+        static var title: LocalizedStringResource = "Log"
+        func perform() async throws -> some IntentResult { .result() }
+      }
+    `;
+    expect(parseEntryPoints("Intents.swift", content)).toEqual([
+      { kind: "appIntent", destination: "CaptureSnippetView", detail: "New Capture", filePath: "Intents.swift" },
+    ]);
+  });
+
+  test("file without handlers has no entry points", () => {
+    const content = `struct PlainView: View { var body: some View { Text("Hi") } }`;
+    expect(parseEntryPoints("Plain.swift", content)).toEqual([]);
+  });
+});
+
+describe("parse.ts — type inference", () => {
+  test("TextField → input", () => {
+    const content = `struct SearchView: View { var body: some View { TextField("q", text: $q) } }`;
+    expect(parseSwiftFile("Search.swift", content)[0]?.inferredType).toBe("input");
+  });
+
+  test("Picker → input", () => {
+    const content = `struct PrefView: View { var body: some View { Picker("x", selection: $s) {} } }`;
+    expect(parseSwiftFile("Pref.swift", content)[0]?.inferredType).toBe("input");
+  });
+
+  test("conditional nav → decision", () => {
+    const content = `
+      struct SplashView: View {
+        var body: some View {
+          if isLoggedIn {
+            NavigationLink { HomeView() } label: { EmptyView() }
+          }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Splash.swift", content)[0]?.inferredType).toBe("decision");
+  });
+
+  test("Button + dismiss → action", () => {
+    const content = `
+      struct ConfirmView: View {
+        @Environment(\\.dismiss) var dismiss
+        var body: some View {
+          Button("OK") { dismiss() }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Confirm.swift", content)[0]?.inferredType).toBe("action");
+  });
+
+  test("plain display view → display", () => {
+    const content = `
+      struct WelcomeView: View {
+        var body: some View {
+          VStack { Text("Welcome!") Image("hero") }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Welcome.swift", content)[0]?.inferredType).toBe("display");
+  });
+
+  test("reports confidence and the evidence with its line", () => {
+    const content = [
+      "struct SearchView: View {",
+      "  var body: some View {",
+      "    TextField(\"q\", text: $q)",
+      "  }",
+      "}",
+    ].join("\n");
+    const view = parseSwiftFile("Search.swift", content)[0]!;
+    expect(view.typeConfidence).toBe(0.9);
+    expect(view.typeEvidence).toEqual(["TextField at line 3"]);
+  });
+
+  test("evidence lines count from the top of the file, past other views", () => {
+    const content = [
+      "struct RowView: View {",
+      "  var body: some View { Text(\"Row\") }",
+      "}",
+      "struct ConfirmView: View {",
+      "  @Environment(\\.dismiss) var dismiss",
+      "  var body: some View {",
+      "    Button(\"OK\") { dismiss() }",
+      "  }",
+      "}",
+    ].join("\n");
+    const confirm = parseSwiftFile("Confirm.swift", content)[1]!;
+    expect(confirm.inferredType).toBe("action");
+    expect(confirm.typeEvidence).toEqual(["Button at line 7", "dismiss at line 7"]);
+  });
+
+  test("weaker matches get lower confidence", () => {
+    const toggles = `struct PrefsView: View { var body: some View { Toggle("Sync", isOn: $sync) } }`;
+    const button = `struct HomeView: View { var body: some View { Button("Go") { go() } } }`;
+    expect(parseSwiftFile("Prefs.swift", toggles)[0]).toMatchObject({ inferredType: "input", typeConfidence: 0.6 });
+    expect(parseSwiftFile("Home.swift", button)[0]).toMatchObject({
+      inferredType: "display",
+      typeConfidence: 0.5,
+      typeEvidence: ["Button at line 1 without dismiss"],
+    });
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════════════
+// Tier 1: Unit Tests — parse-uikit.ts
+// ══════════════════════════════════════════════════════════════════════════
+
+describe("parse.ts — screen titles", () => {
+  test("navigationTitle wins over other text", () => {
+    const content = `
+      struct SettingsView: View {
+        var body: some View {
+          Form { Text("Account").font(.headline) }
+            .navigationTitle("Settings")
+        }
+      }
+    `;
+    expect(parseSwiftFile("Settings.swift", content)[0]!.title).toBe("Settings");
+  });
+
+  test("localized title keys are kept as keys", () => {
+    const content = `
+      struct TagsView: View {
+        var body: some View { List {}.navigationTitle(String(localized: "tags.title")) }
+      }
+    `;
+    expect(parseSwiftFile("Tags.swift", content)[0]!.title).toBe("tags.title");
+  });
+
+  test("falls back to the first prominent Text", () => {
+    const content = `
+      struct WelcomeView: View {
+        var body: some View {
+          VStack {
+            Text("Step 1 of 3").font(.caption)
+            Text("Welcome to Notes").bold().font(.largeTitle)
+          }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Welcome.swift", content)[0]!.title).toBe("Welcome to Notes");
+  });
+
+  test("no title without a navigationTitle or prominent Text", () => {
+    const content = `struct RowView: View { var body: some View { Text("Row") } }`;
+    expect(parseSwiftFile("Row.swift", content)[0]!.title).toBeUndefined();
+  });
+
+  test("UIKit controller title assignment", () => {
+    const content = `
+      class ExportViewController: UIViewController {
+        override func viewDidLoad() {
+          super.viewDidLoad()
+          let title = "ignored"
+          navigationItem.title = NSLocalizedString("export.title", comment: "")
+        }
+      }
+    `;
+    expect(parseSwiftFile("Export.swift", content)[0]!.title).toBe("export.title");
+  });
+
+  test("Compose TopAppBar title", () => {
+    const content = `
+      @Composable
+      fun TagsScreen() {
+        Scaffold(topBar = { TopAppBar(title = { Text("Tags") }) }) { padding -> LazyColumn {} }
+      }
+    `;
+    expect(parseKotlinFile("TagsScreen.kt", content)[0]!.title).toBe("Tags");
+  });
+});
+
+describe("parse-uikit.ts — view controllers", () => {
+  test("class name from a UIViewController subclass", () => {
+    const content = `final class InboxViewController: UIViewController { override func viewDidLoad() {} }`;
+    const result = parseSwiftFile("Inbox.swift", content)[0];
+    expect(result?.structName).toBe("InboxViewController");
+    expect(result?.inferredType).toBe("display");
+  });
+
+  test("non-controller classes are ignored", () => {
+    expect(parseSwiftFile("Store.swift", `final class NoteStore: ObservableObject {}`)).toEqual([]);
+  });
+
+  test("present, push, navigation and hosting wrappers", () => {
+    const content = `
+      class HomeViewController: UIViewController {
+        override func viewDidLoad() {}
+        @objc func compose() {
+          let nav = UINavigationController(rootViewController: ComposeViewController())
+          present(nav, animated: true)
+        }
+        func open(_ note: Note) {
+          navigationController?.pushViewController(NoteViewController(note: note), animated: true)
+        }
+        func settings() {
+          let host = UIHostingController(rootView: SettingsView())
+          show(host, sender: self)
+        }
+        func share() {
+          present(UIActivityViewController(activityItems: [], applicationActivities: nil), animated: true)
+        }
+      }
+    `;
+    expect(parseSwiftFile("Home.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "ComposeViewController", mechanism: "present" },
+      { destination: "NoteViewController", mechanism: "push" },
+      { destination: "SettingsView", mechanism: "show" },
+    ]);
+  });
+
+  test("storyboard controllers resolve through as! casts", () => {
+    const content = `
+      class ListViewController: UITableViewController {
+        override func viewDidLoad() {}
+        func open() {
+          let vc = storyboard?.instantiateViewController(withIdentifier: "Detail")
+            as! DetailViewController
+          navigationController?.pushViewController(vc, animated: true)
+        }
+      }
+    `;
+    expect(parseSwiftFile("List.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "DetailViewController", mechanism: "push" },
+    ]);
+  });
+
+  test("performSegue resolves through prepare(for:sender:)", () => {
+    const content = `
+      class LoginViewController: UIViewController {
+        override func viewDidLoad() {}
+        @IBAction func signUp() { performSegue(withIdentifier: "showSignUp", sender: self) }
+        @IBAction func help() { performSegue(withIdentifier: "showHelp", sender: self) }
+        override func prepare(for segue: UIStoryboardSegue, sender: Any?) {
+          if segue.identifier == "showSignUp", let vc = segue.destination as? SignUpViewController {
+            vc.email = email
+          }
+        }
+      }
+    `;
+    expect(parseSwiftFile("Login.swift", content)[0]!.presentsTo).toEqual([
+      { destination: "SignUpViewController", mechanism: "segue" },
+    ]);
+  });
+
+  test("UIAction and UIAlertAction titles label edges", () => {
+    const content = `
+      class NoteViewController: UIViewController {
+        override func viewDidLoad() {
+          navigationItem.rightBarButtonItem = UIBarButtonItem(primaryAction: UIAction(title: "Edit") { [weak self] _ in
+            self?.present(EditorViewController(), animated: true)
+          })
+        }
+        func confirmDelete() {
+          let alert = UIAlertController(title: "Delete?", message: nil, preferredStyle: .actionSheet)
+          alert.addAction(UIAlertAction(title: "Delete", style: .destructive, handler: { _ in
+            self.show(TrashViewController(), sender: nil)
+          }))
+          alert.addAction(UIAlertAction(title: "Cancel", style: .cancel))
+          present(alert, animated: true)
+        }
+      }
+    `;
+    const result = parseSwiftFile("Note.swift", content)[0]!;
+    expect(result.presentsTo).toEqual([
+      { destination: "EditorViewController", mechanism: "present", label: "Edit" },
+      { destination: "TrashViewController", mechanism: "show", label: "Delete", role: "destructive" },
+    ]);
+    expect(result.inferredType).toBe("decision");
+  });
+
+  test("share extension compose controller → input", () => {
+    const content = `
+      class ShareViewController: SLComposeServiceViewController {
+        override func didSelectPost() {
+          extensionContext?.completeRequest(returningItems: [], completionHandler: nil)
+        }
+      }
+    `;
+    expect(parseSwiftFile("ShareViewController.swift", content)[0]?.inferredType).toBe("input");
+  });
+
+  test("button + dismiss → action", () => {
+    const content = `
+      class DoneViewController: UIViewController {
+        override func viewDidLoad() {
+          let button = UIButton(primaryAction: UIAction(title: "Done") { _ in self.dismiss(animated: true) })
+          view.addSubview(button)
+        }
+      }
+    `;
+    expect(parseSwiftFile("Done.swift", content)[0]?.inferredType).toBe("action");
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════════════
+// Tier 1: Unit Tests — parse-compose.ts
+// ══════════════════════════════════════════════════════════════════════════
+
+describe("parse-compose.ts — Compose screens", () => {
+  const NAV_HOST = `
+    @Composable
+    fun AppNavHost(navController: NavHostController = rememberNavController()) {
+      NavHost(navController = navController, startDestination = "notes") {
+        composable("notes") {
+          NoteListScreen(
+            onOpenNote = { id -> navController.navigate("note/$id") },
+            onSettings = { navController.navigate(Routes.SETTINGS) },
+          )
+        }
+        composable(route = "note/{id}") { entry -> NoteDetailScreen(id = entry.arguments?.getString("id")) }
+        composable(Routes.SETTINGS) { SettingsPane() }
+        composable<Export> { ExportScreen() }
+      }
+    }
+  `;
+  const NOTE_LIST = `
+    @OptIn(ExperimentalMaterial3Api::class)
+    @Composable
+    fun NoteListScreen(onOpenNote: (String) -> Unit, onSettings: () -> Unit) {
+      var showNew by remember { mutableStateOf(false) }
+      Scaffold(floatingActionButton = {
+        FloatingActionButton(onClick = { showNew = true }) { Text("New note") }
+      }) { padding ->
+        LazyColumn { items(notes) { note -> NoteRow(note, onClick = { onOpenNote(note.id) }) } }
+        TextButton(onClick = { navController.navigate(Export(format = "md")) }) { Text("Export") }
+      }
+      if (showNew) {
+        ModalBottomSheet(onDismissRequest = { showNew = false }) { NewNoteSheet(onDone = { showNew = false }) }
+      }
+    }
+
+    @Composable
+    private fun NewNoteSheet(onDone: () -> Unit) {
+      var title by remember { mutableStateOf("") }
+      OutlinedTextField(value = title, onValueChange = { title = it })
+    }
+
+    @Composable
+    fun NoteRow(note: Note, onClick: () -> Unit) { Text(note.title) }
+
+    @Preview
+    @Composable
+    fun NoteListScreenPreview() { NoteListScreen({}, {}) }
+  `;
+
+  test("NavHost routes map to their destination composables", () => {
+    const graph = parseNavGraph(NAV_HOST);
+    expect([...graph.routes]).toEqual([
+      ["notes", ["NoteListScreen"]],
+      ["note/*", ["NoteDetailScreen"]],
+      ["Routes.SETTINGS", ["SettingsPane"]],
+      ["Export", ["ExportScreen"]],
+    ]);
+    expect(graph.calls.get("NoteListScreen")).toEqual([{ route: "note/*" }, { route: "Routes.SETTINGS" }]);
+  });
+
+  test("screens are *Screen, routed or sheet composables; rows and previews are not", () => {
+    const views = parseKotlinFile("NoteList.kt", NOTE_LIST, parseNavGraph(NAV_HOST));
+    expect(views.map(v => v.structName)).toEqual(["NoteListScreen", "NewNoteSheet"]);
+    expect(views.every(v => v.platform === "android")).toBe(true);
+  });
+
+  test("navigate() calls resolve through the NavHost, including callbacks wired up in it", () => {
+    const [list, sheet] = parseKotlinFile("NoteList.kt", NOTE_LIST, parseNavGraph(NAV_HOST));
+    expect(list!.presentsTo).toEqual([
+      { destination: "ExportScreen", mechanism: "navigate", label: "Export" },
+      { destination: "NoteDetailScreen", mechanism: "navigate" },
+      { destination: "SettingsPane", mechanism: "navigate" },
+      { destination: "NewNoteSheet", mechanism: "bottomSheet", label: "New note" },
+    ]);
+    expect(list!.inferredType).toBe("display");
+    expect(sheet!.inferredType).toBe("input");
+  });
+
+  test("without the NavHost, routes are unresolved", () => {
+    const [list] = parseKotlinFile("NoteList.kt", NOTE_LIST);
+    expect(list!.presentsTo).toEqual([{ destination: "NewNoteSheet", mechanism: "bottomSheet", label: "New note" }]);
+  });
+
+  test("a screen hosting the NavHost doesn't own its destinations' navigation", () => {
+    const content = NAV_HOST.replace("fun AppNavHost", "fun MainScreen");
+    const views = parseKotlinFile("Main.kt", content);
+    expect(views.map(v => v.structName)).toEqual(["MainScreen"]);
+    expect(views[0]!.presentsTo).toEqual([]);
+  });
+
+  test("type inference", () => {
+    const confirm = `
+      @Composable
+      fun DeleteScreen(onBack: () -> Unit) {
+        AlertDialog(onDismissRequest = onBack, confirmButton = { TextButton(onClick = {}) { Text("Delete") } },
+          dismissButton = { TextButton(onClick = onBack) { Text("Cancel") } })
+      }
+    `;
+    const done = `
+      @Composable
+      fun DoneScreen(navController: NavController) {
+        Button(onClick = { navController.popBackStack() }) { Text("Done") }
+      }
+    `;
+    const splash = `
+      @Composable
+      fun SplashScreen(navController: NavController) {
+        LaunchedEffect(Unit) { navController.navigate("home") }
+      }
+    `;
+    expect(parseKotlinFile("Delete.kt", confirm)[0]?.inferredType).toBe("decision");
+    expect(parseKotlinFile("Done.kt", done)[0]?.inferredType).toBe("action");
+    expect(parseKotlinFile("Splash.kt", splash)[0]?.inferredType).toBe("system");
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════════════
+// Tier 1: Unit Tests — strings.ts
+// ══════════════════════════════════════════════════════════════════════════
+
+describe("strings.ts — string tables", () => {
+  test("parses .strings pairs, skipping comments", () => {
+    const table = parseStringsFile(`
+      /* Settings screen */
+      "settings.title" = "Settings";
+      // "commented.out" = "Nope";
+      "quote" = "Say \\"hi\\"";
+    `);
+    expect([...table]).toEqual([["settings.title", "Settings"], ["quote", 'Say "hi"']]);
+  });
+
+  test("parses source-language values from a String Catalog", () => {
+    const table = parseStringCatalog(JSON.stringify({
+      sourceLanguage: "en",
+      strings: {
+        "tags.title": { localizations: { en: { stringUnit: { state: "translated", value: "Tags" } }, de: { stringUnit: { value: "Schlagwörter" } } } },
+        "Done": {},
+      },
+    }));
+    expect([...table]).toEqual([["tags.title", "Tags"]]);
+    expect(localize(table, "tags.title")).toBe("Tags");
+    expect(localize(table, "Done")).toBe("Done");
+  });
+
+  test("reads catalogs and development-language .strings only", () => {
+    expect(isStringTablePath("App/Localizable.xcstrings")).toBe(true);
+    expect(isStringTablePath("App/en.lproj/Localizable.strings")).toBe(true);
+    expect(isStringTablePath("App/Base.lproj/Main.strings")).toBe(true);
+    expect(isStringTablePath("App/de.lproj/Localizable.strings")).toBe(false);
+    expect(isStringTablePath("App/Settings.swift")).toBe(false);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════════════
+// Tier 1: Unit Tests — config.ts
+// ══════════════════════════════════════════════════════════════════════════
+
+const OTHER_APP_CONFIG: SyncConfig = {
+  watch: ["Notes/Features/**/*.swift"],
+  ignore: ["**/Previews/**"],
+  journeys: [{ match: "Notes/Features/Settings/**", journey: "settings" }],
+};
+
+describe("config.ts — watched paths", () => {
+  test("default config keeps the ExampleApp layout", () => {
+    expect(isWatched("ExampleApp/Sources/UI/Views/HomeView.swift")).toBe(true);
+    expect(isWatched("ExampleApp/ContentView.swift")).toBe(true);
+    expect(isWatched("ExampleApp/Sources/UI/Views/Sub/HomeView.swift")).toBe(false);
+    expect(isWatched("ExampleApp/Sources/Models/Note.swift")).toBe(false);
+  });
+
+  test("custom globs replace the defaults; ignore wins over watch", () => {
+    expect(isWatched("Notes/Features/Editor/EditorView.swift", OTHER_APP_CONFIG)).toBe(true);
+    expect(isWatched("Notes/Features/Editor/Previews/EditorPreview.swift", OTHER_APP_CONFIG)).toBe(false);
+    expect(isWatched("ExampleApp/Sources/UI/Views/HomeView.swift", OTHER_APP_CONFIG)).toBe(false);
+  });
+
+  test("matchJourneyRule returns the first matching path rule or null", () => {
+    const view = (filePath: string) => ({ filePath, structName: "SomeView", presentedBy: [] });
+    expect(matchJourneyRule(view("ExampleAppShare/ShareView.swift"))).toEqual({ journey: "capture-note", rule: "share-extension" });
+    expect(matchJourneyRule(view("Notes/Features/Settings/SettingsView.swift"), OTHER_APP_CONFIG))
+      .toEqual({ journey: "settings", rule: "journeys[0]" });
+    expect(matchJourneyRule(view("Notes/Features/Editor/EditorView.swift"), OTHER_APP_CONFIG)).toBeNull();
+  });
+
+  test("default rules point at the ExampleApp's journey IDs", () => {
+    const onboarding = { filePath: "ExampleApp/Sources/UI/Onboarding/NewPage.swift", structName: "NewPage", presentedBy: [] };
+    expect(matchJourneyRule(onboarding)?.journey).toBe("first-open");
+  });
+});
+
+describe("config.ts — journey rules", () => {
+  const RULES_CONFIG: SyncConfig = {
+    ...OTHER_APP_CONFIG,
+    journeys: [
+      { name: "features", match: "Notes/Features/**", journey: "browse" },
+      { name: "paywalls", struct: "*Paywall*", journey: "upgrade", priority: 10 },
+      { name: "settings-children", presentedBy: "Settings*", journey: "settings", priority: 5 },
+      { name: "settings-rows", match: "Notes/Features/**", struct: "*Row", presentedBy: "SettingsView", journey: "settings", priority: 20 },
+    ],
+  };
+  const subject = (structName: string, presentedBy: string[] = []) =>
+    ({ filePath: `Notes/Features/Misc/${structName}.swift`, structName, presentedBy });
+
+  test("rules are tried highest priority first", () => {
+    expect(matchJourneyRule(subject("PaywallView", ["SettingsView"]), RULES_CONFIG)?.rule).toBe("paywalls");
+    expect(matchJourneyRule(subject("AboutView", ["SettingsView"]), RULES_CONFIG)?.rule).toBe("settings-children");
+    expect(matchJourneyRule(subject("AboutView"), RULES_CONFIG)?.rule).toBe("features");
+  });
+
+  test("a rule with several matchers needs all of them", () => {
+    expect(matchJourneyRule(subject("ToggleRow", ["SettingsView"]), RULES_CONFIG)?.rule).toBe("settings-rows");
+    expect(matchJourneyRule(subject("ToggleRow", ["HomeView"]), RULES_CONFIG)?.rule).toBe("features");
+  });
+
+  test("validateConfig checks every rule's matchers, journey and priority", () => {
+    expect(validateConfig({ journeys: [
+      { journey: "a" },
+      { struct: "", journey: "b" },
+      { presentedBy: "X", journey: "c", priority: "high" },
+    ] })).toEqual([
+      "journeys[0]: needs match, struct or presentedBy",
+      "journeys[1].struct: must be a glob string",
+      "journeys[2].priority: must be a number",
+    ]);
+    expect(validateConfig({ journeys: RULES_CONFIG.journeys })).toEqual([]);
+  });
+});
+
+describe("config.ts — loading", () => {
+  const CONFIG_DIR = join(import.meta.dir, "__test_config__");
+
+  beforeAll(() => mkdirSync(CONFIG_DIR, { recursive: true }));
+  afterAll(() => rmSync(CONFIG_DIR, { recursive: true, force: true }));
+
+  test("missing file falls back to the default config", async () => {
+    expect(await loadConfig(join(CONFIG_DIR, "missing.json"))).toEqual(DEFAULT_CONFIG);
+  });
+
+  test("omitted fields are filled from the defaults", async () => {
+    const path = join(CONFIG_DIR, "partial.json");
+    writeFileSync(path, JSON.stringify({ watch: ["App/**/*.swift"] }));
+    const config = await loadConfig(path);
+    expect(config.watch).toEqual(["App/**/*.swift"]);
+    expect(config.journeys).toEqual(DEFAULT_CONFIG.journeys);
+  });
+
+  test("invalid config throws with every error listed", async () => {
+    const path = join(CONFIG_DIR, "invalid.json");
+    writeFileSync(path, JSON.stringify({ watch: "App/*.swift", journeys: [{ match: "App/**" }] }));
+    await expect(loadConfig(path)).rejects.toThrow(/watch: .*\n.*journeys\[0\]\.journey/s);
+  });
+
+  test("validateConfig rejects non-objects", () => {
+    expect(validateConfig([])).toEqual(["Config must be a JSON object"]);
+    expect(validateConfig({})).toEqual([]);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════════════
+// Tier 1: Unit Tests — merge.ts
+// ══════════════════════════════════════════════════════════════════════════
+
+function makeWorkflow(journeys: Journey[] = []): WorkflowDefs {
+  return { version: "1.0", generatedAt: new Date().toISOString(), journeys };
+}
+
+function makeJourney(id: string, steps: Step[] = []): Journey {
+  return { id, name: id, description: "", steps };
+}
+
+function makeStep(id: string, overrides: Partial<Step> = {}): Step {
+  return {
+    id,
+    label: id,
+    screen: id,
+    swiftFile: `${id}.swift`,
+    type: "display",
+    phase: "Unassigned",
+    next: [],
+    ...overrides,
+  };
+}
+
+describe("merge.ts — new files", () => {
+  test("adds a new step for a new file", () => {
+    const defs = makeWorkflow([makeJourney("first-open", [makeStep("existing")])]);
+    const parsed: ParsedView = {
+      structName: "WelcomeView",
+      filePath: "ExampleApp/Sources/UI/Onboarding/WelcomeView.swift",
+      presentsTo: [],
+      inferredType: "display",
+    };
+    const result = merge(
+      defs,
+      { currentSHA: "abc", newFiles: [{ path: parsed.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
+      [parsed]
+    );
+    const journey = result.json.journeys.find(j => j.id === "first-open")!;
+    const step = journey.steps.find(s => s.screen === "WelcomeView");
+    expect(step).toBeDefined();
+    expect(step?._needsReview).toBe(true);
+    expect(step?.label).toBe("TODO: WelcomeView");
+    expect(result.reviewCount).toBe(1);
+  });
+
+  test("routes Onboarding file → first-open journey", () => {
+    const defs = makeWorkflow();
+    const parsed: ParsedView = {
+      structName: "OnboardingStep1View",
+      filePath: "ExampleApp/Sources/UI/Onboarding/OnboardingStep1View.swift",
+      presentsTo: [],
+      inferredType: "display",
+    };
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [{ path: parsed.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
+      [parsed]
+    );
+    const journey = result.json.journeys.find(j => j.id === "first-open");
+    expect(journey).toBeDefined();
+  });
+
+  test("routes ExampleAppShare file → capture-note", () => {
+    const defs = makeWorkflow();
+    const parsed: ParsedView = {
+      structName: "ShareExtView",
+      filePath: "ExampleAppShare/ShareExtView.swift",
+      presentsTo: [],
+      inferredType: "display",
+    };
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [{ path: parsed.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
+      [parsed]
+    );
+    const journey = result.json.journeys.find(j => j.id === "capture-note");
+    expect(journey).toBeDefined();
+  });
+
+  test("routes ExampleAppAction file → capture-note", () => {
+    const defs = makeWorkflow();
+    const parsed: ParsedView = {
+      structName: "ActionExtView",
+      filePath: "ExampleAppAction/ActionExtView.swift",
+      presentsTo: [],
+      inferredType: "display",
+    };
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [{ path: parsed.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
+      [parsed]
+    );
+    const journey = result.json.journeys.find(j => j.id === "capture-note");
+    expect(journey).toBeDefined();
+  });
+
+  test("routes by the config's journey rules", () => {
+    const parsed: ParsedView = {
+      structName: "SettingsView",
+      filePath: "Notes/Features/Settings/SettingsView.swift",
+      presentsTo: [],
+      inferredType: "display",
+    };
+    const result = merge(
+      makeWorkflow(),
+      { currentSHA: "x", newFiles: [{ path: parsed.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
+      [parsed],
+      OTHER_APP_CONFIG
+    );
+    expect(result.json.journeys.map(j => j.id)).toEqual(["settings"]);
+  });
+
+  test("reports which rule or heuristic placed each new step", () => {
+    const settings: ParsedView = {
+      structName: "SettingsView",
+      filePath: "Notes/Features/Settings/SettingsView.swift",
+      presentsTo: [{ destination: "AboutView", mechanism: "navigationLink" }],
+      inferredType: "display",
+    };
+    const about: ParsedView = { structName: "AboutView", filePath: "Notes/Features/About/AboutView.swift", presentsTo: [], inferredType: "display" };
+    const config: SyncConfig = {
+      ...OTHER_APP_CONFIG,
+      journeys: [
+        ...OTHER_APP_CONFIG.journeys,
+        { name: "settings-children", presentedBy: "SettingsView", journey: "settings" },
+      ],
+    };
+    const result = merge(
+      makeWorkflow(),
+      {
+        currentSHA: "x",
+        newFiles: [settings, about].map(p => ({ path: p.filePath, content: "", diff: "", status: "A" as const })),
+        removedFiles: [],
+        modifiedFiles: [],
+      },
+      [settings, about],
+      config
+    );
+    expect(result.placements).toEqual([
+      { journeyId: "settings", stepId: "settings-view", filePath: settings.filePath, structName: "SettingsView", placedBy: 'rule "journeys[0]"' },
+      { journeyId: "settings", stepId: "about-view", filePath: about.filePath, structName: "AboutView", placedBy: 'rule "settings-children"' },
+    ]);
+    expect(result.changes[1]!.detail).toContain('(journey by rule "settings-children")');
+  });
+
+  test("falls back to the graph when no rule matches", () => {
+    const defs = makeWorkflow([makeJourney("browse", [makeStep("list", { screen: "ListView" })])]);
+    const parsed: ParsedView = {
+      structName: "FilterView",
+      filePath: "Notes/Features/Filter/FilterView.swift",
+      presentsTo: [{ destination: "ListView", mechanism: "sheet" }],
+      inferredType: "display",
+    };
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [{ path: parsed.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
+      [parsed],
+      OTHER_APP_CONFIG
+    );
+    expect(result.placements.map(p => [p.journeyId, p.placedBy])).toEqual([["browse", "parsed edge to step list"]]);
+  });
+
+  test("does not add duplicate if file already tracked", () => {
+    const existing = makeStep("welcome-view", { swiftFile: "ExampleApp/Sources/UI/Onboarding/WelcomeView.swift" });
+    const defs = makeWorkflow([makeJourney("first-open", [existing])]);
+    const parsed: ParsedView = {
+      structName: "WelcomeView",
+      filePath: "ExampleApp/Sources/UI/Onboarding/WelcomeView.swift",
+      presentsTo: [],
+      inferredType: "display",
+    };
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [{ path: parsed.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
+      [parsed]
+    );
+    const journey = result.json.journeys.find(j => j.id === "first-open")!;
+    const stepsForFile = journey.steps.filter(s => s.swiftFile === parsed.filePath);
+    expect(stepsForFile.length).toBe(1);
+  });
+});
+
+describe("merge.ts — new files presenting each other", () => {
+  test("resolves edges between views added in the same merge, in any order", () => {
+    const child: ParsedView = {
+      structName: "ChildView",
+      filePath: "ExampleApp/Sources/UI/Views/ChildView.swift",
+      presentsTo: [],
+      inferredType: "display",
+    };
+    const parent: ParsedView = {
+      structName: "ParentView",
+      filePath: "ExampleApp/Sources/UI/Views/ParentView.swift",
+      presentsTo: [{ destination: "ChildView", mechanism: "sheet" }],
+      inferredType: "display",
+    };
+    // Parent listed first: its destination doesn't exist yet when it is added
+    const result = merge(
+      makeWorkflow(),
+      {
+        currentSHA: "x",
+        newFiles: [parent, child].map(p => ({ path: p.filePath, content: "", diff: "", status: "A" as const })),
+        removedFiles: [],
+        modifiedFiles: [],
+      },
+      [parent, child]
+    );
+    const steps = result.json.journeys.flatMap(j => j.steps);
+    expect(steps.find(s => s.screen === "ParentView")?.next).toEqual(["child-view"]);
+    const addParent = result.changes.find(c => c.stepId === "parent-view");
+    expect(addParent?.patch).toMatchObject({ op: "add-step", step: { next: ["child-view"] } });
+  });
+});
+
+describe("merge.ts — removed files", () => {
+  test("marks step deprecated when file removed", () => {
+    const step = makeStep("note-view", { swiftFile: "ExampleApp/Sources/UI/Views/NoteView.swift" });
+    const defs = makeWorkflow([makeJourney("main", [step])]);
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [], removedFiles: ["ExampleApp/Sources/UI/Views/NoteView.swift"], modifiedFiles: [] },
+      []
+    );
+    const found = result.json.journeys.find(j => j.id === "main")?.steps.find(s => s.id === "note-view");
+    expect(found?.deprecated).toBe(true);
+    expect(result.changes.some(c => c.action === "deprecate")).toBe(true);
+  });
+
+  test("does not delete the step, only marks deprecated", () => {
+    const step = makeStep("editor", { swiftFile: "ExampleApp/Sources/UI/Views/EditorView.swift" });
+    const defs = makeWorkflow([makeJourney("notes", [step])]);
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [], removedFiles: ["ExampleApp/Sources/UI/Views/EditorView.swift"], modifiedFiles: [] },
+      []
+    );
+    const journey = result.json.journeys.find(j => j.id === "notes")!;
+    expect(journey.steps.find(s => s.id === "editor")).toBeDefined();
+  });
+
+  test("records the commit and date the step was deprecated at", () => {
+    const defs = makeWorkflow([makeJourney("main", [makeStep("note-view", { swiftFile: "NoteView.swift" })])]);
+    const result = merge(
+      defs,
+      { currentSHA: "abc1234def", commitDate: "2026-03-02T10:00:00+01:00", newFiles: [], removedFiles: ["NoteView.swift"], modifiedFiles: [] },
+      []
+    );
+    expect(result.json.journeys[0]!.steps[0]).toMatchObject({
+      deprecated: true, deprecatedCommit: "abc1234def", deprecatedAt: "2026-03-02T10:00:00+01:00",
+    });
+    expect(applyChanges(defs, result.changes)).toEqual(result.json);
+  });
+});
+
+describe("merge.ts — restored files", () => {
+  const FILE = "ExampleApp/Sources/UI/Views/NoteView.swift";
+  const parsed: ParsedView = {
+    structName: "NoteView",
+    filePath: FILE,
+    presentsTo: [{ destination: "TagsView", mechanism: "sheet" }],
+    inferredType: "display",
+  };
+  const restored = { currentSHA: "y", newFiles: [{ path: FILE, content: "", diff: "", status: "A" as const }], removedFiles: [], modifiedFiles: [] };
+  const deprecatedDefs = () => makeWorkflow([makeJourney("main", [
+    makeStep("note-view", {
+      screen: "NoteView", swiftFile: FILE, next: [], _synced: { next: [] },
+      deprecated: true, deprecatedCommit: "abc1234def", deprecatedAt: "2026-03-02T10:00:00+01:00",
+    }),
+    makeStep("tags", { screen: "TagsView" }),
+  ])]);
+
+  test("revives the deprecated step instead of adding a new one", () => {
+    const result = merge(deprecatedDefs(), restored, [parsed]);
+    const steps = result.json.journeys[0]!.steps;
+    expect(steps.map(s => s.id)).toEqual(["note-view", "tags"]);
+    expect(steps[0]!.deprecated).toBeUndefined();
+    expect(steps[0]!.deprecatedCommit).toBeUndefined();
+    expect(steps[0]!.deprecatedAt).toBeUndefined();
+
+    const revive = result.changes.find(c => c.action === "revive")!;
+    expect(revive.detail).toContain("since abc1234");
+  });
+
+  test("merges the restored file's edges", () => {
+    const result = merge(deprecatedDefs(), restored, [parsed]);
+    expect(result.json.journeys[0]!.steps[0]!.next).toEqual(["tags"]);
+    expect(result.changes.map(c => c.action)).toEqual(["revive", "update-edges"]);
+  });
+
+  test("revive patches survive a JSON round trip", () => {
+    const defs = deprecatedDefs();
+    const result = merge(defs, restored, [parsed]);
+    const stored: ChangeRecord[] = JSON.parse(JSON.stringify(result.changes));
+    expect(applyChanges(defs, stored)).toEqual(result.json);
+  });
+});
+
+describe("merge.ts — renamed files", () => {
+  const OLD_PATH = "ExampleApp/Sources/UI/Views/NoteDetailView.swift";
+  const NEW_PATH = "ExampleApp/Sources/UI/Components/NoteDetailView.swift";
+
+  function renameResult(defs: WorkflowDefs, parsed: ParsedView) {
+    return merge(defs, {
+      currentSHA: "x",
+      newFiles: [],
+      removedFiles: [],
+      modifiedFiles: [],
+      renamedFiles: [{ path: NEW_PATH, oldPath: OLD_PATH, content: "", diff: "", status: "R" }],
+    }, [parsed]);
+  }
+
+  test("updates swiftFile on the existing step instead of deprecating it", () => {
+    const detail = makeStep("note-detail", { screen: "NoteDetailView", swiftFile: OLD_PATH, label: "Note detail" });
+    const defs = makeWorkflow([makeJourney("browse", [detail])]);
+    const result = renameResult(defs, { structName: "NoteDetailView", filePath: NEW_PATH, presentsTo: [], inferredType: "display" });
+
+    const steps = result.json.journeys.flatMap(j => j.steps);
+    expect(steps).toHaveLength(1);
+    expect(steps[0]).toMatchObject({ id: "note-detail", label: "Note detail", swiftFile: NEW_PATH });
+    expect(steps[0]!.deprecated).toBeUndefined();
+    expect(result.reviewCount).toBe(0);
+    expect(result.changes).toEqual([expect.objectContaining({
+      action: "rename",
+      stepId: "note-detail",
+      patch: { op: "set-fields", fields: { swiftFile: NEW_PATH } },
+    })]);
+  });
+
+  test("renamed struct updates screen; edits in the same commit update edges", () => {
+    const detail = makeStep("note-detail", { screen: "NoteDetailView", swiftFile: OLD_PATH });
+    const editor = makeStep("editor", { screen: "EditorView" });
+    const defs = makeWorkflow([makeJourney("browse", [detail, editor])]);
+    const result = renameResult(defs, {
+      structName: "NoteDetailScreen",
+      filePath: NEW_PATH,
+      presentsTo: [{ destination: "EditorView", mechanism: "sheet" }],
+      inferredType: "display",
+    });
+
+    const step = result.json.journeys[0]!.steps.find(s => s.id === "note-detail");
+    expect(step).toMatchObject({ screen: "NoteDetailScreen", swiftFile: NEW_PATH, next: ["editor"] });
+    expect(result.changes.map(c => c.action)).toEqual(["rename", "update-edges"]);
+    expect(applyChanges(defs, result.changes)).toEqual(result.json);
+  });
+
+  test("a rename of an untracked file is added as a new step", () => {
+    const result = renameResult(makeWorkflow(), { structName: "NoteDetailView", filePath: NEW_PATH, presentsTo: [], inferredType: "display" });
+    expect(result.changes.map(c => c.action)).toEqual(["add"]);
+    expect(result.json.journeys.flatMap(j => j.steps)[0]!.swiftFile).toBe(NEW_PATH);
+  });
+});
+
+describe("merge.ts — modified files", () => {
+  test("updates next[] when edges change", () => {
+    const stepA = makeStep("view-a", { swiftFile: "ExampleApp/Sources/UI/Views/ViewA.swift", screen: "ViewA", next: [] });
+    const stepB = makeStep("view-b", { swiftFile: "ExampleApp/Sources/UI/Views/ViewB.swift", screen: "ViewB", next: [] });
+    const defs = makeWorkflow([makeJourney("main", [stepA, stepB])]);
+
+    const parsed: ParsedView = {
+      structName: "ViewA",
+      filePath: "ExampleApp/Sources/UI/Views/ViewA.swift",
+      presentsTo: [{ destination: "ViewB", mechanism: "sheet" }],
+      inferredType: "display",
+    };
+
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: parsed.filePath, content: "", diff: "", status: "M" }] },
+      [parsed]
+    );
+
+    const foundA = result.json.journeys.find(j => j.id === "main")?.steps.find(s => s.id === "view-a");
+    expect(foundA?.next).toContain("view-b");
+    expect(result.changes.some(c => c.action === "update-edges")).toBe(true);
+  });
+
+  test("preserves edgeLabels on update (drops those of removed edges)", () => {
+    const stepA = makeStep("a", {
+      screen: "AView", swiftFile: "a.swift", next: ["b", "c"], edgeLabels: { b: "Yes", c: "No" },
+      _synced: { next: ["b", "c"], edgeLabels: { b: "Yes", c: "No" } },
+    });
+    const stepB = makeStep("b", { screen: "BView", swiftFile: "b.swift" });
+    const stepC = makeStep("c", { screen: "CView", swiftFile: "c.swift" });
+    const defs = makeWorkflow([makeJourney("j", [stepA, stepB, stepC])]);
+
+    // Modified: now only presents to BView (not CView)
+    const parsed: ParsedView = {
+      structName: "AView",
+      filePath: "a.swift",
+      presentsTo: [{ destination: "BView", mechanism: "sheet" }],
+      inferredType: "display",
+    };
+
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: "a.swift", content: "", diff: "", status: "M" }] },
+      [parsed]
+    );
+
+    const found = result.json.journeys.find(j => j.id === "j")?.steps.find(s => s.id === "a");
+    expect(found?.next).toEqual(["b"]);
+    expect(found?.edgeLabels).toEqual({ b: "Yes" });
+  });
+
+  test("keeps the branch labels of a target several branches lead to", () => {
+    const branches = ["PDF", "CSV", "JSON"];
+    const stepA = makeStep("a", {
+      screen: "AView", swiftFile: "a.swift", next: ["b"], edgeLabels: { b: branches },
+      _synced: { next: ["b"], edgeLabels: { b: branches } },
+    });
+    const defs = makeWorkflow([makeJourney("j", [stepA, makeStep("b", { screen: "BView", swiftFile: "b.swift" })])]);
+    const parsed: ParsedView = {
+      structName: "AView",
+      filePath: "a.swift",
+      presentsTo: [{ destination: "BView", mechanism: "sheet", label: "Export" }],
+      inferredType: "display",
+    };
+
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: "a.swift", content: "", diff: "", status: "M" }] },
+      [parsed]
+    );
+    expect(result.json.journeys[0]!.steps[0]).toMatchObject({ next: ["b"], edgeLabels: { b: branches }, _synced: { edgeLabels: { b: branches } } });
+    expect(result.changes).toEqual([]);
+  });
+
+  test("fills edgeLabels for new edges without replacing existing ones", () => {
+    const stepA = makeStep("a", { screen: "AView", swiftFile: "a.swift", next: ["b", "c"], edgeLabels: { c: "Hand-written" } });
+    const stepB = makeStep("b", { screen: "BView" });
+    const stepC = makeStep("c", { screen: "CView" });
+    const stepD = makeStep("d", { screen: "DView" });
+    const defs = makeWorkflow([makeJourney("j", [stepA, stepB, stepC, stepD])]);
+
+    const parsed: ParsedView = {
+      structName: "AView",
+      filePath: "a.swift",
+      presentsTo: [
+        { destination: "CView", mechanism: "sheet", label: "From code" },
+        { destination: "DView", mechanism: "sheet", label: "Details" },
+        { destination: "BView", mechanism: "navigationLink", label: "Open B" },
+      ],
+      inferredType: "display",
+    };
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: "a.swift", content: "", diff: "", status: "M" }] },
+      [parsed]
+    );
+
+    const found = result.json.journeys[0]!.steps.find(s => s.id === "a");
+    expect(found?.next).toEqual(["c", "d", "b"]);
+    // c keeps its label, d is new so gets the parsed one, b stays unlabelled
+    expect(found?.edgeLabels).toEqual({ c: "Hand-written", d: "Details" });
+    expect(applyChanges(defs, result.changes)).toEqual(result.json);
+  });
+
+  test("labels stay with their target when an edge is inserted in front", () => {
+    const stepA = makeStep("a", {
+      screen: "AView", swiftFile: "a.swift", next: ["b", "c"], edgeLabels: { b: "Yes", c: "No" },
+      _synced: { next: ["b", "c"], edgeLabels: { b: "Yes", c: "No" } },
+    });
+    const defs = makeWorkflow([makeJourney("j", [
+      stepA, makeStep("b", { screen: "BView" }), makeStep("c", { screen: "CView" }), makeStep("d", { screen: "DView" }),
+    ])]);
+    const parsed: ParsedView = {
+      structName: "AView",
+      filePath: "a.swift",
+      presentsTo: ["DView", "BView", "CView"].map((destination) => ({ destination, mechanism: "sheet" })),
+      inferredType: "display",
+    };
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: "a.swift", content: "", diff: "", status: "M" }] },
+      [parsed]
+    );
+
+    const found = result.json.journeys[0]!.steps.find(s => s.id === "a");
+    expect(found?.next).toEqual(["d", "b", "c"]);
+    expect(found?.edgeLabels).toEqual({ b: "Yes", c: "No" });
+  });
+
+  test("new steps get labels from their parsed edges", () => {
+    const defs = makeWorkflow([makeJourney("j", [makeStep("settings", { screen: "SettingsView" })])]);
+    const parsed: ParsedView = {
+      structName: "HomeView",
+      filePath: "ExampleApp/Sources/UI/Views/HomeView.swift",
+      presentsTo: [{ destination: "SettingsView", mechanism: "sheet", label: "Settings" }],
+      inferredType: "display",
+    };
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [{ path: parsed.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
+      [parsed]
+    );
+    const home = result.json.journeys.flatMap(j => j.steps).find(s => s.screen === "HomeView");
+    expect(home?.next).toEqual(["settings"]);
+    expect(home?.edgeLabels).toEqual({ settings: "Settings" });
+  });
+});
+
+describe("merge.ts — three-way edge merge", () => {
+  const modifiedA = { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: "a.swift", content: "", diff: "", status: "M" as const }] };
+  const parsedA = (...destinations: string[]): ParsedView => ({
+    structName: "AView",
+    filePath: "a.swift",
+    presentsTo: destinations.map((destination) => ({ destination, mechanism: "sheet" })),
+    inferredType: "display",
+  });
+  const journeyWith = (a: Partial<Step>) => makeWorkflow([makeJourney("j", [
+    makeStep("a", { screen: "AView", swiftFile: "a.swift", ...a }),
+    makeStep("b", { screen: "BView" }),
+    makeStep("c", { screen: "CView" }),
+    makeStep("d", { screen: "DView" }),
+    makeStep("h", { screen: "hand-drawn" }),
+  ])]);
+
+  test("keeps edges added by hand while applying code changes", () => {
+    const defs = journeyWith({ next: ["b", "h"], _synced: { next: ["b"] } });
+    const result = merge(defs, modifiedA, [parsedA("BView", "DView")]);
+    const a = result.json.journeys[0]!.steps[0]!;
+    expect(a.next).toEqual(["b", "d", "h"]);
+    expect(a._synced).toEqual({ next: ["b", "d"] });
+    expect(result.changes.map(c => c.action)).toEqual(["update-edges"]);
+  });
+
+  test("does not bring back edges removed by hand", () => {
+    const defs = journeyWith({ next: ["b"], _synced: { next: ["b", "c"] } });
+    const result = merge(defs, modifiedA, [parsedA("BView", "CView", "DView")]);
+    expect(result.json.journeys[0]!.steps[0]!.next).toEqual(["b", "d"]);
+  });
+
+  test("drops edges the code no longer has", () => {
+    const defs = journeyWith({ next: ["b", "c"], _synced: { next: ["b", "c"] } });
+    const result = merge(defs, modifiedA, [parsedA("BView")]);
+    expect(result.json.journeys[0]!.steps[0]!.next).toEqual(["b"]);
+    expect(result.reviewCount).toBe(0);
+  });
+
+  test("an edge dropped in code but relabelled by hand is a conflict", () => {
+    const defs = journeyWith({
+      next: ["b", "c"], edgeLabels: { c: "Archive" },
+      _synced: { next: ["b", "c"], edgeLabels: { c: "Delete" } },
+    });
+    const result = merge(defs, modifiedA, [parsedA("BView")]);
+    const a = result.json.journeys[0]!.steps[0]!;
+    expect(a).toMatchObject({ next: ["b", "c"], edgeLabels: { c: "Archive" }, _needsReview: true });
+    expect(result.reviewCount).toBe(1);
+
+    const conflict = result.changes.find(c => c.action === "conflict")!;
+    expect(conflict.detail).toContain("Kept edge to c");
+    // Rejecting the conflict keeps the hand edit; accepting it takes the code's side
+    const rejected = applyChanges(defs, result.changes.filter(c => c !== conflict));
+    expect(rejected.journeys[0]!.steps[0]!.next).toEqual(["b", "c"]);
+    const accepted = applyChanges(defs, result.changes).journeys[0]!.steps[0]!;
+    expect(accepted.next).toEqual(["b"]);
+    expect(accepted.edgeLabels).toEqual({});
+  });
+
+  test("steps without a sync record keep unparsed edges as conflicts", () => {
+    const defs = journeyWith({ next: ["b", "h"] });
+    const result = merge(defs, modifiedA, [parsedA("BView", "DView")]);
+    const a = result.json.journeys[0]!.steps[0]!;
+    expect(a.next).toEqual(["b", "d", "h"]);
+    expect(a._synced).toEqual({ next: ["b", "d"] });
+    expect(result.changes.map(c => c.action)).toEqual(["update-edges", "conflict"]);
+  });
+
+  test("new steps record what the sync produced", () => {
+    const parsed: ParsedView = {
+      structName: "HomeView",
+      filePath: "HomeView.swift",
+      presentsTo: [{ destination: "BView", mechanism: "sheet", label: "Open B" }],
+      inferredType: "display",
+    };
+    const result = merge(
+      journeyWith({}),
+      { currentSHA: "x", newFiles: [{ path: "HomeView.swift", content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
+      [parsed]
+    );
+    const home = result.json.journeys[0]!.steps.find(s => s.screen === "HomeView")!;
+    expect(home._synced).toEqual({ next: ["b"], edgeLabels: { b: "Open B" } });
+  });
+});
+
+describe("merge.ts — cross-journey links", () => {
+  const settingsFile = "ExampleApp/Sources/UI/Views/SettingsView.swift";
+  const parsedSettings: ParsedView = {
+    structName: "SettingsView",
+    filePath: settingsFile,
+    presentsTo: [{ destination: "PaywallView", mechanism: "sheet", label: "Upgrade" }],
+    inferredType: "display",
+  };
+  const modified = { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: settingsFile, content: "", diff: "", status: "M" as const }] };
+
+  test("a screen only another journey has is linked as journeyId:stepId", () => {
+    const defs = makeWorkflow([
+      makeJourney("settings", [makeStep("settings", { screen: "SettingsView", swiftFile: settingsFile, _synced: { next: [] } })]),
+      makeJourney("upgrade", [makeStep("paywall", { screen: "PaywallView" })]),
+    ]);
+    const result = merge(defs, modified, [parsedSettings]);
+    const settings = result.json.journeys[0]!.steps[0]!;
+    expect(settings.next).toEqual(["upgrade:paywall"]);
+    expect(settings.edgeLabels).toEqual({ "upgrade:paywall": "Upgrade" });
+    expect(validate(defs, result.json).ok).toBe(true);
+  });
+
+  test("a step of the same journey wins over other journeys' steps", () => {
+    const defs = makeWorkflow([
+      makeJourney("settings", [
+        makeStep("settings", { screen: "SettingsView", swiftFile: settingsFile, _synced: { next: [] } }),
+        makeStep("settings-paywall", { screen: "PaywallView" }),
+      ]),
+      makeJourney("upgrade", [makeStep("paywall", { screen: "PaywallView" })]),
+    ]);
+    const result = merge(defs, modified, [parsedSettings]);
+    expect(result.json.journeys[0]!.steps[0]!.next).toEqual(["settings-paywall"]);
+  });
+
+  test("new steps link to shared screens in other journeys", () => {
+    const defs = makeWorkflow([
+      makeJourney("upgrade", [makeStep("paywall", { screen: "PaywallView" })]),
+      makeJourney("export", [makeStep("export-pdf", { screen: "ExportPDFView" })]),
+    ]);
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [{ path: settingsFile, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
+      [parsedSettings],
+      { ...DEFAULT_CONFIG, journeys: [{ match: "**/SettingsView.swift", journey: "settings" }] }
+    );
+    const settings = result.json.journeys.find(j => j.id === "settings")!.steps[0]!;
+    expect(settings.next).toEqual(["upgrade:paywall"]);
+    expect(validate(defs, result.json).ok).toBe(true);
+  });
+
+  test("a new view another journey links to joins the linked step's journey", () => {
+    const paywallFile = "ExampleApp/Sources/UI/Views/PaywallView.swift";
+    const defs = makeWorkflow([
+      makeJourney("settings", [makeStep("settings", { screen: "SettingsView", swiftFile: settingsFile, next: ["upgrade:paywall"] })]),
+      makeJourney("upgrade", [makeStep("paywall", { screen: "PaywallView", swiftFile: "" })]),
+    ]);
+    const result = merge(
+      defs,
+      { currentSHA: "x", newFiles: [{ path: paywallFile, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
+      [{ structName: "PaywallView", filePath: paywallFile, presentsTo: [], inferredType: "display" }]
+    );
+    expect(result.placements).toEqual([
+      { journeyId: "upgrade", stepId: "paywall-view", filePath: paywallFile, structName: "PaywallView", placedBy: "edge from step settings:settings" },
+    ]);
+  });
+});
+
+describe("merge.ts — multiple views per file", () => {
+  const FILE = "ExampleApp/Sources/UI/Views/NoteListView.swift";
+  const list: ParsedView = {
+    structName: "NoteListView",
+    filePath: FILE,
+    presentsTo: [{ destination: "NewNoteSheet", mechanism: "sheet", label: "New" }],
+    inferredType: "display",
+  };
+  const sheet: ParsedView = { structName: "NewNoteSheet", filePath: FILE, presentsTo: [], inferredType: "input" };
+  const sheetDiff = "@@ -20,0 +21,3 @@\n+struct NewNoteSheet: View {\n+  var body: some View { Form {} }\n+}\n";
+  const modified = { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: FILE, content: "", diff: sheetDiff, status: "M" as const }] };
+
+  test("a new file gets one step per view", () => {
+    const result = merge(
+      makeWorkflow(),
+      { currentSHA: "x", newFiles: [{ path: FILE, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
+      [list, sheet]
+    );
+    const steps = result.json.journeys.flatMap(j => j.steps);
+    expect(steps.map(s => [s.id, s.screen, s.swiftFile])).toEqual([
+      ["note-list-view", "NoteListView", FILE],
+      ["new-note-sheet", "NewNoteSheet", FILE],
+    ]);
+    expect(steps[0]!.next).toEqual(["new-note-sheet"]);
+    expect(result.reviewCount).toBe(2);
+  });
+
+  test("a view newly declared in a modified file is added next to its siblings", () => {
+    const defs = makeWorkflow([makeJourney("browse", [makeStep("note-list", { screen: "NoteListView", swiftFile: FILE })])]);
+    const result = merge(defs, modified, [list, sheet]);
+
+    const journey = result.json.journeys.find(j => j.id === "browse")!;
+    expect(journey.steps.map(s => s.id)).toEqual(["note-list", "new-note-sheet"]);
+    expect(journey.steps[0]).toMatchObject({ next: ["new-note-sheet"], edgeLabels: { "new-note-sheet": "New" } });
+    expect(result.changes.map(c => c.action)).toEqual(["add", "update-edges"]);
+    expect(applyChanges(defs, result.changes)).toEqual(result.json);
+  });
+
+  test("a view the modified file already declared stays untracked", () => {
+    const defs = makeWorkflow([makeJourney("browse", [makeStep("note-list", { screen: "NoteListView", swiftFile: FILE })])]);
+    const listDiff = "@@ -4 +4 @@\n-    List {}\n+    List {}.sheet(isPresented: $adding) { NewNoteSheet() }\n";
     const result = merge(
       defs,
-      { currentSHA: "abc", newFiles: [{ path: parsed.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
-      [parsed]
+      { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: FILE, content: "", diff: listDiff, status: "M" }] },
+      [list, sheet]
     );
-    const journey = result.json.journeys.find(j => j.id === "first-launch")!;
-    const step = journey.steps.find(s => s.screen === "WelcomeView");
-    expect(step).toBeDefined();
-    expect(step?._needsReview).toBe(true);
-    expect(step?.label).toBe("TODO: WelcomeView");
-    expect(result.reviewCount).toBe(1);
+
+    expect(result.json.journeys.flatMap(j => j.steps).map(s => s.id)).toEqual(["note-list"]);
+    expect(result.changes.map(c => c.action)).not.toContain("add");
   });
 
-  test("routes Onboarding file → first-launch journey", () => {
-    const defs = makeWorkflow();
-    const parsed: ParsedView = {
-      structName: "OnboardingStep1View",
-      filePath: "ExampleApp/Sources/UI/Onboarding/OnboardingStep1View.swift",
-      presentsTo: [],
-      inferredType: "display",
-    };
+  test("a declaration moved within the file is not new", () => {
+    const defs = makeWorkflow([makeJourney("browse", [makeStep("note-list", { screen: "NoteListView", swiftFile: FILE })])]);
+    const movedDiff = "@@ -2,3 +2,0 @@\n-struct NewNoteSheet: View {\n@@ -30,0 +27,3 @@\n+struct NewNoteSheet: View {\n";
     const result = merge(
       defs,
-      { currentSHA: "x", newFiles: [{ path: parsed.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
-      [parsed]
+      { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: FILE, content: "", diff: movedDiff, status: "M" }] },
+      [list, sheet]
     );
-    const journey = result.json.journeys.find(j => j.id === "first-launch");
-    expect(journey).toBeDefined();
+    expect(result.json.journeys.flatMap(j => j.steps).map(s => s.id)).toEqual(["note-list"]);
   });
 
-  test("routes ExampleAppShare file → capture-via-share", () => {
-    const defs = makeWorkflow();
-    const parsed: ParsedView = {
-      structName: "ShareExtView",
-      filePath: "ExampleAppShare/ShareExtView.swift",
+  test("hand-written steps with slug screens stay attached to the file's first view", () => {
+    const defs = makeWorkflow([makeJourney("browse", [
+      makeStep("notes-screen", { screen: "notes", swiftFile: FILE }),
+      makeStep("tap-new", { screen: "notes", swiftFile: FILE }),
+      makeStep("new-note", { screen: "NewNoteSheet", swiftFile: FILE }),
+    ])]);
+    const result = merge(defs, modified, [list, sheet]);
+
+    expect(result.changes.map(c => [c.action, c.stepId])).toEqual([["update-edges", "notes-screen"]]);
+    expect(result.json.journeys[0]!.steps.find(s => s.id === "notes-screen")?.next).toEqual(["new-note"]);
+  });
+
+  test("removing the file deprecates every view's step", () => {
+    const defs = makeWorkflow([makeJourney("browse", [
+      makeStep("note-list", { screen: "NoteListView", swiftFile: FILE }),
+      makeStep("new-note", { screen: "NewNoteSheet", swiftFile: FILE }),
+    ])]);
+    const result = merge(defs, { currentSHA: "x", newFiles: [], removedFiles: [FILE], modifiedFiles: [] }, []);
+    expect(result.json.journeys[0]!.steps.every(s => s.deprecated)).toBe(true);
+    expect(result.changes.map(c => c.stepId)).toEqual(["note-list", "new-note"]);
+  });
+
+  test("same-named subviews in different files get distinct step IDs", () => {
+    const rows: ParsedView[] = ["NoteListView", "TagListView"].map(name => ({
+      structName: "Row",
+      filePath: `ExampleApp/Sources/UI/Views/${name}.swift`,
       presentsTo: [],
       inferredType: "display",
-    };
+    }));
     const result = merge(
-      defs,
-      { currentSHA: "x", newFiles: [{ path: parsed.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
-      [parsed]
+      makeWorkflow(),
+      { currentSHA: "x", newFiles: rows.map(r => ({ path: r.filePath, content: "", diff: "", status: "A" as const })), removedFiles: [], modifiedFiles: [] },
+      rows
     );
-    const journey = result.json.journeys.find(j => j.id === "capture-via-share");
-    expect(journey).toBeDefined();
+    expect(result.json.journeys.flatMap(j => j.steps).map(s => s.id)).toEqual(["row", "row-2"]);
   });
+});
 
-  test("routes ExampleAppAction file → capture-via-action", () => {
-    const defs = makeWorkflow();
+describe("merge.ts — platforms", () => {
+  test("new steps carry the parsed platform; edges resolve within it", () => {
+    const defs = makeWorkflow([makeJourney("browse", [
+      makeStep("settings-ios", { screen: "SettingsScreen" }),
+      makeStep("settings-android", { screen: "SettingsScreen", platform: "android" }),
+    ])]);
     const parsed: ParsedView = {
-      structName: "ActionExtView",
-      filePath: "ExampleAppAction/ActionExtView.swift",
-      presentsTo: [],
+      structName: "NoteListScreen",
+      filePath: "android/app/src/main/java/notes/NoteListScreen.kt",
+      presentsTo: [{ destination: "SettingsScreen", mechanism: "navigate" }],
       inferredType: "display",
+      platform: "android",
     };
     const result = merge(
       defs,
       { currentSHA: "x", newFiles: [{ path: parsed.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
       [parsed]
     );
-    const journey = result.json.journeys.find(j => j.id === "capture-via-action");
-    expect(journey).toBeDefined();
+    const step = result.json.journeys.flatMap(j => j.steps).find(s => s.screen === "NoteListScreen");
+    expect(step).toMatchObject({ platform: "android", next: ["settings-android"] });
   });
+});
 
-  test("does not add duplicate if file already tracked", () => {
-    const existing = makeStep("welcome-view", { swiftFile: "ExampleApp/Sources/UI/Onboarding/WelcomeView.swift" });
-    const defs = makeWorkflow([makeJourney("first-launch", [existing])]);
+describe("merge.ts — label and phase suggestions", () => {
+  const newFile = (path: string) => ({ currentSHA: "x", newFiles: [{ path, content: "", diff: "", status: "A" as const }], removedFiles: [], modifiedFiles: [] });
+
+  test("labels a new step with the parsed title", () => {
+    const parsed: ParsedView = { structName: "TagsView", filePath: "TagsView.swift", presentsTo: [], inferredType: "display", title: "Tags" };
+    const result = merge(makeWorkflow(), newFile(parsed.filePath), [parsed]);
+    expect(result.json.journeys[0]!.steps[0]!.label).toBe("Tags");
+    expect(result.changes[0]!.detail).toContain('as "Tags"');
+  });
+
+  test("keeps the placeholder label without a title", () => {
+    const parsed: ParsedView = { structName: "TagsView", filePath: "TagsView.swift", presentsTo: [], inferredType: "display" };
+    const result = merge(makeWorkflow(), newFile(parsed.filePath), [parsed]);
+    expect(result.json.journeys[0]!.steps[0]!).toMatchObject({ label: "TODO: TagsView", phase: "Unassigned" });
+  });
+
+  test("takes the phase of the step it presents", () => {
+    const defs = makeWorkflow([makeJourney("organize", [
+      makeStep("tag-detail", { screen: "TagDetailView", swiftFile: "TagDetailView.swift", phase: "Organize" }),
+    ])]);
     const parsed: ParsedView = {
-      structName: "WelcomeView",
-      filePath: "ExampleApp/Sources/UI/Onboarding/WelcomeView.swift",
-      presentsTo: [],
+      structName: "TagsView",
+      filePath: "TagsView.swift",
+      presentsTo: [{ destination: "TagDetailView", mechanism: "navigationLink" }],
       inferredType: "display",
     };
+    const result = merge(defs, newFile(parsed.filePath), [parsed]);
+    expect(result.json.journeys[0]!.steps[1]!).toMatchObject({ id: "tags-view", phase: "Organize" });
+  });
+
+  test("prefers the phase of a step on the same file", () => {
+    const defs = makeWorkflow([makeJourney("organize", [
+      makeStep("tag-detail", { screen: "TagDetailView", swiftFile: "TagDetailView.swift", phase: "Organize" }),
+      makeStep("tags", { screen: "TagsView", swiftFile: "TagsView.swift", phase: "Browse" }),
+    ])]);
+    const parsed = (structName: string): ParsedView => ({
+      structName,
+      filePath: "TagsView.swift",
+      presentsTo: structName === "TagRow" ? [{ destination: "TagDetailView", mechanism: "navigationLink" }] : [],
+      inferredType: "display",
+    });
     const result = merge(
       defs,
-      { currentSHA: "x", newFiles: [{ path: parsed.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
-      [parsed]
+      { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: "TagsView.swift", content: "", diff: "+struct TagRow: View {\n", status: "M" }] },
+      [parsed("TagsView"), parsed("TagRow")]
     );
-    const journey = result.json.journeys.find(j => j.id === "first-launch")!;
-    const stepsForFile = journey.steps.filter(s => s.swiftFile === parsed.filePath);
-    expect(stepsForFile.length).toBe(1);
+    expect(result.json.journeys[0]!.steps.find(s => s.screen === "TagRow")!.phase).toBe("Browse");
   });
 });
 
-describe("merge.ts — removed files", () => {
-  test("marks step deprecated when file removed", () => {
-    const step = makeStep("note-view", { swiftFile: "ExampleApp/Sources/UI/Views/NoteView.swift" });
-    const defs = makeWorkflow([makeJourney("main", [step])]);
-    const result = merge(
-      defs,
-      { currentSHA: "x", newFiles: [], removedFiles: ["ExampleApp/Sources/UI/Views/NoteView.swift"], modifiedFiles: [] },
-      []
+describe("merge.ts — type confidence", () => {
+  function addView(parsed: Partial<ParsedView>) {
+    const view: ParsedView = { structName: "NewView", filePath: "NewView.swift", presentsTo: [], inferredType: "input", ...parsed };
+    return merge(
+      makeWorkflow(),
+      { currentSHA: "x", newFiles: [{ path: view.filePath, content: "", diff: "", status: "A" }], removedFiles: [], modifiedFiles: [] },
+      [view]
     );
-    const found = result.json.journeys.find(j => j.id === "main")?.steps.find(s => s.id === "note-view");
-    expect(found?.deprecated).toBe(true);
-    expect(result.changes.some(c => c.action === "deprecate")).toBe(true);
+  }
+
+  test("confident inference is stored and not flagged for review", () => {
+    const result = addView({ typeConfidence: 0.9, typeEvidence: ["TextField at line 3"] });
+    const step = result.json.journeys[0]!.steps[0]!;
+    expect(step).toMatchObject({ type: "input", typeConfidence: 0.9, typeEvidence: ["TextField at line 3"] });
+    expect(step._needsReview).toBeUndefined();
+    expect(result.reviewCount).toBe(0);
   });
 
-  test("does not delete the step, only marks deprecated", () => {
-    const step = makeStep("editor", { swiftFile: "ExampleApp/Sources/UI/Views/EditorView.swift" });
-    const defs = makeWorkflow([makeJourney("notes", [step])]);
-    const result = merge(
-      defs,
-      { currentSHA: "x", newFiles: [], removedFiles: ["ExampleApp/Sources/UI/Views/EditorView.swift"], modifiedFiles: [] },
-      []
-    );
-    const journey = result.json.journeys.find(j => j.id === "notes")!;
-    expect(journey.steps.find(s => s.id === "editor")).toBeDefined();
+  test("low-confidence inference is flagged for review", () => {
+    const result = addView({ typeConfidence: 0.5, typeEvidence: ["Button at line 1 without dismiss"] });
+    expect(result.json.journeys[0]!.steps[0]!._needsReview).toBe(true);
+    expect(result.reviewCount).toBe(1);
   });
 });
 
-describe("merge.ts — modified files", () => {
-  test("updates next[] when edges change", () => {
-    const stepA = makeStep("view-a", { swiftFile: "ExampleApp/Sources/UI/Views/ViewA.swift", screen: "ViewA", next: [] });
-    const stepB = makeStep("view-b", { swiftFile: "ExampleApp/Sources/UI/Views/ViewB.swift", screen: "ViewB", next: [] });
-    const defs = makeWorkflow([makeJourney("main", [stepA, stepB])]);
+describe("merge.ts — entry points", () => {
+  const noChanges = { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [] };
+  const captureEntry: EntryPoint = { kind: "openURL", destination: "CaptureView", detail: "capture", filePath: "App.swift" };
+
+  test("marks the steps entry points land on", () => {
+    const defs = makeWorkflow([makeJourney("capture", [
+      makeStep("capture", { screen: "CaptureView", next: ["saved"] }),
+      makeStep("saved", { screen: "SavedView" }),
+    ])]);
+    const result = merge(defs, noChanges, [], DEFAULT_CONFIG, [captureEntry]);
+    const [capture, saved] = result.json.journeys[0]!.steps;
+    expect(capture!.entryPoints).toEqual([{ kind: "openURL", detail: "capture", filePath: "App.swift", synced: true }]);
+    expect(saved!.entryPoints).toBeUndefined();
+    expect(result.changes.map(c => c.action)).toEqual(["entry-points"]);
+    expect(applyChanges(defs, result.changes)).toEqual(result.json);
+  });
 
-    const parsed: ParsedView = {
+  test("skips steps another step of the journey leads to", () => {
+    const defs = makeWorkflow([makeJourney("browse", [
+      makeStep("home", { screen: "HomeView", next: ["capture"] }),
+      makeStep("capture", { screen: "CaptureView" }),
+    ])]);
+    const result = merge(defs, noChanges, [], DEFAULT_CONFIG, [captureEntry]);
+    expect(result.json.journeys[0]!.steps[1]!.entryPoints).toBeUndefined();
+    expect(result.changes).toEqual([]);
+  });
+
+  test("clears entry points no handler lands on any more", () => {
+    const defs = makeWorkflow([makeJourney("capture", [
+      makeStep("capture", { screen: "CaptureView", entryPoints: [{ kind: "openURL", filePath: "App.swift", synced: true }] }),
+    ])]);
+    const result = merge(defs, noChanges, [], DEFAULT_CONFIG, []);
+    expect(result.json.journeys[0]!.steps[0]!.entryPoints).toEqual([]);
+    expect(result.changes[0]).toMatchObject({ action: "entry-points", detail: "Entry points removed" });
+  });
+
+  test("leaves entry points alone when none are passed", () => {
+    const defs = makeWorkflow([makeJourney("capture", [
+      makeStep("capture", { screen: "CaptureView", entryPoints: [{ kind: "openURL", filePath: "App.swift" }] }),
+    ])]);
+    expect(merge(defs, noChanges, []).changes).toEqual([]);
+  });
+
+  test("keeps hand-added entry points while replacing synced ones", () => {
+    const manual = { kind: "userActivity" as const, detail: "com.example.capture", filePath: "Handoff.swift" };
+    const defs = makeWorkflow([makeJourney("capture", [
+      makeStep("capture", {
+        screen: "CaptureView",
+        entryPoints: [{ kind: "openURL", detail: "old", filePath: "App.swift", synced: true }, manual],
+      }),
+    ])]);
+
+    const result = merge(defs, noChanges, [], DEFAULT_CONFIG, [captureEntry]);
+    expect(result.json.journeys[0]!.steps[0]!.entryPoints).toEqual([
+      { kind: "openURL", detail: "capture", filePath: "App.swift", synced: true },
+      manual,
+    ]);
+    expect(applyChanges(defs, result.changes)).toEqual(result.json);
+
+    // The next cycle finds nothing new, and the handler going away leaves the hand-added one
+    expect(merge(result.json, noChanges, [], DEFAULT_CONFIG, [captureEntry]).changes).toEqual([]);
+    const removed = merge(result.json, noChanges, [], DEFAULT_CONFIG, []);
+    expect(removed.json.journeys[0]!.steps[0]!.entryPoints).toEqual([manual]);
+    expect(removed.changes[0]!.detail).toBe("Synced entry points removed; hand-added ones kept");
+  });
+
+  test("a hand-added entry the code then declares becomes a synced one", () => {
+    const defs = makeWorkflow([makeJourney("capture", [
+      makeStep("capture", { screen: "CaptureView", entryPoints: [{ kind: "openURL", detail: "capture", filePath: "App.swift" }] }),
+    ])]);
+    const result = merge(defs, noChanges, [], DEFAULT_CONFIG, [captureEntry]);
+    expect(result.json.journeys[0]!.steps[0]!.entryPoints).toEqual([
+      { kind: "openURL", detail: "capture", filePath: "App.swift", synced: true },
+    ]);
+  });
+
+  test("leaves hand-set entry points on android and deprecated steps", () => {
+    const entryPoints = [{ kind: "openURL" as const, filePath: "MainActivity.kt" }];
+    const defs = makeWorkflow([makeJourney("capture", [
+      makeStep("capture-android", { screen: "CaptureScreen", platform: "android", entryPoints }),
+      makeStep("capture-old", { screen: "CaptureView", deprecated: true, entryPoints }),
+    ])]);
+    const result = merge(defs, noChanges, [], DEFAULT_CONFIG, [captureEntry]);
+    expect(result.json.journeys[0]!.steps.map(s => s.entryPoints)).toEqual([entryPoints, entryPoints]);
+    expect(result.changes).toEqual([]);
+  });
+});
+
+describe("merge.ts — bootstrap", () => {
+  const view = (structName: string, filePath: string, ...destinations: string[]): ParsedView => ({
+    structName,
+    filePath,
+    presentsTo: destinations.map((destination) => ({ destination, mechanism: "sheet" })),
+    inferredType: "display",
+  });
+  const newFile = (path: string) => ({ path, content: "", diff: "", status: "A" as const });
+  const bootstrap = (...paths: string[]) =>
+    ({ currentSHA: "x", newFiles: paths.map(newFile), removedFiles: [], modifiedFiles: [], bootstrap: true });
+
+  test("adds only screens, not the helper views declared next to them", () => {
+    const defs = makeWorkflow([makeJourney("notes", [
+      makeStep("list", { screen: "NoteListView", swiftFile: "NoteList.swift", next: [] }),
+    ])]);
+    const parsed = [
+      view("NoteListView", "NoteList.swift", "NoteDetailView"),
+      view("NoteRow", "NoteList.swift"),
+      view("NoteDetailView", "NoteDetail.swift"),
+      view("DetailHeader", "NoteDetail.swift"),
+      view("SettingsView", "Settings.swift"),
+      view("CaptureView", "Capture.swift"),
+    ];
+    const entry: EntryPoint = { kind: "openURL", destination: "CaptureView", filePath: "App.swift" };
+    const result = merge(defs, bootstrap("NoteList.swift", "NoteDetail.swift", "Settings.swift", "Capture.swift"), parsed, DEFAULT_CONFIG, [entry]);
+
+    const added = result.changes.filter(c => c.action === "add").map(c => c.patch.op === "add-step" && c.patch.step.screen);
+    expect(added).toEqual(["NoteDetailView", "CaptureView"]);
+  });
+
+  test("adds the first view of an untracked file when it presents others", () => {
+    const parsed = [view("HomeView", "Home.swift", "NoteDetailView"), view("HomeRow", "Home.swift", "NoteDetailView"), view("NoteDetailView", "NoteDetail.swift")];
+    const result = merge(makeWorkflow([]), bootstrap("Home.swift", "NoteDetail.swift"), parsed);
+    expect(result.json.journeys.flatMap(j => j.steps).map(s => s.screen)).toEqual(["HomeView", "NoteDetailView"]);
+  });
+
+  test("a new file outside bootstrap still adds every view", () => {
+    const parsed = [view("NoteListView", "NoteList.swift"), view("NoteRow", "NoteList.swift")];
+    const result = merge(makeWorkflow([]), { ...bootstrap("NoteList.swift"), bootstrap: false }, parsed);
+    expect(result.json.journeys.flatMap(j => j.steps).map(s => s.screen)).toEqual(["NoteListView", "NoteRow"]);
+  });
+});
+
+describe("merge.ts — applyChanges (staged review)", () => {
+  function stagedScenario() {
+    const stepA = makeStep("view-a", { swiftFile: "ViewA.swift", screen: "ViewA" });
+    const stepB = makeStep("view-b", { swiftFile: "ViewB.swift", screen: "ViewB" });
+    const defs = makeWorkflow([makeJourney("main", [stepA, stepB])]);
+    const parsedA: ParsedView = {
       structName: "ViewA",
-      filePath: "ExampleApp/Sources/UI/Views/ViewA.swift",
+      filePath: "ViewA.swift",
       presentsTo: [{ destination: "ViewB", mechanism: "sheet" }],
       inferredType: "display",
     };
-
+    const parsedNew: ParsedView = {
+      structName: "NewView",
+      filePath: "ExampleAppShare/NewView.swift",
+      presentsTo: [],
+      inferredType: "display",
+    };
     const result = merge(
       defs,
-      { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: parsed.filePath, content: "", diff: "", status: "M" }] },
-      [parsed]
+      {
+        currentSHA: "x",
+        newFiles: [{ path: parsedNew.filePath, content: "", diff: "", status: "A" }],
+        removedFiles: ["ViewB.swift"],
+        modifiedFiles: [{ path: "ViewA.swift", content: "", diff: "", status: "M" }],
+      },
+      [parsedA, parsedNew]
     );
+    return { defs, result };
+  }
 
-    const foundA = result.json.journeys.find(j => j.id === "main")?.steps.find(s => s.id === "view-a");
-    expect(foundA?.next).toContain("view-b");
-    expect(result.changes.some(c => c.action === "update-edges")).toBe(true);
+  test("replaying every change reproduces the merge result", () => {
+    const { defs, result } = stagedScenario();
+    expect(result.changes.map(c => c.action).sort()).toEqual(["add", "deprecate", "update-edges"]);
+    expect(applyChanges(defs, result.changes)).toEqual(result.json);
   });
 
-  test("preserves edgeLabels on update (trims if next shrinks)", () => {
-    const stepA = makeStep("a", { screen: "AView", swiftFile: "a.swift", next: ["b", "c"], edgeLabels: ["Yes", "No"] });
-    const stepB = makeStep("b", { screen: "BView", swiftFile: "b.swift" });
-    const stepC = makeStep("c", { screen: "CView", swiftFile: "c.swift" });
-    const defs = makeWorkflow([makeJourney("j", [stepA, stepB, stepC])]);
+  test("applies only the accepted subset", () => {
+    const { defs, result } = stagedScenario();
+    const accepted = result.changes.filter(c => c.action === "update-edges");
+    const applied = applyChanges(defs, accepted);
+    const main = applied.journeys.find(j => j.id === "main")!;
+    expect(main.steps.find(s => s.id === "view-a")?.next).toEqual(["view-b"]);
+    expect(main.steps.find(s => s.id === "view-b")?.deprecated).toBeUndefined();
+    expect(applied.journeys.find(j => j.id === "capture-note")).toBeUndefined();
+  });
 
-    // Modified: now only presents to BView (not CView)
-    const parsed: ParsedView = {
-      structName: "AView",
-      filePath: "a.swift",
-      presentsTo: [{ destination: "BView", mechanism: "sheet" }],
-      inferredType: "display",
-    };
+  test("does not mutate its input and skips duplicate adds", () => {
+    const { defs, result } = stagedScenario();
+    const add = result.changes.filter(c => c.action === "add");
+    const once = applyChanges(defs, add);
+    const twice = applyChanges(once, add);
+    expect(defs.journeys.length).toBe(1);
+    expect(twice.journeys.find(j => j.id === "capture-note")?.steps.length).toBe(1);
+  });
+});
 
-    const result = merge(
-      defs,
-      { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: "a.swift", content: "", diff: "", status: "M" }] },
-      [parsed]
-    );
+describe("merge.ts — staged queue", () => {
+  const modifiedA = { currentSHA: "x", newFiles: [], removedFiles: [], modifiedFiles: [{ path: "a.swift", content: "", diff: "", status: "M" as const }] };
+  const parsedA = (...destinations: string[]): ParsedView => ({
+    structName: "AView",
+    filePath: "a.swift",
+    presentsTo: destinations.map((destination) => ({ destination, mechanism: "sheet" })),
+    inferredType: "display",
+  });
+  const journeyWith = (a: Partial<Step>) => makeWorkflow([makeJourney("j", [
+    makeStep("a", { screen: "AView", swiftFile: "a.swift", ...a }),
+    makeStep("b", { screen: "BView" }),
+    makeStep("c", { screen: "CView" }),
+    makeStep("d", { screen: "DView" }),
+  ])]);
+  const stepA = (defs: WorkflowDefs) => defs.journeys[0]!.steps.find(s => s.id === "a")!;
+
+  test("an edge update accepted late is merged with the step as it is then", () => {
+    const defs = journeyWith({ next: ["b"], _synced: { next: ["b"] } });
+    const queued = merge(defs, modifiedA, [parsedA("BView", "CView")]).changes;
+
+    // Someone draws a → d by hand before the change is accepted
+    const edited = structuredClone(defs);
+    stepA(edited).next.push("d");
+    const a = stepA(applyChanges(edited, queued));
+    expect(a.next).toEqual(["b", "c", "d"]);
+    expect(a._synced).toEqual({ next: ["b", "c"] });
+  });
 
-    const found = result.json.journeys.find(j => j.id === "j")?.steps.find(s => s.id === "a");
-    expect(found?.next).toEqual(["b"]);
-    expect(found?.edgeLabels).toEqual(["Yes"]);
+  test("accepting a conflict removes only the kept edges from next[] as it is then", () => {
+    const defs = journeyWith({ next: ["b", "c"], edgeLabels: { c: "Archive" }, _synced: { next: ["b", "c"], edgeLabels: { c: "Delete" } } });
+    const changes = merge(defs, modifiedA, [parsedA("BView")]).changes;
+    expect(changes.find(c => c.action === "conflict")!.patch).toEqual({ op: "remove-edges", targets: ["c"] });
+
+    const applied = applyChanges(defs, changes.filter(c => c.action === "update-edges"));
+    stepA(applied).next.push("d");
+    const a = stepA(applyChanges(applied, changes.filter(c => c.action === "conflict")));
+    expect(a.next).toEqual(["b", "d"]);
+    expect(a.edgeLabels).toEqual({});
+  });
+
+  test("a newer edge update supersedes the queued one for the same step", () => {
+    const defs = journeyWith({ next: ["b"], _synced: { next: ["b"] } });
+    const first = merge(defs, modifiedA, [parsedA("BView", "CView")]).changes;
+    const projected = applyChanges(defs, first);
+    const second = merge(projected, modifiedA, [parsedA("BView", "DView")]).changes;
+
+    const queued = structuredClone(first);
+    const rebased = rebaseChanges(queued, second);
+    expect(rebased.superseded).toEqual([queued[0]!]);
+    expect(rebased.changes).toEqual(second);
+    // Accepting only what's left gives the newer commit's edges
+    expect(stepA(applyChanges(defs, rebased.changes)).next).toEqual(["b", "d"]);
+  });
+
+  test("a queued change keeps the fields a newer one doesn't set", () => {
+    const queued: ChangeRecord[] = [{
+      action: "deprecate", journeyId: "j", stepId: "a", detail: "",
+      patch: { op: "set-fields", fields: { deprecated: true, deprecatedCommit: "abc" } },
+    }];
+    const { changes, superseded } = rebaseChanges(queued, [{
+      action: "revive", journeyId: "j", stepId: "a", detail: "",
+      patch: { op: "set-fields", fields: {}, clear: ["deprecated"] },
+    }]);
+    expect(changes).toHaveLength(1);
+    expect(superseded).toEqual([]);
+    expect(queued[0]!.patch).toEqual({ op: "set-fields", fields: { deprecatedCommit: "abc" } });
+  });
+
+  test("edges found for a step whose add is still queued go into the add", () => {
+    const newFile = { path: "a.swift", content: "", diff: "", status: "A" as const };
+    const config: SyncConfig = { ...DEFAULT_CONFIG, journeys: [{ match: "a.swift", journey: "j" }] };
+    const defs = makeWorkflow([makeJourney("j", [makeStep("b", { screen: "BView" })])]);
+    const first = merge(defs, { currentSHA: "1", newFiles: [newFile], removedFiles: [], modifiedFiles: [] }, [parsedA()], config).changes;
+    const second = merge(applyChanges(defs, first), { ...modifiedA, currentSHA: "2" }, [parsedA("BView")], config).changes;
+    expect(second.map(c => c.action)).toEqual(["update-edges"]);
+
+    const queued = structuredClone(first);
+    expect(rebaseChanges(queued, second)).toEqual({ changes: [], superseded: [] });
+    const added = applyChanges(defs, queued).journeys.flatMap(j => j.steps).find(s => s.screen === "AView")!;
+    expect(added.next).toEqual(["b"]);
+    expect(added._synced).toEqual({ next: ["b"] });
+  });
+
+  test("an edge to a step whose add is queued needs that add", () => {
+    const defs = makeWorkflow([makeJourney("j", [makeStep("a", { screen: "AView", swiftFile: "a.swift", next: [], _synced: { next: [] } })])]);
+    const newFile = { path: "e.swift", content: "", diff: "", status: "A" as const };
+    const parsedE: ParsedView = { structName: "EView", filePath: "e.swift", presentsTo: [], inferredType: "display" };
+    const config: SyncConfig = { ...DEFAULT_CONFIG, journeys: [{ match: "e.swift", journey: "j" }] };
+    const queued = merge(defs, { ...modifiedA, newFiles: [newFile] }, [parsedA("EView"), parsedE], config).changes;
+    const [add, edge] = queued;
+    expect(queued.map(c => c.action)).toEqual(["add", "update-edges"]);
+
+    // On its own the edge points at a step that isn't there yet
+    expect(validate(defs, applyChanges(defs, [edge!])).ok).toBe(false);
+    expect(changeDependencies(edge!, queued)).toEqual([add!]);
+    expect(validate(defs, applyChanges(defs, [add!, edge!])).ok).toBe(true);
+    expect(dependentChanges(add!, queued)).toEqual([edge!]);
+    expect(changeDependencies(add!, queued)).toEqual([]);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════════════
+// Tier 1: Unit Tests — migrate.ts
+// ══════════════════════════════════════════════════════════════════════════
+
+describe("migrate.ts", () => {
+  test("keys positional edgeLabels by target", () => {
+    expect(edgeLabelsByTarget(["a", "b", "c"], ["Yes", "", "Maybe"])).toEqual({ a: "Yes", c: "Maybe" });
+    expect(edgeLabelsByTarget(["a"], ["Yes", "Extra"])).toEqual({ a: "Yes" });
+  });
+
+  test("keeps a label per branch when several lead to the same step", () => {
+    expect(edgeLabelsByTarget(["key", "key", "key", "key"], ["OpenAI", "Anthropic", "Google", "xAI"]))
+      .toEqual({ key: ["OpenAI", "Anthropic", "Google", "xAI"] });
+    expect(edgeLabelsByTarget(["back", "back"], ["Delete", "Delete"])).toEqual({ back: ["Delete", "Delete"] });
+    expect(edgeLabelsByTarget(["a", "b", "a"], ["Yes", "", ""])).toEqual({ a: ["Yes", ""] });
+    expect(edgeLabelsByTarget(["a", "a"], ["", ""])).toEqual({});
+  });
+
+  test("folds a repeated target into one next[] entry with its branches' labels", () => {
+    const defs = makeWorkflow([makeJourney("j", [
+      makeStep("pick", { next: ["export", "export", "done"], edgeLabels: ["PDF", "CSV"] as unknown as Step["edgeLabels"] }),
+      makeStep("export"),
+      makeStep("done"),
+    ])]);
+    const { json, migrated } = migrateWorkflowDefs(defs);
+    expect(migrated).toBe(1);
+    expect(json.journeys[0]!.steps[0]).toMatchObject({ next: ["export", "done"], edgeLabels: { export: ["PDF", "CSV"] } });
+    expect(validateStructure(json).ok).toBe(true);
+    // The input is left alone
+    expect(defs.journeys[0]!.steps[0]!.next).toHaveLength(3);
+  });
+
+  test("migrates the _synced base too, and leaves migrated files unchanged", () => {
+    const step = makeStep("a", {
+      next: ["b"], edgeLabels: ["Go"] as unknown as Step["edgeLabels"],
+      _synced: { next: ["b"], edgeLabels: ["Go"] as unknown as Step["edgeLabels"] },
+    });
+    const { json } = migrateWorkflowDefs(makeWorkflow([makeJourney("j", [step, makeStep("b")])]));
+    expect(json.journeys[0]!.steps[0]!._synced).toEqual({ next: ["b"], edgeLabels: { b: "Go" } });
+    expect(migrateWorkflowDefs(json)).toEqual({ json, migrated: 0 });
   });
 });
 
@@ -407,6 +2484,30 @@ describe("validate.ts — failing cases", () => {
     expect(result.errors.some(e => e.includes("type"))).toBe(true);
   });
 
+  test("fails on invalid platform", () => {
+    const step = { ...makeStep("s1"), platform: "web" as any };
+    const defs = makeWorkflow([makeJourney("j1", [step])]);
+    const result = validate(defs, defs);
+    expect(result.ok).toBe(false);
+    expect(result.errors.some(e => e.includes("platform"))).toBe(true);
+  });
+
+  test("fails on typeConfidence out of range", () => {
+    const step = makeStep("s1", { typeConfidence: 1.5 });
+    const defs = makeWorkflow([makeJourney("j1", [step])]);
+    const result = validate(defs, defs);
+    expect(result.ok).toBe(false);
+    expect(result.errors.some(e => e.includes("typeConfidence"))).toBe(true);
+  });
+
+  test("fails on invalid entry point kind", () => {
+    const step = makeStep("s1", { entryPoints: [{ kind: "push" as any, filePath: "A.swift" }] });
+    const defs = makeWorkflow([makeJourney("j1", [step])]);
+    const result = validate(defs, defs);
+    expect(result.ok).toBe(false);
+    expect(result.errors.some(e => e.includes("entry point"))).toBe(true);
+  });
+
   test("fails on next[] ref to nonexistent step", () => {
     const step = makeStep("s1", { next: ["ghost"] });
     const defs = makeWorkflow([makeJourney("j1", [step])]);
@@ -442,6 +2543,90 @@ describe("validate.ts — failing cases", () => {
   });
 });
 
+describe("validate.ts — validateStructure (API bodies)", () => {
+  test("accepts a well-formed WorkflowDefs", () => {
+    const defs = makeWorkflow([makeJourney("j1", [makeStep("s1")])]);
+    expect(validateStructure(defs).ok).toBe(true);
+  });
+
+  test("rejects non-object bodies", () => {
+    for (const body of [undefined, null, [], "text", 42]) {
+      const result = validateStructure(body);
+      expect(result.ok).toBe(false);
+      expect(result.errors).toEqual(["Body must be a JSON object"]);
+    }
+  });
+
+  test("rejects an empty object", () => {
+    const result = validateStructure({});
+    expect(result.ok).toBe(false);
+    expect(result.errors.some(e => e.includes("journeys"))).toBe(true);
+  });
+
+  test("reports non-object journeys and steps instead of throwing", () => {
+    const result = validateStructure({
+      journeys: [null, { id: "j1", name: "J", description: "", steps: [42] }],
+    });
+    expect(result.ok).toBe(false);
+    expect(result.errors).toContain("Journey at index 0 is not an object");
+    expect(result.errors).toContain('Journey "j1": step at index 0 is not an object');
+  });
+
+  test("accepts journeyId:stepId refs to steps of other journeys", () => {
+    const defs = makeWorkflow([
+      makeJourney("j1", [makeStep("s1", { next: ["j2:s2"], edgeLabels: { "j2:s2": "Upgrade" } })]),
+      makeJourney("j2", [makeStep("s2")]),
+    ]);
+    expect(validateStructure(defs)).toEqual({ ok: true, errors: [] });
+  });
+
+  test("rejects cross-journey refs to missing steps, or into the step's own journey", () => {
+    const defs = makeWorkflow([
+      makeJourney("j1", [makeStep("s1", { next: ["j2:ghost", "nowhere:s2", "j1:s3"] }), makeStep("s3")]),
+      makeJourney("j2", [makeStep("s2")]),
+    ]);
+    const { errors } = validateStructure(defs);
+    expect(errors).toEqual([
+      'Journey "j1" step "s1": next ref "j2:ghost" not found (no step "ghost" in journey "j2")',
+      'Journey "j1" step "s1": next ref "nowhere:s2" not found (no step "s2" in journey "nowhere")',
+      'Journey "j1" step "s1": next ref "j1:s3" names its own journey (use "s3")',
+    ]);
+  });
+
+  test("rejects positional edgeLabels and labels for targets not in next", () => {
+    const positional = makeWorkflow([makeJourney("j1", [
+      makeStep("s1", { next: ["s2"], edgeLabels: ["Go"] as unknown as Step["edgeLabels"] }),
+      makeStep("s2"),
+    ])]);
+    expect(validateStructure(positional).errors.some(e => e.includes("migrate-workflows"))).toBe(true);
+
+    const stray = makeWorkflow([makeJourney("j1", [makeStep("s1", { next: [], edgeLabels: { s2: "Go" } }), makeStep("s2")])]);
+    expect(validateStructure(stray).errors).toContain('Journey "j1" step "s1": edgeLabels key "s2" not in next');
+  });
+
+  test("accepts a label per branch and rejects other label values", () => {
+    const branches = makeWorkflow([makeJourney("j1", [
+      makeStep("s1", { next: ["s2"], edgeLabels: { s2: ["PDF", "CSV"] } }),
+      makeStep("s2"),
+    ])]);
+    expect(validateStructure(branches).ok).toBe(true);
+
+    const numeric = makeWorkflow([makeJourney("j1", [
+      makeStep("s1", { next: ["s2"], edgeLabels: { s2: [1, 2] } as unknown as Step["edgeLabels"] }),
+      makeStep("s2"),
+    ])]);
+    expect(validateStructure(numeric).errors).toEqual(['Journey "j1" step "s1": edgeLabels "s2" must be a string or an array of strings']);
+  });
+
+  test("ignores journey count and removed-step bounds", () => {
+    const incoming = makeWorkflow([
+      makeJourney("j1"), makeJourney("j2"), makeJourney("j3"),
+      makeJourney("j4"), makeJourney("j5"),
+    ]);
+    expect(validateStructure(incoming).ok).toBe(true);
+  });
+});
+
 // ══════════════════════════════════════════════════════════════════════════
 // Tier 2: Integration Test — temp git repo + Swift fixtures
 // ══════════════════════════════════════════════════════════════════════════
@@ -512,11 +2697,42 @@ describe("Integration: full pipeline", () => {
   test("scan detects new file between commits", async () => {
     const result = await scan(TMP_REPO, initialSHA);
     expect(result.currentSHA).toBe(secondSHA);
+    expect(Number.isNaN(Date.parse(result.commitDate!))).toBe(false);
     expect(result.newFiles.length).toBe(1);
     expect(result.newFiles[0].path).toBe("ExampleApp/Sources/UI/Views/NoteDetailView.swift");
     expect(result.newFiles[0].status).toBe("A");
   });
 
+  test("scan without a last commit bootstraps every watched file at HEAD", async () => {
+    const result = await scan(TMP_REPO, null);
+    expect(result.currentSHA).toBe(secondSHA);
+    expect(result.bootstrap).toBe(true);
+    expect(result.newFiles.map(f => f.path).sort()).toEqual([
+      "ExampleApp/Sources/UI/Views/NoteDetailView.swift",
+      "ExampleApp/Sources/UI/Views/NoteListView.swift",
+    ]);
+    expect(result.newFiles.every(f => f.status === "A" && f.content.includes("struct"))).toBe(true);
+  });
+
+  test("bootstrap pipeline builds steps and edges for an empty workflow", async () => {
+    const scanResult = await scan(TMP_REPO, null);
+    const parsed = scanResult.newFiles.flatMap((f) => parseSwiftFile(f.path, f.content));
+    const baseDefs: WorkflowDefs = { version: "1.0", generatedAt: "", journeys: [] };
+    const mergeResult = merge(baseDefs, scanResult, parsed);
+
+    const allSteps = mergeResult.json.journeys.flatMap(j => j.steps);
+    expect(allSteps.map(s => s.screen).sort()).toEqual(["NoteDetailView", "NoteListView"]);
+    expect(allSteps.find(s => s.screen === "NoteListView")?.next).toEqual(["note-detail-view"]);
+    expect(validate(baseDefs, mergeResult.json, { unboundedJourneys: true }).ok).toBe(true);
+  });
+
+  test("scan only reports files matched by the config's globs", async () => {
+    const config: SyncConfig = { ...DEFAULT_CONFIG, ignore: ["**/NoteDetailView.swift"] };
+    expect((await scan(TMP_REPO, initialSHA, config)).newFiles).toEqual([]);
+    const bootstrap = await scan(TMP_REPO, null, config);
+    expect(bootstrap.newFiles.map(f => f.path)).toEqual(["ExampleApp/Sources/UI/Views/NoteListView.swift"]);
+  });
+
   test("full pipeline: scan → parse → merge → validate", async () => {
     const { parseSwiftFile } = await import("./parse");
     const { merge } = await import("./merge");
@@ -525,10 +2741,7 @@ describe("Integration: full pipeline", () => {
     const scanResult = await scan(TMP_REPO, initialSHA);
 
     // Parse all changed files
-    const parsed = scanResult.newFiles.flatMap((f) => {
-      const pv = parseSwiftFile(f.path, f.content);
-      return pv ? [pv] : [];
-    });
+    const parsed = scanResult.newFiles.flatMap((f) => parseSwiftFile(f.path, f.content));
 
     expect(parsed.length).toBe(1);
     expect(parsed[0].structName).toBe("NoteDetailView");
@@ -539,17 +2752,126 @@ describe("Integration: full pipeline", () => {
 
     const mergeResult = merge(baseDefs, scanResult, parsed);
     expect(mergeResult.changes.length).toBeGreaterThan(0);
-    expect(mergeResult.reviewCount).toBe(1);
+    // A plain display view is a confident inference, so it isn't queued for review
+    expect(mergeResult.reviewCount).toBe(0);
 
     // The new step should be in a journey
     const allSteps = mergeResult.json.journeys.flatMap(j => j.steps);
     const detailStep = allSteps.find(s => s.screen === "NoteDetailView");
     expect(detailStep).toBeDefined();
-    expect(detailStep?._needsReview).toBe(true);
-    expect(detailStep?.type).toBe("display");
+    expect(detailStep?._needsReview).toBeUndefined();
+    expect(detailStep).toMatchObject({ type: "display", typeConfidence: 0.75 });
 
     // Validate
     const validation = validate(baseDefs, mergeResult.json);
     expect(validation.ok).toBe(true);
   });
 });
+
+describe("Integration: removals", () => {
+  const REMOVAL_REPO = join(import.meta.dir, "__test_removal_repo__");
+  const LIST_PATH = "ExampleApp/Sources/UI/Views/NoteListView.swift";
+  const DETAIL_PATH = "ExampleApp/Sources/UI/Views/NoteDetailView.swift";
+  let baseSHA = "";
+  let removingSHA = "";
+
+  beforeAll(async () => {
+    rmSync(REMOVAL_REPO, { recursive: true, force: true });
+    mkdirSync(join(REMOVAL_REPO, "ExampleApp/Sources/UI/Views"), { recursive: true });
+    await runGit(REMOVAL_REPO, "init");
+    await runGit(REMOVAL_REPO, "config", "user.email", "test@test.com");
+    await runGit(REMOVAL_REPO, "config", "user.name", "Test");
+
+    for (const [path, content] of Object.entries(FIXTURE_VIEWS)) {
+      writeFileSync(join(REMOVAL_REPO, path), content);
+    }
+    await runGit(REMOVAL_REPO, "add", ".");
+    await runGit(REMOVAL_REPO, "commit", "-m", "initial");
+    baseSHA = (await Bun.$`git -C ${REMOVAL_REPO} rev-parse HEAD`.quiet()).stdout.toString().trim();
+
+    await runGit(REMOVAL_REPO, "rm", "-q", DETAIL_PATH);
+    await runGit(REMOVAL_REPO, "commit", "-m", "remove detail view");
+    removingSHA = (await Bun.$`git -C ${REMOVAL_REPO} rev-parse HEAD`.quiet()).stdout.toString().trim();
+
+    // A later commit, so HEAD is not the one that removed the file
+    writeFileSync(join(REMOVAL_REPO, LIST_PATH), FIXTURE_VIEWS[LIST_PATH] + "\n// tweak\n");
+    await runGit(REMOVAL_REPO, "commit", "-am", "tweak list");
+  });
+
+  afterAll(() => {
+    rmSync(REMOVAL_REPO, { recursive: true, force: true });
+  });
+
+  test("deprecated steps record the commit that removed their file, not HEAD", async () => {
+    const scanResult = await scan(REMOVAL_REPO, baseSHA);
+    expect(scanResult.removedFiles).toEqual([DETAIL_PATH]);
+    expect(scanResult.currentSHA).not.toBe(removingSHA);
+
+    const defs = makeWorkflow([makeJourney("browse", [makeStep("note-detail", { screen: "NoteDetailView", swiftFile: DETAIL_PATH })])]);
+    const result = merge(defs, scanResult, []);
+    const step = result.json.journeys[0]!.steps[0]!;
+    expect(step.deprecatedCommit).toBe(removingSHA);
+    expect(step.deprecatedAt).toBe(scanResult.removals![DETAIL_PATH]!.date);
+  });
+});
+
+describe("Integration: renames", () => {
+  const RENAME_REPO = join(import.meta.dir, "__test_rename_repo__");
+  const OLD_PATH = "ExampleApp/Sources/UI/Views/NoteDetailView.swift";
+  const NEW_PATH = "ExampleApp/Sources/UI/Components/NoteDetailView.swift";
+  let baseSHA = "";
+
+  beforeAll(async () => {
+    rmSync(RENAME_REPO, { recursive: true, force: true });
+    mkdirSync(join(RENAME_REPO, "ExampleApp/Sources/UI/Views"), { recursive: true });
+    mkdirSync(join(RENAME_REPO, "ExampleApp/Sources/UI/Components"), { recursive: true });
+    await runGit(RENAME_REPO, "init");
+    await runGit(RENAME_REPO, "config", "user.email", "test@test.com");
+    await runGit(RENAME_REPO, "config", "user.name", "Test");
+
+    for (const [path, content] of Object.entries(FIXTURE_VIEWS)) {
+      writeFileSync(join(RENAME_REPO, path), content);
+    }
+    await runGit(RENAME_REPO, "add", ".");
+    await runGit(RENAME_REPO, "commit", "-m", "initial");
+    baseSHA = (await Bun.$`git -C ${RENAME_REPO} rev-parse HEAD`.quiet()).stdout.toString().trim();
+
+    await runGit(RENAME_REPO, "mv", OLD_PATH, NEW_PATH);
+    await runGit(RENAME_REPO, "commit", "-m", "move detail view");
+  });
+
+  afterAll(() => {
+    rmSync(RENAME_REPO, { recursive: true, force: true });
+  });
+
+  test("scan reports a moved view as a rename, not a remove + add", async () => {
+    const result = await scan(RENAME_REPO, baseSHA);
+    expect(result.newFiles).toEqual([]);
+    expect(result.removedFiles).toEqual([]);
+    expect(result.renamedFiles).toEqual([
+      expect.objectContaining({ path: NEW_PATH, oldPath: OLD_PATH, status: "R" }),
+    ]);
+  });
+
+  test("a move out of the watched paths is reported as a removal", async () => {
+    const config: SyncConfig = { ...DEFAULT_CONFIG, ignore: ["**/Components/**"] };
+    const result = await scan(RENAME_REPO, baseSHA, config);
+    expect(result.renamedFiles).toEqual([]);
+    expect(result.removedFiles).toEqual([OLD_PATH]);
+    expect(result.removals?.[OLD_PATH]?.sha).toBe(result.currentSHA);
+  });
+
+  test("merge keeps the step and its ID across the move", async () => {
+    const scanResult = await scan(RENAME_REPO, baseSHA);
+    const parsed = (scanResult.renamedFiles ?? []).flatMap((f) => parseSwiftFile(f.path, f.content));
+    const defs = makeWorkflow([makeJourney("browse", [
+      makeStep("note-list", { screen: "NoteListView", swiftFile: "ExampleApp/Sources/UI/Views/NoteListView.swift", next: ["note-detail"] }),
+      makeStep("note-detail", { screen: "NoteDetailView", swiftFile: OLD_PATH }),
+    ])]);
+
+    const result = merge(defs, scanResult, parsed);
+    expect(result.json.journeys[0]!.steps.find(s => s.id === "note-detail")?.swiftFile).toBe(NEW_PATH);
+    expect(result.changes.map(c => c.action)).toEqual(["rename"]);
+    expect(validate(defs, result.json).ok).toBe(true);
+  });
+});
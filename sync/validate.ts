@@ -4,52 +4,51 @@
  * Returns { ok: boolean; errors: string[] }
  */
 
+import { parseStepRef } from "./merge";
 import type { WorkflowDefs, Journey, Step } from "./merge";
 
 const VALID_TYPES = new Set(["action", "display", "decision", "input", "system"]);
+const VALID_PLATFORMS = new Set(["ios", "android"]);
+const VALID_ENTRY_KINDS = new Set(["openURL", "externalEvents", "userActivity", "appIntent"]);
 
 export interface ValidationResult {
   ok: boolean;
   errors: string[];
 }
 
-export function validate(
-  current: WorkflowDefs,
-  incoming: WorkflowDefs
-): ValidationResult {
+/**
+ * Shape checks that hold for any WorkflowDefs, independent of what it
+ * replaces. Also used by the HTTP API to vet incoming bodies, so it
+ * tolerates arbitrary JSON.
+ */
+export function validateStructure(incoming: unknown): ValidationResult {
   const errors: string[] = [];
 
-  // 1. Has journeys array
-  if (!Array.isArray(incoming.journeys)) {
-    errors.push("Missing or invalid journeys array");
+  if (typeof incoming !== "object" || incoming === null || Array.isArray(incoming)) {
+    errors.push("Body must be a JSON object");
     return { ok: false, errors };
   }
 
-  // 2. Journey count delta bounded: +3 / -1
-  const currCount = (current.journeys || []).length;
-  const newCount = incoming.journeys.length;
-  const delta = newCount - currCount;
-  if (delta > 3) {
-    errors.push(`Too many journeys added in one cycle: +${delta} (max +3)`);
-  }
-  if (delta < -1) {
-    errors.push(`Too many journeys removed in one cycle: ${delta} (max -1)`);
-  }
-
-  // Build set of non-deprecated step IDs from current defs
-  const currentStepIds = new Set<string>();
-  for (const journey of current.journeys || []) {
-    for (const step of journey.steps || []) {
-      if (!step.deprecated) {
-        currentStepIds.add(`${journey.id}::${step.id}`);
-      }
-    }
+  // 1. Has journeys array
+  const journeys = (incoming as WorkflowDefs).journeys;
+  if (!Array.isArray(journeys)) {
+    errors.push("Missing or invalid journeys array");
+    return { ok: false, errors };
   }
 
   // Track global step IDs for uniqueness check
   const globalStepIds = new Set<string>();
+  // Step IDs by journey, for cross-journey next[] refs
+  const stepIdsByJourney = new Map<string, Set<string>>();
+  for (const journey of journeys) {
+    if (Array.isArray(journey?.steps)) stepIdsByJourney.set(journey.id, new Set(journey.steps.map((s) => s?.id)));
+  }
 
-  for (const journey of incoming.journeys) {
+  journeys.forEach((journey: Journey, journeyIndex) => {
+    if (typeof journey !== "object" || journey === null) {
+      errors.push(`Journey at index ${journeyIndex} is not an object`);
+      return;
+    }
     const jPrefix = `Journey "${journey.id}"`;
 
     // 3. Each journey has required fields
@@ -58,17 +57,22 @@ export function validate(
     if (typeof journey.description !== "string") errors.push(`${jPrefix}: missing description`);
     if (!Array.isArray(journey.steps)) {
       errors.push(`${jPrefix}: missing steps array`);
-      continue;
+      return;
     }
 
     // Build step ID set for this journey (for next[] ref checks)
-    const journeyStepIds = new Set(journey.steps.map((s) => s.id));
+    const journeyStepIds = new Set(journey.steps.map((s) => s?.id));
 
-    for (const step of journey.steps) {
+    journey.steps.forEach((step: Step, stepIndex) => {
+      if (typeof step !== "object" || step === null) {
+        errors.push(`${jPrefix}: step at index ${stepIndex} is not an object`);
+        return;
+      }
       const sPrefix = `${jPrefix} step "${step.id}"`;
 
       // 4. Each step has required fields
-      if (!step.id) { errors.push(`${jPrefix}: step missing id`); continue; }
+      if (!step.id) { errors.push(`${jPrefix}: step missing id`); return; }
+      if (String(step.id).includes(":")) errors.push(`${sPrefix}: step IDs must not contain ":"`);
       if (!step.label) errors.push(`${sPrefix}: missing label`);
       if (!step.screen) errors.push(`${sPrefix}: missing screen`);
       if (step.swiftFile === undefined) errors.push(`${sPrefix}: missing swiftFile`);
@@ -79,6 +83,22 @@ export function validate(
       if (step.type && !VALID_TYPES.has(step.type)) {
         errors.push(`${sPrefix}: invalid type "${step.type}"`);
       }
+      if (step.platform !== undefined && !VALID_PLATFORMS.has(step.platform)) {
+        errors.push(`${sPrefix}: invalid platform "${step.platform}"`);
+      }
+      if (step.typeConfidence !== undefined &&
+          (typeof step.typeConfidence !== "number" || step.typeConfidence < 0 || step.typeConfidence > 1)) {
+        errors.push(`${sPrefix}: typeConfidence must be a number from 0 to 1`);
+      }
+      if (step.entryPoints !== undefined) {
+        if (!Array.isArray(step.entryPoints)) {
+          errors.push(`${sPrefix}: entryPoints must be an array`);
+        } else {
+          for (const entry of step.entryPoints) {
+            if (!VALID_ENTRY_KINDS.has(entry?.kind)) errors.push(`${sPrefix}: invalid entry point kind "${entry?.kind}"`);
+          }
+        }
+      }
 
       // 6. Step IDs unique per journey
       const globalKey = `${journey.id}::${step.id}`;
@@ -88,22 +108,86 @@ export function validate(
         globalStepIds.add(globalKey);
       }
 
-      // 7. next[] refs must exist within the same journey
+      // 7. next[] refs must exist: in the same journey, or "journeyId:stepId" in another
       if (Array.isArray(step.next)) {
         for (const nextId of step.next) {
-          if (!journeyStepIds.has(nextId)) {
-            errors.push(`${sPrefix}: next ref "${nextId}" not found in journey`);
+          const ref = parseStepRef(String(nextId), journey.id);
+          if (ref.journeyId === journey.id) {
+            if (nextId !== ref.stepId) {
+              errors.push(`${sPrefix}: next ref "${nextId}" names its own journey (use "${ref.stepId}")`);
+            } else if (!journeyStepIds.has(nextId)) {
+              errors.push(`${sPrefix}: next ref "${nextId}" not found in journey`);
+            }
+          } else if (!stepIdsByJourney.get(ref.journeyId)?.has(ref.stepId)) {
+            errors.push(`${sPrefix}: next ref "${nextId}" not found (no step "${ref.stepId}" in journey "${ref.journeyId}")`);
           }
         }
       }
 
-      // 8. Non-deprecated step IDs from current must not be removed
-      if (currentStepIds.has(globalKey) && step.deprecated) {
-        // It's OK to deprecate — that's our soft-delete mechanism
+      // 9. edgeLabels keyed by next[] targets (arrays predate that; migrate them)
+      if (step.edgeLabels !== undefined) {
+        if (typeof step.edgeLabels !== "object" || step.edgeLabels === null || Array.isArray(step.edgeLabels)) {
+          errors.push(`${sPrefix}: edgeLabels must be an object keyed by target step (run bun migrate-workflows.ts)`);
+        } else {
+          for (const [target, label] of Object.entries(step.edgeLabels)) {
+            if (Array.isArray(step.next) && !step.next.includes(target)) errors.push(`${sPrefix}: edgeLabels key "${target}" not in next`);
+            // One label, or one per branch into the same target
+            if (typeof label !== "string" && !(Array.isArray(label) && label.every((l) => typeof l === "string"))) {
+              errors.push(`${sPrefix}: edgeLabels "${target}" must be a string or an array of strings`);
+            }
+          }
+        }
+      }
+    });
+  });
+
+  return { ok: errors.length === 0, errors };
+}
+
+export interface ValidateOptions {
+  /** Skip the journey count bounds (initial bootstrap scan creates many at once) */
+  unboundedJourneys?: boolean;
+}
+
+/**
+ * Full check for a sync cycle: structure plus bounds on how much may change
+ * relative to current in one go.
+ */
+export function validate(
+  current: WorkflowDefs,
+  incoming: WorkflowDefs,
+  options: ValidateOptions = {}
+): ValidationResult {
+  const structure = validateStructure(incoming);
+  if (!Array.isArray(incoming?.journeys)) return structure;
+  const errors = [...structure.errors];
+
+  // 2. Journey count delta bounded: +3 / -1
+  const currCount = (current.journeys || []).length;
+  const newCount = incoming.journeys.length;
+  const delta = newCount - currCount;
+  if (delta > 3 && !options.unboundedJourneys) {
+    errors.push(`Too many journeys added in one cycle: +${delta} (max +3)`);
+  }
+  if (delta < -1) {
+    errors.push(`Too many journeys removed in one cycle: ${delta} (max -1)`);
+  }
+
+  // Build set of non-deprecated step IDs from current defs
+  const currentStepIds = new Set<string>();
+  for (const journey of current.journeys || []) {
+    for (const step of journey.steps || []) {
+      if (!step.deprecated) {
+        currentStepIds.add(`${journey.id}::${step.id}`);
       }
     }
+  }
 
-    // 9. Check that no non-deprecated current step IDs are fully gone
+  // 8. Non-deprecated step IDs from current must not be removed
+  // (deprecating is fine — that's our soft-delete mechanism)
+  for (const journey of incoming.journeys) {
+    if (!journey || !Array.isArray(journey.steps)) continue;
+    const journeyStepIds = new Set(journey.steps.map((s) => s?.id));
     for (const key of currentStepIds) {
       if (key.startsWith(journey.id + "::")) {
         const stepId = key.slice(journey.id.length + 2);
@@ -114,13 +198,7 @@ export function validate(
     }
   }
 
-  // Check that no entire current journeys are gone without accounting for delta
-  const incomingJourneyIds = new Set(incoming.journeys.map((j) => j.id));
-  for (const journey of current.journeys || []) {
-    if (!incomingJourneyIds.has(journey.id)) {
-      // A journey being removed is captured by the delta check above
-    }
-  }
+  // Whole journeys going away are captured by the delta check above
 
   return { ok: errors.length === 0, errors };
 }